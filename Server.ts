@@ -8,7 +8,7 @@ import config from "./config";
 import models from "./models";
 import log from "./logging";
 import customErrors from "./api/customErrors";
-import modelsUtil from "./models/util/util";
+import { openStorage } from "./models/util/storage";
 import api from "./api/V1";
 import fileProcessingApi from "./api/fileProcessing";
 
@@ -37,6 +37,7 @@ app.all("*", function (req, res, next) {
     "Access-Control-Allow-Headers",
     "where, offset, limit, Authorization, Origin, X-Requested-With, Content-Type, Accept"
   );
+  res.header("Access-Control-Expose-Headers", "Next-Cursor");
   next();
 });
 
@@ -55,7 +56,7 @@ log.info("Connecting to database.....");
 models.sequelize
   .authenticate()
   .then(() => log.info("Connected to database."))
-  .then(() => checkS3Connection())
+  .then(() => checkStorageConnection())
   .then(() => openHttpServer(app))
   .catch(function (error) {
     log.error(error);
@@ -77,20 +78,16 @@ function openHttpServer(app) {
   });
 }
 
-// Returns a Promise that will reolve if it could connect to the S3 file storage
+// Returns a Promise that will resolve if it could connect to the object store
 // and reject if connection failed.
-function checkS3Connection() {
-  return new Promise(function (resolve, reject) {
-    const s3 = modelsUtil.openS3();
-    const params = { Bucket: config.s3.bucket };
-    log.info("Connecting to S3.....");
-    s3.headBucket(params, function (err) {
-      if (err) {
-        log.error("Error with connecting to S3.");
-        return reject(err);
-      }
-      log.info("Connected to S3.");
-      return resolve();
-    });
-  });
+async function checkStorageConnection() {
+  const storage = openStorage();
+  log.info(`Connecting to object store (${storage.description}).....`);
+  try {
+    await storage.checkConnection();
+  } catch (err) {
+    log.error("Error with connecting to object store.");
+    throw err;
+  }
+  log.info("Connected to object store.");
 }
@@ -20,8 +20,14 @@ import middleware from "../middleware";
 import auth from "../auth";
 import models from "../../models";
 import responseUtil from "./responseUtil";
+import quotaUtil from "./quotaUtil";
+import retentionUtil, { RETENTION_RULES } from "./retentionUtil";
+import storageAuditUtil from "./storageAuditUtil";
 import { body, param } from "express-validator/check";
 import { Application } from "express";
+import { Device } from "../../models/Device";
+import { Group } from "../../models/Group";
+import { ClientError } from "../customErrors";
 
 export default function (app: Application, baseUrl: string) {
   const apiUrl = `${baseUrl}/admin`;
@@ -55,4 +61,302 @@ export default function (app: Application, baseUrl: string) {
       });
     })
   );
+
+  const quotaValidators = Object.freeze([
+    body("recordingsPerDayQuota")
+      .optional({ nullable: true })
+      .isInt({ min: 0 }),
+    body("bytesPerMonthQuota").optional({ nullable: true }).isInt({ min: 0 })
+  ]);
+
+  // Sets the quotas given in the request body, null removes a quota.
+  async function updateQuotas(owner: Device | Group, request) {
+    if ("recordingsPerDayQuota" in request.body) {
+      owner.recordingsPerDayQuota = request.body.recordingsPerDayQuota;
+    }
+    if ("bytesPerMonthQuota" in request.body) {
+      owner.bytesPerMonthQuota = request.body.bytesPerMonthQuota;
+    }
+    await owner.save();
+  }
+
+  /**
+   * @api {get} /api/v1/admin/quotas/groups/:groupIdOrName Get upload usage of a group
+   * @apiName GetGroupQuotaUsage
+   * @apiGroup Admin
+   * @apiDescription Returns the recordings uploaded today and bytes uploaded
+   * this month by a group and each of its devices, along with their quotas.
+   * A null quota means there is no limit.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   * @apiParam {Number|String} groupIdOrName group name or group id
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiSuccess {JSON} group Usage and quotas of the group.
+   * @apiSuccess {JSON[]} devices Usage and quotas of each active device in the group.
+   * @apiUse V1ResponseError
+   */
+  app.get(
+    `${apiUrl}/quotas/groups/:groupIdOrName`,
+    [
+      auth.authenticateAdmin,
+      middleware.getGroupByNameOrIdDynamic(param, "groupIdOrName")
+    ],
+    middleware.requestWrapper(async (request, response) => {
+      const group: Group = request.body.group;
+      const devices = await group.getDevices({ where: { active: true } });
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Got upload usage."],
+        group: {
+          id: group.id,
+          groupname: group.groupname,
+          ...(await quotaUtil.getGroupUsage(group))
+        },
+        devices: await Promise.all(
+          devices.map(async (device) => ({
+            id: device.id,
+            devicename: device.devicename,
+            ...(await quotaUtil.getDeviceUsage(device))
+          }))
+        )
+      });
+    })
+  );
+
+  /**
+   * @api {patch} /api/v1/admin/quotas/groups/:groupIdOrName Set upload quotas of a group
+   * @apiName UpdateGroupQuotas
+   * @apiGroup Admin
+   * @apiDescription Sets limits on the combined uploads of a group's devices.
+   * Devices are refused uploads with a 429 response once a quota is reached.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   * @apiParam {Number|String} groupIdOrName group name or group id
+   * @apiParam {Number} [recordingsPerDayQuota] Recordings that can be uploaded each day, null for no limit.
+   * @apiParam {Number} [bytesPerMonthQuota] Bytes that can be uploaded each month, null for no limit.
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiUse V1ResponseError
+   */
+  app.patch(
+    `${apiUrl}/quotas/groups/:groupIdOrName`,
+    [
+      auth.authenticateAdmin,
+      middleware.getGroupByNameOrIdDynamic(param, "groupIdOrName"),
+      ...quotaValidators
+    ],
+    middleware.requestWrapper(async (request, response) => {
+      await updateQuotas(request.body.group, request);
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Group quotas updated."]
+      });
+    })
+  );
+
+  /**
+   * @api {patch} /api/v1/admin/quotas/devices/:deviceId Set upload quotas of a device
+   * @apiName UpdateDeviceQuotas
+   * @apiGroup Admin
+   * @apiDescription Sets limits on a device's uploads. Its group's quotas
+   * also apply.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   * @apiParam {Number} deviceId id of the device
+   * @apiParam {Number} [recordingsPerDayQuota] Recordings that can be uploaded each day, null for no limit.
+   * @apiParam {Number} [bytesPerMonthQuota] Bytes that can be uploaded each month, null for no limit.
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiUse V1ResponseError
+   */
+  app.patch(
+    `${apiUrl}/quotas/devices/:deviceId`,
+    [
+      auth.authenticateAdmin,
+      middleware.getDeviceById(param),
+      ...quotaValidators
+    ],
+    middleware.requestWrapper(async (request, response) => {
+      await updateQuotas(request.body.device, request);
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Device quotas updated."]
+      });
+    })
+  );
+
+  // A policy is an object of rules, each being a number of days or null to
+  // turn the rule off. A null policy keeps everything.
+  function isRetentionPolicy(policy) {
+    if (policy === null) {
+      return true;
+    }
+    if (typeof policy !== "object" || Array.isArray(policy)) {
+      throw new Error("Retention policy must be an object or null.");
+    }
+    for (const [rule, days] of Object.entries(policy) as [string, any][]) {
+      if (!(RETENTION_RULES as readonly string[]).includes(rule)) {
+        throw new Error(`Unknown retention rule '${rule}'.`);
+      }
+      if (days !== null && !(Number.isInteger(days) && days >= 1)) {
+        throw new Error(`'${rule}' must be a whole number of days or null.`);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * @api {patch} /api/v1/admin/retention/groups/:groupIdOrName Set retention policy of a group
+   * @apiName UpdateGroupRetentionPolicy
+   * @apiGroup Admin
+   * @apiDescription Sets how long a group's recordings are kept. The policy
+   * is applied daily by apply-retention. Recordings with tags or track tags
+   * added by a person are never removed.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   * @apiParam {Number|String} groupIdOrName group name or group id
+   * @apiParam {JSON} retentionPolicy The policy, or null to keep everything.
+   * Each rule is a number of days, or null to turn the rule off:
+   * <ul>
+   * <li>dropRawAfterProcessingDays: delete the raw file of processed thermal recordings this many days after processing</li>
+   * <li>deleteWithoutTracksAfterDays: delete processed thermal recordings with no tracks this many days after they were made</li>
+   * </ul>
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiUse V1ResponseError
+   */
+  app.patch(
+    `${apiUrl}/retention/groups/:groupIdOrName`,
+    [
+      auth.authenticateAdmin,
+      middleware.getGroupByNameOrIdDynamic(param, "groupIdOrName"),
+      body("retentionPolicy").exists().custom(isRetentionPolicy)
+    ],
+    middleware.requestWrapper(async (request, response) => {
+      const group: Group = request.body.group;
+      group.retentionPolicy = request.body.retentionPolicy;
+      await group.save();
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Group retention policy updated."]
+      });
+    })
+  );
+
+  /**
+   * @api {get} /api/v1/admin/retention/groups/:groupIdOrName/report Report on a group's retention policy
+   * @apiName GetGroupRetentionReport
+   * @apiGroup Admin
+   * @apiDescription Reports what applying a group's retention policy would
+   * remove now, without removing anything.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   * @apiParam {Number|String} groupIdOrName group name or group id
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiSuccess {JSON} retentionPolicy The group's policy.
+   * @apiSuccess {JSON} report The number of recordings, and bytes of raw files, each rule would remove.
+   * @apiUse V1ResponseError
+   */
+  app.get(
+    `${apiUrl}/retention/groups/:groupIdOrName/report`,
+    [
+      auth.authenticateAdmin,
+      middleware.getGroupByNameOrIdDynamic(param, "groupIdOrName")
+    ],
+    middleware.requestWrapper(async (request, response) => {
+      const group: Group = request.body.group;
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Got retention report."],
+        retentionPolicy: group.retentionPolicy,
+        report: await retentionUtil.reportRetention(group)
+      });
+    })
+  );
+
+  /**
+   * @apiDefine StorageAuditJob
+   * @apiSuccess {Boolean} markMissing Whether the audit sets fileMissing.
+   * @apiSuccess {String} startedAt When the audit started.
+   * @apiSuccess {String} finishedAt When the audit finished, null while it is running.
+   * @apiSuccess {String} error Why the audit failed, if it did.
+   * @apiSuccess {JSON} audit The audit's results once it has finished:
+   * <ul>
+   * <li>objects: Number and total bytes of objects in the store.
+   * <li>danglingRecordings: Recordings with missing objects and which keys are missing.
+   * <li>danglingArtifacts: Recording artifacts with missing objects.
+   * <li>danglingFiles: Files with missing objects.
+   * <li>orphanedObjects: Number and bytes of objects nothing refers to, and up to 1000 of their keys.
+   * <li>groups: Bytes used by each group and its devices.
+   * <li>files: Number and bytes of files not belonging to a group.
+   * <li>markedMissing: Recordings fileMissing was set on.
+   * <li>unmarkedMissing: Recordings fileMissing was cleared from.
+   * </ul>
+   */
+
+  /**
+   * @api {post} /api/v1/admin/storage/audit Start auditing the object store
+   * @apiName AuditStorage
+   * @apiGroup Admin
+   * @apiDescription Starts comparing the object store with the database in
+   * the background. The audit reports recordings and files whose objects are
+   * missing, objects that nothing refers to and the bytes used by each group
+   * and device. It reads every object key so can take a long time on a large
+   * store; poll [GET /api/v1/admin/storage/audit](#api-Admin-GetStorageAudit)
+   * for the results. If an audit is already running it is returned instead of
+   * starting another. audit-storage does the same from the command line.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   * @apiParam {Boolean} [markMissing] Set fileMissing on recordings with
+   * missing files, and clear it from those without.
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiUse StorageAuditJob
+   * @apiUse V1ResponseError
+   */
+  app.post(
+    `${apiUrl}/storage/audit`,
+    [auth.authenticateAdmin, body("markMissing").optional().isBoolean()],
+    middleware.requestWrapper(async (request, response) => {
+      const job = storageAuditUtil.startAudit({
+        markMissing: String(request.body.markMissing) == "true"
+      });
+      responseUtil.send(response, {
+        statusCode: 202,
+        messages: ["Storage audit started."],
+        ...job
+      });
+    })
+  );
+
+  /**
+   * @api {get} /api/v1/admin/storage/audit Get the latest object store audit
+   * @apiName GetStorageAudit
+   * @apiGroup Admin
+   * @apiDescription Returns the running or most recently finished audit
+   * started by [POST /api/v1/admin/storage/audit](#api-Admin-AuditStorage).
+   *
+   * @apiUse V1UserAuthorizationHeader
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiUse StorageAuditJob
+   * @apiUse V1ResponseError
+   */
+  app.get(
+    `${apiUrl}/storage/audit`,
+    [auth.authenticateAdmin],
+    middleware.requestWrapper(async (request, response) => {
+      const job = storageAuditUtil.getAudit();
+      if (!job) {
+        throw new ClientError("No storage audit has been started.", 404);
+      }
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Got storage audit."],
+        ...job
+      });
+    })
+  );
 }
@@ -140,7 +140,7 @@ export default function (app: Application, baseUrl: string) {
    *
    * @apiUse V1UserAuthorizationHeader
    *
-   * @apiHeader {String} [where] [Sequelize where conditions](http://docs.sequelizejs.com/manual/tutorial/querying.html#where) for query
+   * @apiHeader {String} [where] Filter selecting the recordings to return, as for the `where` parameter of [QueryRecordings](#api-Recordings-QueryRecordings).
    * @apiHeader {Number} [offset] Query result offset (for paging).
    * @apiHeader {Number} [limit] Query result limit (for paging).
    *
@@ -156,7 +156,7 @@ export default function (app: Application, baseUrl: string) {
     apiUrl,
     [
       auth.authenticateUser,
-      middleware.parseJSON("where", header).optional(),
+      middleware.parseRecordingFilter("where", header).optional(),
       header("offset").isInt().optional(),
       header("limit").isInt().optional()
     ],
@@ -87,6 +87,8 @@ export default function (app: Application, baseUrl: string) {
    * @apiGroup Device
    * @apiParam onlyActive {Boolean} Only return active devices, defaults to 'true'
    * If we want to return *all* devices this must be present and set to 'false'
+   * @apiUse Area
+   * A device is located where its most recent recording with a location was made.
    *
    * @apiDescription Returns all devices the user can access
    * through both group membership and direct assignment.
@@ -105,10 +107,15 @@ export default function (app: Application, baseUrl: string) {
     [
         auth.authenticateUser,
         param("onlyActive").optional().isBoolean().toBoolean(),
+        middleware.parseArea("area", query).optional()
     ],
     middleware.requestWrapper(async (request, response) => {
       const onlyActiveDevices = request.param.onlyActive !== false;
-      const devices = await models.Device.allForUser(request.user, onlyActiveDevices);
+      const devices = await models.Device.allForUser(
+        request.user,
+        onlyActiveDevices,
+        request.query.area
+      );
       return responseUtil.send(response, {
         devices: devices,
         statusCode: 200,
@@ -134,7 +134,7 @@ export default (app: Application, baseUrl: string) => {
         statusCode: 200,
         messages: [],
         file: file,
-        fileSize: await util.getS3ObjectFileSize(file.fileKey),
+        fileSize: await util.getObjectFileSize(file.fileKey),
         jwt: jsonwebtoken.sign(downloadFileData, config.server.passportSecret, {
           expiresIn: 60 * 10
         })
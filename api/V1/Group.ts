@@ -23,7 +23,10 @@ import responseUtil from "./responseUtil";
 import { body, param, query } from "express-validator/check";
 import { Application } from "express";
 import { Validator } from "jsonschema";
+import Sequelize, { Op } from "sequelize";
 import logger from "../../logging";
+import { areaSql, locationSql } from "../../models/util/area";
+import { getRegroupJob, startRegroupingGroupVisits } from "./Visits";
 
 const JsonSchema = new Validator();
 
@@ -52,6 +55,34 @@ const validateStationsJson = (val, { req }) => {
   return true;
 };
 
+const visitRulesSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    eventGapSeconds: { type: "integer", minimum: 1, maximum: 86400 },
+    audioBaitSeconds: { type: "integer", minimum: 0, maximum: 86400 },
+    ignoreTags: { type: "array", items: { type: "string" } },
+    species: {
+      type: "object",
+      additionalProperties: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          eventGapSeconds: { type: "integer", minimum: 1, maximum: 86400 },
+          audioBaitSeconds: { type: "integer", minimum: 0, maximum: 86400 }
+        }
+      }
+    }
+  }
+};
+
+const validateVisitRules = (val) => {
+  if (val !== null) {
+    JsonSchema.validate(val, visitRulesSchema, { throwFirst: true });
+  }
+  return true;
+};
+
 export default function (app: Application, baseUrl: string) {
   const apiUrl = `${baseUrl}/groups`;
 
@@ -315,6 +346,7 @@ export default function (app: Application, baseUrl: string) {
    * @apiUse V1UserAuthorizationHeader
    *
    * @apiParam {Number|String} group name or group id
+   * @apiUse Area
    *
    * @apiUse V1ResponseSuccess
    * @apiUse V1ResponseError
@@ -324,10 +356,20 @@ export default function (app: Application, baseUrl: string) {
     [
       auth.authenticateUser,
       middleware.getGroupByNameOrIdDynamic(param, "groupIdOrName"),
-      auth.userHasReadAccessToGroup
+      auth.userHasReadAccessToGroup,
+      middleware.parseArea("area", query).optional()
     ],
     middleware.requestWrapper(async (request, response) => {
-        const stations = await request.body.group.getStations();
+        const where = request.query.area
+          ? {
+              [Op.and]: [
+                Sequelize.literal(
+                  areaSql(request.query.area, locationSql('"Station"."location"'))
+                )
+              ]
+            }
+          : undefined;
+        const stations = await request.body.group.getStations({ where });
         return responseUtil.send(response, {
           statusCode: 200,
           messages: ["Got stations for group"],
@@ -335,4 +377,100 @@ export default function (app: Application, baseUrl: string) {
         });
     })
   );
+
+  /**
+   * @apiDefine VisitRegroupJob
+   * @apiSuccess {JSON} regrouping The regrouping of the group's recent visits after its rules last
+   * changed, null if they haven't changed since the server started:
+   * <ul>
+   * <li>from: Visits from this time on are regrouped.
+   * <li>startedAt: When the regrouping started.
+   * <li>finishedAt: When it finished, null while it is running.
+   * <li>error: Why it failed, if it did.
+   * </ul>
+   */
+
+  /**
+   * @api {get} /api/v1/groups/{groupIdOrName}/visit-rules Get the rules for grouping a group's visits
+   * @apiName GetGroupVisitRules
+   * @apiGroup Group
+   * @apiDescription A group member or an admin member with globalRead permissions can view the rules
+   * used to group the tracks of the group's devices into visits.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   *
+   * @apiParam {Number|String} group name or group id
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiSuccess {JSON} visitRules The group's rules, null if it uses the defaults.
+   * @apiUse VisitRegroupJob
+   * @apiUse V1ResponseError
+   */
+  app.get(
+    `${apiUrl}/:groupIdOrName/visit-rules`,
+    [
+      auth.authenticateUser,
+      middleware.getGroupByNameOrIdDynamic(param, "groupIdOrName"),
+      auth.userHasReadAccessToGroup
+    ],
+    middleware.requestWrapper(async (request, response) => {
+      return responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Got visit rules for group."],
+        visitRules: request.body.group.visitRules,
+        regrouping: getRegroupJob(request.body.group.id)
+      });
+    })
+  );
+
+  /**
+   * @api {patch} /api/v1/groups/{groupIdOrName}/visit-rules Set the rules for grouping a group's visits
+   * @apiName SetGroupVisitRules
+   * @apiGroup Group
+   * @apiDescription A group admin or an admin with globalWrite permissions can set how the tracks of
+   * the group's devices are grouped into visits. The defaults are a gap of 600 seconds between
+   * events and audio bait played up to 600 seconds before a visit. Species overrides apply to
+   * visits tagged as that species, and each visit reports the rules it was grouped with.
+   *
+   * Visits from the last 30 days are regrouped with the new rules in the background, which for a
+   * large group can take a while; its progress is reported by
+   * [Get visit rules](#api-Group-GetGroupVisitRules). Older visits keep the rules they were
+   * grouped with until backfill-visits regroups them.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   *
+   * @apiParam {Number|String} group name or group id
+   * @apiParam {JSON} visitRules The rules, or null for the defaults, e.g.
+   * <pre>
+   * {
+   *   "eventGapSeconds": 300,
+   *   "audioBaitSeconds": 600,
+   *   "ignoreTags": ["false-positive"],
+   *   "species": {"cat": {"eventGapSeconds": 1800}}
+   * }
+   * </pre>
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiUse VisitRegroupJob
+   * @apiUse V1ResponseError
+   */
+  app.patch(
+    `${apiUrl}/:groupIdOrName/visit-rules`,
+    [
+      auth.authenticateUser,
+      middleware.getGroupByNameOrIdDynamic(param, "groupIdOrName"),
+      auth.userHasWriteAccessToGroup,
+      body("visitRules").exists().custom(validateVisitRules)
+    ],
+    middleware.requestWrapper(async (request, response) => {
+      const group = request.body.group;
+      group.visitRules = request.body.visitRules;
+      await group.save();
+      return responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Group visit rules updated."],
+        regrouping: startRegroupingGroupVisits(group.id)
+      });
+    })
+  );
 }
@@ -19,16 +19,20 @@ along with this program.  If not, see <http://www.gnu.org/licenses/>.
 import e, { Application } from "express";
 import middleware from "../middleware";
 import auth from "../auth";
-import recordingUtil, { RecordingQuery } from "./recordingUtil";
+import recordingUtil, { Facet, FACETS, RecordingQuery } from "./recordingUtil";
 import responseUtil from "./responseUtil";
+import exportUtil, { EXPORT_FORMATS } from "./exportUtil";
+import { TAG_PRECEDENCES, updateVisits } from "./Visits";
 import models from "../../models";
+import { validateText } from "../../models/util/textSearch";
 // @ts-ignore
 import * as csv from "fast-csv";
 import { body, oneOf, param, query } from "express-validator/check";
 import { RecordingPermission, TagMode } from "../../models/Recording";
+import { VISIT_GROUPINGS } from "../../models/Visit";
 import { TrackTag } from "../../models/TrackTag";
 import { Track } from "../../models/Track";
-import { Op } from "sequelize";
+import { MAX_UPLOAD_CHUNKS } from "../../models/UploadSession";
 import jwt from "jsonwebtoken";
 import config from "../../config";
 
@@ -96,6 +100,10 @@ export default (app: Application, baseUrl: string) => {
    * @apiDescription Uploads a device's own raw thermal video to the server.  It currently
    * supports raw thermal video but will eventually support all recording types.
    *
+   * If the device or its group has reached one of its upload quotas the upload
+   * is refused with status 429 and a Retry-After header giving the number of
+   * seconds until the quota resets.
+   *
    * @apiUse V1DeviceAuthorizationHeader
    *
    * @apiUse RecordingParams
@@ -172,8 +180,196 @@ export default (app: Application, baseUrl: string) => {
     middleware.requestWrapper(recordingUtil.makeUploadHandler())
   );
 
+  /**
+   * @api {post} /api/v1/recordings/uploads Start a resumable upload
+   * @apiName PostUploadSession
+   * @apiGroup Recordings
+   * @apiDescription Starts a resumable upload of a device's own recording.
+   * The recording file is then sent in numbered chunks
+   * (see [Upload a chunk](#api-Recordings-PutUploadChunk)) and the upload
+   * completed with [Finalise upload](#api-Recordings-PostFinaliseUpload).
+   * Upload sessions expire 24 hours after the last chunk is received.
+   *
+   * @apiUse V1DeviceAuthorizationHeader
+   *
+   * @apiParam {JSON} data Metadata about the recording, as for
+   * [Add a new recording](#api-Recordings-PostRecording).
+   * @apiParam {String} [filename] Name of the file being uploaded.
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiSuccess {Number} uploadId ID of the upload session.
+   * @apiSuccess {String} expiresAt When the upload session expires.
+   * @apiuse V1ResponseError
+   */
+  app.post(
+    `${apiUrl}/uploads`,
+    [
+      auth.authenticateDevice,
+      middleware.parseJSON("data", body),
+      body("filename").optional().isString()
+    ],
+    middleware.requestWrapper(async (request, response) => {
+      const session = await recordingUtil.createUploadSession(request);
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Upload session started."],
+        uploadId: session.id,
+        expiresAt: session.expiresAt
+      });
+    })
+  );
+
+  /**
+   * @api {post} /api/v1/recordings/device/:deviceID/uploads Start a resumable upload on behalf of device
+   * @apiName PostUploadSessionOnBehalf
+   * @apiGroup Recordings
+   * @apiDescription Called by a user to start a resumable upload on behalf of
+   * a device. The user must have permission to view videos from the device.
+   *
+   * @apiParam {String} deviceID ID of the device to upload on behalf of.
+   * @apiUse V1UserAuthorizationHeader
+   *
+   * @apiParam {JSON} data Metadata about the recording, as for
+   * [Add a new recording](#api-Recordings-PostRecording).
+   * @apiParam {String} [filename] Name of the file being uploaded.
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiSuccess {Number} uploadId ID of the upload session.
+   * @apiSuccess {String} expiresAt When the upload session expires.
+   * @apiuse V1ResponseError
+   */
+  app.post(
+    `${apiUrl}/device/:deviceID/uploads`,
+    [
+      auth.authenticateUser,
+      middleware.getDevice(param, "deviceID"),
+      auth.userCanAccessDevices,
+      middleware.parseJSON("data", body),
+      body("filename").optional().isString()
+    ],
+    middleware.requestWrapper(async (request, response) => {
+      const session = await recordingUtil.createUploadSession(request);
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Upload session started."],
+        uploadId: session.id,
+        expiresAt: session.expiresAt
+      });
+    })
+  );
+
+  /**
+   * @api {get} /api/v1/recordings/uploads/:uploadId Get the state of a resumable upload
+   * @apiName GetUploadSession
+   * @apiGroup Recordings
+   * @apiDescription Lists the chunks the server already holds for an upload
+   * session so that an interrupted upload can resume from where it stopped.
+   *
+   * @apiUse V1DeviceAuthorizationHeader
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiSuccess {Number[]} chunks Numbers of the chunks received so far.
+   * @apiSuccess {Number} bytes Total size of the chunks received so far.
+   * @apiSuccess {String} expiresAt When the upload session expires.
+   * @apiSuccess {Number} recordingId ID of the recording, once the upload
+   * has been finalised.
+   * @apiuse V1ResponseError
+   */
+  app.get(
+    `${apiUrl}/uploads/:uploadId`,
+    [auth.authenticateAny, middleware.getUploadSessionById(param)],
+    middleware.requestWrapper(async (request, response) => {
+      const session = recordingUtil.getUploadSession(request);
+      const sizes: number[] = Object.values(session.chunks);
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: [],
+        chunks: session.receivedChunkNumbers(),
+        bytes: sizes.reduce((total, size) => total + size, 0),
+        expiresAt: session.expiresAt,
+        recordingId: session.RecordingId
+      });
+    })
+  );
+
+  /**
+   * @api {put} /api/v1/recordings/uploads/:uploadId/chunks/:chunkNumber Upload a chunk
+   * @apiName PutUploadChunk
+   * @apiGroup Recordings
+   * @apiDescription Uploads one chunk of the recording file as the raw request
+   * body. Chunks are numbered from 0 and may be sent in any order. Sending a
+   * chunk again replaces the copy the server holds. An upload can have at
+   * most 256 chunks of up to 16MB each; a larger chunk is refused with a 413.
+   * Chunks are refused with a 409 once the upload has been finalised or while
+   * it is being finalised.
+   *
+   * @apiUse V1DeviceAuthorizationHeader
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiuse V1ResponseError
+   */
+  app.put(
+    `${apiUrl}/uploads/:uploadId/chunks/:chunkNumber`,
+    [
+      auth.authenticateAny,
+      middleware.getUploadSessionById(param),
+      param("chunkNumber")
+        .isInt({ min: 0, max: MAX_UPLOAD_CHUNKS - 1 })
+        .toInt()
+    ],
+    middleware.requestWrapper(async (request, response) => {
+      const session = recordingUtil.getUploadSession(request);
+      await recordingUtil.uploadChunk(
+        session,
+        request.params.chunkNumber,
+        request
+      );
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Chunk received."]
+      });
+    })
+  );
+
+  /**
+   * @api {post} /api/v1/recordings/uploads/:uploadId/finalise Finalise a resumable upload
+   * @apiName PostFinaliseUpload
+   * @apiGroup Recordings
+   * @apiDescription Joins the uploaded chunks into the recording file and
+   * creates the recording. Finalising an upload more than once returns the
+   * same recording. The upload is refused with a 429 if the device or its
+   * group has reached one of its upload quotas since the upload started.
+   * An upload that is still being finalised by another request is refused
+   * with a 409.
+   *
+   * @apiUse V1DeviceAuthorizationHeader
+   *
+   * @apiParam {Number} chunks Total number of chunks in the upload, at most
+   * 256.
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiSuccess {Number} recordingId ID of the recording.
+   * @apiuse V1ResponseError
+   */
+  app.post(
+    `${apiUrl}/uploads/:uploadId/finalise`,
+    [
+      auth.authenticateAny,
+      middleware.getUploadSessionById(param),
+      body("chunks").isInt({ min: 1, max: MAX_UPLOAD_CHUNKS }).toInt()
+    ],
+    middleware.requestWrapper(async (request, response) => {
+      const session = recordingUtil.getUploadSession(request);
+      const recordingId = await recordingUtil.finaliseUploadSession(
+        session,
+        request.body.chunks
+      );
+      responseUtil.validRecordingUpload(response, recordingId);
+    })
+  );
+
   const queryValidators = Object.freeze([
-    middleware.parseJSON("where", query).optional(),
+    middleware.parseRecordingFilter("where", query).optional(),
     query("offset").isInt().toInt().optional(),
     query("limit").isInt().toInt().optional(),
     middleware.parseJSON("order", query).optional(),
@@ -183,7 +379,20 @@ export default (app: Application, baseUrl: string) => {
       .custom((value) => {
         return models.Recording.isValidTagMode(value);
       }),
-    middleware.parseJSON("filterOptions", query).optional()
+    middleware.parseJSON("filterOptions", query).optional(),
+    middleware.parseArea("area", query).optional(),
+    middleware.parseTrackFilter("trackWhere", query).optional(),
+    query("text").optional().custom(validateText),
+    query("cursor")
+      .optional()
+      .custom((value, { req }) => {
+        if (req.query.offset || req.query.order || req.query.text) {
+          throw new Error(
+            "A cursor can't be used with 'offset', 'order' or 'text'."
+          );
+        }
+        return models.Recording.queryBuilder.decodeCursor(value) !== null;
+      })
   ]);
 
   /**
@@ -217,21 +426,55 @@ export default (app: Application, baseUrl: string) => {
   );
 
   /**
-   * @api {get} /api/v1/recordings/visits Query available recordings and generate visits
+   * @api {get} /api/v1/recordings/visits Query visits to available recordings
    * @apiName QueryVisits
    * @apiGroup Recordings
+   * @apiDescription Visits group the tracks a device, or the devices at a
+   * station, see close together in time, and are updated as recordings are
+   * uploaded and tagged. Returns the visits, most recent first, that include
+   * a recording matching the query.
    *
    * @apiUse V1UserAuthorizationHeader
-   * @apiUse BaseQueryParams
-   * @apiUse RecordingOrder
+   * @apiUse RecordingQueryParams
+   * @apiUse RecordingCursor
+   * @apiUse Area
+   * @apiUse TrackFilter
+   * @apiUse TextSearch
+   * @apiUse VisitTagPrecedence
+   * @apiUse VisitGrouping
    * @apiUse MoreQueryParams
    * @apiUse FilterOptions
-   * @apiUse V1ResponseSuccessQuery
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiSuccess {Number} offset Mirrors request offset parameter.
+   * @apiSuccess {Number} limit Mirrors request limit parameter.
+   * @apiSuccess {Number} numVisits Number of visits returned.
+   * @apiSuccess {Number} numRecordings Number of recordings in the visits returned.
+   * @apiSuccess {Boolean} hasMoreVisits Whether there are more visits after these.
+   * @apiSuccess {String} nextCursor Cursor for the next page of visits, null if there are no more.
+   * @apiSuccess {JSON[]} visits The visits, each with a stable id, what the visit is assumed
+   * to be, its start and end, what it was grouped by, the device (null for station visits) and
+   * station, its events, any audio bait played and the grouping rules it was made with (see
+   * SetGroupVisitRules). Each event gives the device that saw it. Each visit's `votes` gives the
+   * weight of the votes for each tag, its `confidence` the percentage of its tracks' votes for
+   * what it is, and `conflictingHumanTags` whether people have tagged it as different things.
+   * @apiSuccess {JSON} summary The number of device visits to each device by each animal.
+   * @apiSuccess {JSON} stationSummary The number of visits to each station by each animal. Device
+   * visits made away from any station, or at more than one, are left out.
    * @apiUse V1ResponseError
    */
   app.get(
     apiUrl + "/visits",
-    [auth.authenticateUser, ...queryValidators],
+    [
+      auth.authenticateUser,
+      ...queryValidators,
+      query("tagPrecedence")
+        .optional()
+        .isIn([...TAG_PRECEDENCES]),
+      query("groupBy")
+        .optional()
+        .isIn([...VISIT_GROUPINGS])
+    ],
     middleware.requestWrapper(
       async (request: e.Request, response: e.Response) => {
         const result = await recordingUtil.queryVisits(
@@ -244,27 +487,99 @@ export default (app: Application, baseUrl: string) => {
           offset: request.query.offset,
           numRecordings: result.numRecordings,
           numVisits: result.numVisits,
-          queryOffset: result.queryOffset,
-          totalRecordings: result.totalRecordings,
           hasMoreVisits: result.hasMoreVisits,
+          nextCursor: result.nextCursor,
           visits: result.visits,
-          summary: result.summary.generateAnimalSummary()
+          summary: result.summary.generateAnimalSummary(),
+          stationSummary: result.stationSummary.generateAnimalSummary()
         });
       }
     )
   );
 
+  /**
+   * @api {post} /api/v1/recordings/visits/tags Tag every track of a visit
+   * @apiName TagVisit
+   * @apiGroup Tracks
+   * @apiDescription Tags every track of a device's visit, as with the
+   * replaceTag endpoint: tracks the user has already tagged as this are left
+   * alone, additional tags such as "part" are added alongside the user's
+   * animal tags, and other tags replace them. The visit is the one during
+   * the time span given, usually its start and end.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   *
+   * @apiParam {Number} deviceId Id of the device the visit is to.
+   * @apiParam {String} start ISO8601 start of the time span.
+   * @apiParam {String} end ISO8601 end of the time span.
+   * @apiParam {String} what Object/event to tag.
+   * @apiParam {Number} confidence Tag confidence score.
+   * @apiParam {JSON} [data] Additional tag data.
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiSuccess {Number} visitId Id of the visit tagged.
+   * @apiSuccess {JSON[]} changes For each track of the visit, its recordingId and trackId, the
+   * trackTagId of the tag added, or null if it was already tagged as this, and `replaced`, what the
+   * user's tags it replaced were.
+   *
+   * @apiUse V1ResponseError
+   */
+  app.post(
+    `${apiUrl}/visits/tags`,
+    [
+      auth.authenticateUser,
+      body("deviceId").isInt().toInt(),
+      body("start").isISO8601().toDate(),
+      body("end")
+        .isISO8601()
+        .toDate()
+        .custom((value, { req }) => {
+          if (new Date(value) < new Date(req.body.start)) {
+            throw new Error("'end' can't be before 'start'.");
+          }
+          return true;
+        }),
+      body("what").isString().isLength({ min: 1 }),
+      body("confidence").isFloat().toFloat(),
+      middleware.parseJSON("data", body).optional()
+    ],
+    middleware.requestWrapper(async (request, response) => {
+      const { visitId, changes } = await recordingUtil.tagVisit(
+        request.user,
+        request.body.deviceId,
+        request.body.start,
+        request.body.end,
+        {
+          what: request.body.what,
+          confidence: request.body.confidence,
+          data: request.body.data
+        }
+      );
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Visit tagged."],
+        visitId,
+        changes
+      });
+    })
+  );
+
   /**
    * @api {get} /api/v1/recordings Query available recordings
    * @apiName QueryRecordings
    * @apiGroup Recordings
    *
    * @apiUse V1UserAuthorizationHeader
-   * @apiUse BaseQueryParams
+   * @apiUse RecordingQueryParams
+   * @apiUse RecordingCursor
+   * @apiUse Area
+   * @apiUse TrackFilter
+   * @apiUse TextSearch
    * @apiUse RecordingOrder
    * @apiUse MoreQueryParams
    * @apiUse FilterOptions
    * @apiUse V1ResponseSuccessQuery
+   * @apiSuccess {String} nextCursor Cursor for the next page of recordings, null if there are no more.
    * @apiUse V1ResponseError
    */
   app.get(
@@ -281,7 +596,8 @@ export default (app: Application, baseUrl: string) => {
           limit: request.query.limit,
           offset: request.query.offset,
           count: result.count,
-          rows: result.rows
+          rows: result.rows,
+          nextCursor: result.nextCursor
         });
       }
     )
@@ -291,50 +607,104 @@ export default (app: Application, baseUrl: string) => {
    * @api {get} /api/v1/recordings/count Query available recording count
    * @apiName QueryRecordingsCount
    * @apiGroup Recordings
+   * @apiDescription Counts the recordings that
+   * [QueryRecordings](#api-Recordings-QueryRecordings) would return for the
+   * same parameters, ignoring `offset` and `limit`.
    *
    * @apiUse V1UserAuthorizationHeader
-   * @apiUse BaseQueryParams
+   * @apiUse RecordingQueryParams
    * @apiUse MoreQueryParams
-   * @apiUse FilterOptions
-   * @apiUse V1ResponseSuccessQuery
+   * @apiUse Area
+   * @apiUse TrackFilter
+   * @apiUse TextSearch
+   * @apiParam {Boolean} [approximate] Estimate counts of more than 10,000 recordings
+   * rather than counting them, which is much faster for large counts.
+   * @apiUse V1ResponseSuccess
+   * @apiSuccess {Number} count Number of matching recordings.
+   * @apiSuccess {Boolean} approximate Whether the count is an estimate.
    * @apiUse V1ResponseError
    */
   app.get(
     `${apiUrl}/count`,
-    [auth.authenticateUser, ...queryValidators],
+    [
+      auth.authenticateUser,
+      ...queryValidators,
+      query("approximate").optional().isBoolean().toBoolean()
+    ],
     middleware.requestWrapper(
-      async (request: RecordingQuery, response: e.Response) => {
-        const user = request.user;
-        const countQuery = {
-          where: {
-            [Op.and]: [
-              request.query.where // User query
-            ]
-          },
-          include: [
-            {
-              model: models.Group,
-              include: [
-                {
-                  model: models.User,
-                  where: {
-                    [Op.and]: [{ id: user.id }]
-                  }
-                }
-              ],
-              required: true
-            }
-          ]
-        };
-        if (user.hasGlobalRead()) {
-          // Dont' filter on user if the user has global read permissons.
-          delete countQuery.include[0].include;
+      async (request: e.Request, response: e.Response) => {
+        const { count, approximate } = await recordingUtil.queryCount(
+          (request as unknown) as RecordingQuery,
+          request.query.approximate
+        );
+        responseUtil.send(response, {
+          statusCode: 200,
+          messages: ["Completed query."],
+          count,
+          approximate
+        });
+      }
+    )
+  );
+
+  /**
+   * @api {get} /api/v1/recordings/facets Count recordings by facet
+   * @apiName QueryRecordingFacets
+   * @apiGroup Recordings
+   * @apiDescription Counts the recordings that
+   * [QueryRecordings](#api-Recordings-QueryRecordings) would return for the
+   * same parameters, ignoring `offset` and `limit`, in buckets for each of the
+   * requested facets.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   * @apiUse RecordingQueryParams
+   * @apiUse MoreQueryParams
+   * @apiUse Area
+   * @apiUse TrackFilter
+   * @apiUse TextSearch
+   * @apiParam {JSON} facets List of the facets to count by, any of:
+   * * `what`: what the recordings' tracks are tagged as.
+   * * `tagger`: whether the recordings' tracks are tagged by a person (`human`),
+   * automatically (`automatic`), or not at all (`untagged`).
+   * * `DeviceId`, `StationId` and `type` of the recordings.
+   * * `hour` (0 to 23), `weekday` (1 is Monday to 7 is Sunday) and `month` (YYYY-MM) of the recordings in
+   * the server's configured time zone.
+   * @apiUse V1ResponseSuccess
+   * @apiSuccess {JSON} facets For each requested facet a list of buckets, each with a `value` and the `count`
+   * of recordings with it. Recordings without a value are counted in a bucket with a null value. A recording
+   * can be in more than one `what` and `tagger` bucket.
+   * @apiUse V1ResponseError
+   */
+  app.get(
+    `${apiUrl}/facets`,
+    [
+      auth.authenticateUser,
+      ...queryValidators,
+      middleware.parseArray("facets", query).custom((value, { req }) => {
+        const facets = req.query.facets;
+        if (facets.length == 0) {
+          throw new Error("At least one facet is needed.");
+        }
+        for (const facet of facets) {
+          if (!FACETS.includes(facet)) {
+            throw new Error(
+              `Unknown facet '${facet}', expected one of: ${FACETS.join(", ")}.`
+            );
+          }
         }
-        const count = await models.Recording.count(countQuery);
+        return true;
+      })
+    ],
+    middleware.requestWrapper(
+      async (request: e.Request, response: e.Response) => {
+        const facets = await recordingUtil.queryFacets(
+          (request as unknown) as RecordingQuery,
+          [...new Set(request.query.facets as Facet[])]
+        );
         responseUtil.send(response, {
           statusCode: 200,
           messages: ["Completed query."],
-          count
+          facets
         });
       }
     )
@@ -389,12 +759,19 @@ export default (app: Application, baseUrl: string) => {
    * @apiGroup Recordings
    * @apiDescription Parameters are as per GET /api/V1/recordings. On
    * success (status 200), the response body will contain CSV
-   * formatted details of the selected recordings.
+   * formatted details of the selected recordings. If there are more
+   * recordings, the cursor for them is given in the Next-Cursor header.
    *
    * @apiUse V1UserAuthorizationHeader
    * @apiParam {String} [jwt] Signed JWT as produced by the [Token](#api-Authentication-Token) endpoint
    * @apiParam {string} [type] Optional type of report either recordings or visits. Recordings is default.
-   * @apiUse BaseQueryParams
+   * @apiUse VisitTagPrecedence
+   * @apiUse VisitGrouping
+   * @apiUse RecordingQueryParams
+   * @apiUse RecordingCursor
+   * @apiUse Area
+   * @apiUse TrackFilter
+   * @apiUse TextSearch
    * @apiUse RecordingOrder
    * @apiUse MoreQueryParams
    * @apiUse FilterOptions
@@ -405,21 +782,110 @@ export default (app: Application, baseUrl: string) => {
     [
       auth.paramOrHeader,
       query("type").isString().optional().isIn(["recordings", "visits"]),
+      query("tagPrecedence")
+        .optional()
+        .isIn([...TAG_PRECEDENCES]),
+      query("groupBy")
+        .optional()
+        .isIn([...VISIT_GROUPINGS]),
       ...queryValidators
     ],
     middleware.requestWrapper(async (request, response) => {
       // 10 minute timeout because the query can take a while to run
       // when the result set is large.
       request.setTimeout(10 * 60 * 1000);
-      const rows = await recordingUtil.report(request);
+      const { rows, nextCursor } = await recordingUtil.report(request);
       response.status(200).set({
         "Content-Type": "text/csv",
         "Content-Disposition": "attachment; filename=recordings.csv"
       });
+      if (nextCursor) {
+        response.set("Next-Cursor", nextCursor);
+      }
       csv.writeToStream(response, rows);
     })
   );
 
+  /**
+   * @api {get} /api/v1/recordings/export Export recordings for biodiversity portals
+   * @apiName ExportRecordings
+   * @apiGroup Recordings
+   * @apiDescription Exports the recordings matching the query, with the
+   * tags people have given their tracks, in one of these formats:
+   * * `camtrap-dp` (the default): a tar archive holding a
+   * [Camtrap DP](https://tdwg.github.io/camtrap-dp/) package. Each device,
+   * or device at a station, is a deployment, each recording is a media file
+   * and each track tag is an observation.
+   * * `dwc`: a Darwin Core occurrence CSV file with the track tags of animals.
+   *
+   * Locations are given at the same precision as recording queries. If
+   * there are more recordings, the cursor for them is given in the
+   * Next-Cursor header.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   * @apiParam {String} [jwt] Signed JWT as produced by the [Token](#api-Authentication-Token) endpoint
+   * @apiParam {String} [format] `camtrap-dp` or `dwc`.
+   * @apiUse RecordingQueryParams
+   * @apiUse RecordingCursor
+   * @apiUse Area
+   * @apiUse TrackFilter
+   * @apiUse TextSearch
+   * @apiUse RecordingOrder
+   * @apiUse MoreQueryParams
+   * @apiUse FilterOptions
+   * @apiUse V1ResponseError
+   */
+  app.get(
+    `${apiUrl}/export`,
+    [
+      auth.paramOrHeader,
+      query("format")
+        .optional()
+        .isIn([...EXPORT_FORMATS]),
+      ...queryValidators
+    ],
+    middleware.requestWrapper(async (request, response) => {
+      // As for reports, the query can take a while to run.
+      request.setTimeout(10 * 60 * 1000);
+      await exportUtil.exportRecordings(
+        request,
+        response,
+        request.query.format || "camtrap-dp"
+      );
+    })
+  );
+
+  /**
+   * @api {get} /api/v1/recordings/archive Download recordings as a tar archive
+   * @apiName ArchiveRecordings
+   * @apiGroup Recordings
+   * @apiDescription Streams a tar archive of the recordings matching the
+   * query. Each recording's raw file, its processed file (named with a
+   * "-processed" suffix) and a JSON file with the recording's details,
+   * tracks and tags are named after the recording's date, time and id.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   * @apiParam {String} [jwt] Signed JWT as produced by the [Token](#api-Authentication-Token) endpoint
+   * @apiUse RecordingQueryParams
+   * @apiUse RecordingCursor
+   * @apiUse Area
+   * @apiUse TrackFilter
+   * @apiUse TextSearch
+   * @apiUse RecordingOrder
+   * @apiUse MoreQueryParams
+   * @apiUse FilterOptions
+   * @apiUse V1ResponseError
+   */
+  app.get(
+    `${apiUrl}/archive`,
+    [auth.paramOrHeader, ...queryValidators],
+    middleware.requestWrapper(async (request, response) => {
+      // Large archives can take a long time to download.
+      request.setTimeout(60 * 60 * 1000);
+      await recordingUtil.archive(request, response);
+    })
+  );
+
   /**
    * @api {get} /api/v1/recordings/:id Get a recording
    * @apiName GetRecording
@@ -587,6 +1053,7 @@ export default (app: Application, baseUrl: string) => {
         data: request.body.data,
         AlgorithmId: algorithmDetail.id
       });
+      await updateVisits(recording);
       responseUtil.send(response, {
         statusCode: 200,
         messages: ["Track added."],
@@ -662,6 +1129,7 @@ export default (app: Application, baseUrl: string) => {
         return;
       }
       await track.destroy();
+      await updateTrackVisits(track);
       responseUtil.send(response, {
         statusCode: 200,
         messages: ["Track deleted."]
@@ -714,6 +1182,9 @@ export default (app: Application, baseUrl: string) => {
       }) as TrackTag;
 
       await models.Track.replaceTag(request.params.trackId, newTag);
+      await updateTrackVisits(
+        await models.Track.findByPk(request.params.trackId)
+      );
       responseUtil.send(response, {
         statusCode: 200,
         messages: ["Track tag added."],
@@ -776,6 +1247,7 @@ export default (app: Application, baseUrl: string) => {
         request.body.data ? request.body.data : "",
         request.user.id
       );
+      await updateTrackVisits(track);
       responseUtil.send(response, {
         statusCode: 200,
         messages: ["Track tag added."],
@@ -831,6 +1303,7 @@ export default (app: Application, baseUrl: string) => {
       }
 
       await tag.destroy();
+      await updateTrackVisits(track);
 
       responseUtil.send(response, {
         statusCode: 200,
@@ -839,6 +1312,12 @@ export default (app: Application, baseUrl: string) => {
     })
   );
 
+  // The visits a track is part of are grouped again whenever it or its
+  // tags change.
+  async function updateTrackVisits(track: Track) {
+    await updateVisits(await track.getRecording());
+  }
+
   async function loadTrackForTagJWT(request, response): Promise<Track> {
     let jwtDecoded;
     const tagJWT = request.body.tagJWT || request.query.tagJWT;
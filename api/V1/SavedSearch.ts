@@ -0,0 +1,496 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Application, Response } from "express";
+import { body, param, query } from "express-validator/check";
+import { Op } from "sequelize";
+import middleware from "../middleware";
+import auth from "../auth";
+import models from "../../models";
+import responseUtil from "./responseUtil";
+import recordingUtil, { RecordingQuery } from "./recordingUtil";
+import { AuthorizationError, ClientError } from "../customErrors";
+import { Group } from "../../models/Group";
+import { User } from "../../models/User";
+import { validateArea } from "../../models/util/area";
+import { validateText } from "../../models/util/textSearch";
+import {
+  FilterField,
+  RECORDING_FILTER_FIELDS,
+  TRACK_FILTER_FIELDS,
+  translateFilter
+} from "../../models/util/filter";
+import {
+  isSavedQueryField,
+  SavedSearch,
+  SavedSearchAttributes,
+  SAVED_QUERY_FIELDS
+} from "../../models/SavedSearch";
+
+export default function (app: Application, baseUrl: string) {
+  const apiUrl = `${baseUrl}/searches`;
+
+  function isObject(value): boolean {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  function isSavedQuery(value, { req, location, path }) {
+    const savedQuery = req[location][path];
+    if (!isObject(savedQuery)) {
+      throw new Error("A search's query must be an object.");
+    }
+    for (const field of Object.keys(savedQuery)) {
+      if (!isSavedQueryField(field)) {
+        throw new Error(
+          `Unknown query field '${field}', expected one of: ${SAVED_QUERY_FIELDS.join(
+            ", "
+          )}.`
+        );
+      }
+    }
+    if ("where" in savedQuery) {
+      translateFilter(
+        savedQuery.where,
+        RECORDING_FILTER_FIELDS,
+        req.user.hasGlobalRead(),
+        "query.where"
+      );
+    }
+    if ("trackWhere" in savedQuery) {
+      translateFilter(
+        savedQuery.trackWhere,
+        TRACK_FILTER_FIELDS,
+        req.user.hasGlobalRead(),
+        "query.trackWhere"
+      );
+    }
+    if ("filterOptions" in savedQuery && !isObject(savedQuery.filterOptions)) {
+      throw new Error("The query's 'filterOptions' must be an object.");
+    }
+    if (
+      "tagMode" in savedQuery &&
+      !models.Recording.isValidTagMode(savedQuery.tagMode)
+    ) {
+      throw new Error(`Unknown tagMode '${savedQuery.tagMode}'.`);
+    }
+    if (
+      "tags" in savedQuery &&
+      !(
+        Array.isArray(savedQuery.tags) &&
+        savedQuery.tags.every((tag) => typeof tag === "string")
+      )
+    ) {
+      throw new Error("The query's 'tags' must be an array of strings.");
+    }
+    if ("order" in savedQuery && !Array.isArray(savedQuery.order)) {
+      throw new Error("The query's 'order' must be an array.");
+    }
+    if ("area" in savedQuery) {
+      validateArea(savedQuery.area);
+    }
+    if ("text" in savedQuery) {
+      validateText(savedQuery.text);
+    }
+    return true;
+  }
+
+  // Finds the group, given by name or id, that a search is to be shared
+  // with. Only members of a group can share searches with it.
+  async function groupToShareWith(
+    user: User,
+    groupIdOrName: string | number | null
+  ): Promise<Group | null> {
+    if (groupIdOrName == null) {
+      return null;
+    }
+    const group = /^\d+$/.test(groupIdOrName.toString())
+      ? await models.Group.getFromId(Number(groupIdOrName))
+      : await models.Group.getFromName(groupIdOrName.toString());
+    if (!group) {
+      throw new ClientError(`Could not find group ${groupIdOrName}.`, 422);
+    }
+    if (!user.hasGlobalWrite() && !(await user.isInGroup(group.id))) {
+      throw new AuthorizationError(
+        "Searches can only be shared with groups you belong to."
+      );
+    }
+    return group;
+  }
+
+  // The user running a shared search may not be able to see everything
+  // the user who saved it can.
+  function translateFor(
+    user: User,
+    filter: any,
+    fields: Readonly<Record<string, FilterField>>,
+    path: string
+  ) {
+    if (!filter) {
+      return null;
+    }
+    try {
+      return translateFilter(filter, fields, user.hasGlobalRead(), path);
+    } catch (err) {
+      throw new ClientError(err.message, 422);
+    }
+  }
+
+  function requestFor(
+    search: SavedSearch,
+    user: User,
+    extra: Partial<RecordingQuery["query"]> = {}
+  ): RecordingQuery {
+    const { filterOptions, where, trackWhere, ...savedQuery } = search.query;
+    return {
+      user,
+      query: {
+        where: translateFor(
+          user,
+          where,
+          RECORDING_FILTER_FIELDS,
+          "query.where"
+        ),
+        tagMode: null,
+        tags: null,
+        offset: null,
+        limit: null,
+        order: null,
+        cursor: null,
+        area: null,
+        text: null,
+        trackWhere: translateFor(
+          user,
+          trackWhere,
+          TRACK_FILTER_FIELDS,
+          "query.trackWhere"
+        ),
+        distinct: false,
+        ...savedQuery,
+        ...extra
+      },
+      filterOptions: filterOptions || null
+    };
+  }
+
+  // The number of recordings uploaded since the user last ran the search
+  // that match it, or null if they have never run it.
+  async function newMatches(search: SavedSearch, user: User) {
+    const lastRun = search.lastRunBy(user);
+    if (!lastRun) {
+      return null;
+    }
+    const request = requestFor(search, user);
+    request.query.where = {
+      [Op.and]: [request.query.where || {}, { createdAt: { [Op.gt]: lastRun } }]
+    };
+    return (await recordingUtil.queryCount(request)).count;
+  }
+
+  async function searchDetails(
+    search: SavedSearch,
+    user: User,
+    countNew: boolean
+  ) {
+    const { lastRuns, ...attributes } = search.get({
+      plain: true
+    }) as SavedSearchAttributes;
+    const details: Omit<SavedSearchAttributes, "lastRuns"> & {
+      lastRunAt: Date | null;
+      newMatches?: number | null;
+    } = { ...attributes, lastRunAt: search.lastRunBy(user) };
+    if (countNew) {
+      details.newMatches = await newMatches(search, user);
+    }
+    return details;
+  }
+
+  async function checkCanView(search: SavedSearch, user: User) {
+    if (!(await search.userCanView(user))) {
+      throw new AuthorizationError("User can't access this search.");
+    }
+  }
+
+  function checkCanEdit(search: SavedSearch, user: User) {
+    if (!search.userCanEdit(user)) {
+      throw new AuthorizationError(
+        "Only the user who saved a search can change it."
+      );
+    }
+  }
+
+  /**
+   * @api {post} /api/v1/searches Save a recordings search
+   * @apiName PostSavedSearch
+   * @apiGroup SavedSearches
+   * @apiDescription Saves the parameters of a recordings query so that it
+   * can be rerun later, optionally sharing it with a group.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   *
+   * @apiParam {String} name Name of the search.
+   * @apiParam {JSON} query The query to save, made up of any of the `where`,
+   * `tagMode`, `tags`, `order`, `area`, `trackWhere`, `text` and
+   * `filterOptions` parameters of [QueryRecordings](#api-Recordings-QueryRecordings).
+   * @apiParam {String} [sharedWith] Name or id of a group to share the search with.
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiSuccess {Number} id ID of the saved search.
+   * @apiUse V1ResponseError
+   */
+  app.post(
+    apiUrl,
+    [
+      auth.authenticateUser,
+      body("name").isString().trim().isLength({ min: 1 }),
+      middleware.parseJSON("query", body).custom(isSavedQuery),
+      body("sharedWith").optional()
+    ],
+    middleware.requestWrapper(async (request, response: Response) => {
+      const group = await groupToShareWith(
+        request.user,
+        request.body.sharedWith
+      );
+      const search = await models.SavedSearch.create({
+        name: request.body.name,
+        query: request.body.query,
+        UserId: request.user.id,
+        GroupId: group ? group.id : null
+      });
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Saved search."],
+        id: search.id
+      });
+    })
+  );
+
+  /**
+   * @api {get} /api/v1/searches List saved searches
+   * @apiName GetSavedSearches
+   * @apiGroup SavedSearches
+   * @apiDescription Lists the user's saved searches and those shared with
+   * groups they belong to.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   *
+   * @apiParam {Boolean} [countNew] Also count the recordings uploaded since
+   * the user last ran each search that match it.
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiSuccess {JSON[]} searches Saved searches, each with the time the user
+   * last ran it (`lastRunAt`) and, if asked for, the number of `newMatches`
+   * since then, which is null if the user hasn't run it.
+   * @apiUse V1ResponseError
+   */
+  app.get(
+    apiUrl,
+    [
+      auth.authenticateUser,
+      query("countNew").optional().isBoolean().toBoolean()
+    ],
+    middleware.requestWrapper(async (request, response: Response) => {
+      const searches = await models.SavedSearch.allForUser(request.user);
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Got saved searches."],
+        searches: await Promise.all(
+          searches.map((search) =>
+            searchDetails(search, request.user, request.query.countNew)
+          )
+        )
+      });
+    })
+  );
+
+  /**
+   * @api {get} /api/v1/searches/:id Get a saved search
+   * @apiName GetSavedSearch
+   * @apiGroup SavedSearches
+   *
+   * @apiUse V1UserAuthorizationHeader
+   *
+   * @apiParam {Number} id ID of the search.
+   * @apiParam {Boolean} [countNew] Also count the recordings uploaded since
+   * the user last ran the search that match it.
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiSuccess {JSON} search The saved search.
+   * @apiUse V1ResponseError
+   */
+  app.get(
+    `${apiUrl}/:id`,
+    [
+      auth.authenticateUser,
+      middleware.getSavedSearchById(param),
+      query("countNew").optional().isBoolean().toBoolean()
+    ],
+    middleware.requestWrapper(async (request, response: Response) => {
+      const search: SavedSearch = request.body.savedsearch;
+      await checkCanView(search, request.user);
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Got saved search."],
+        search: await searchDetails(
+          search,
+          request.user,
+          request.query.countNew
+        )
+      });
+    })
+  );
+
+  /**
+   * @api {get} /api/v1/searches/:id/recordings Run a saved search
+   * @apiName RunSavedSearch
+   * @apiGroup SavedSearches
+   * @apiDescription Returns the recordings matching a saved search, exactly
+   * as [QueryRecordings](#api-Recordings-QueryRecordings) would for the
+   * same parameters, and records that the user has run it.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   *
+   * @apiParam {Number} id ID of the search.
+   * @apiParam {Number} [limit] Maximum number of results to return.
+   * @apiParam {Number} [offset] Offset of the first result to return.
+   * @apiParam {String} [cursor] The `nextCursor` of the previous page, to get
+   * the page after it. Can't be used with `offset` or searches that have an `order` or `text`.
+   *
+   * @apiUse V1ResponseSuccessQuery
+   * @apiSuccess {String} nextCursor Cursor for the next page of recordings, null if there are no more.
+   * @apiUse V1ResponseError
+   */
+  app.get(
+    `${apiUrl}/:id/recordings`,
+    [
+      auth.authenticateUser,
+      middleware.getSavedSearchById(param),
+      query("offset").isInt().toInt().optional(),
+      query("limit").isInt().toInt().optional(),
+      query("cursor")
+        .optional()
+        .custom((value, { req }) => {
+          const search = req.body.savedsearch;
+          if (
+            req.query.offset ||
+            (search && (search.query.order || search.query.text))
+          ) {
+            throw new Error(
+              "A cursor can't be used with 'offset' or a search with an 'order' or 'text'."
+            );
+          }
+          return models.Recording.queryBuilder.decodeCursor(value) !== null;
+        })
+    ],
+    middleware.requestWrapper(async (request, response: Response) => {
+      const search: SavedSearch = request.body.savedsearch;
+      await checkCanView(search, request.user);
+      const { limit, offset, cursor } = request.query;
+      // Recordings uploaded while the search runs are new the next time.
+      const ranAt = new Date();
+      const result = await recordingUtil.query(
+        requestFor(search, request.user, { limit, offset, cursor })
+      );
+      await search.ranBy(request.user, ranAt);
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Completed query."],
+        limit,
+        offset,
+        count: result.count,
+        rows: result.rows,
+        nextCursor: result.nextCursor
+      });
+    })
+  );
+
+  /**
+   * @api {patch} /api/v1/searches/:id Update a saved search
+   * @apiName UpdateSavedSearch
+   * @apiGroup SavedSearches
+   * @apiDescription Only the user who saved a search can change it.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   *
+   * @apiParam {Number} id ID of the search.
+   * @apiParam {String} [name] New name of the search.
+   * @apiParam {JSON} [query] New query of the search.
+   * @apiParam {String} [sharedWith] Name or id of a group to share the
+   * search with, or null to stop sharing it.
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiUse V1ResponseError
+   */
+  app.patch(
+    `${apiUrl}/:id`,
+    [
+      auth.authenticateUser,
+      middleware.getSavedSearchById(param),
+      body("name").optional().isString().trim().isLength({ min: 1 }),
+      middleware.parseJSON("query", body).optional().custom(isSavedQuery)
+    ],
+    middleware.requestWrapper(async (request, response: Response) => {
+      const search: SavedSearch = request.body.savedsearch;
+      checkCanEdit(search, request.user);
+      if (request.body.name !== undefined) {
+        search.name = request.body.name;
+      }
+      if (request.body.query !== undefined) {
+        search.query = request.body.query;
+      }
+      if (request.body.sharedWith !== undefined) {
+        const group = await groupToShareWith(
+          request.user,
+          request.body.sharedWith
+        );
+        search.GroupId = group ? group.id : null;
+      }
+      await search.save();
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Updated saved search."]
+      });
+    })
+  );
+
+  /**
+   * @api {delete} /api/v1/searches/:id Delete a saved search
+   * @apiName DeleteSavedSearch
+   * @apiGroup SavedSearches
+   * @apiDescription Only the user who saved a search can delete it.
+   *
+   * @apiUse V1UserAuthorizationHeader
+   *
+   * @apiParam {Number} id ID of the search.
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiUse V1ResponseError
+   */
+  app.delete(
+    `${apiUrl}/:id`,
+    [auth.authenticateUser, middleware.getSavedSearchById(param)],
+    middleware.requestWrapper(async (request, response: Response) => {
+      const search: SavedSearch = request.body.savedsearch;
+      checkCanEdit(search, request.user);
+      await search.destroy();
+      responseUtil.send(response, {
+        statusCode: 200,
+        messages: ["Deleted saved search."]
+      });
+    })
+  );
+}
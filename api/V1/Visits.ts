@@ -1,25 +1,120 @@
 /*
 This handles creation of Visits from recordings
 
-A visit is a all tracks that occur within eventMaxTimeSeconds of each other
+A visit is a all tracks that occur within eventGapSeconds of each other
 A Visit is made up of many VisitEvents.
 VisitEvents are distinct viewings of a species, defined by a TrackTag
-A visit is assumed to be the tag that occurs the most in the visitevents
+A visit is classified by the votes of its tracks' tags (see classifyVisit)
 
-All tracks of a recording always belong to the same visit
+All tracks of a recording always belong to the same visit. Visits are
+grouped from the tracks of each device, and also from the tracks of all the
+devices at each station, so every track is part of a device visit and, if
+its recording was made at a station, a station visit.
+
+Visits are stored in the Visits and VisitEvents tables. Whenever the tracks
+of a recording or their tags change, the visits around it are grouped again
+so that querying visits only has to read them.
+
+The gap between events and the audio bait window can be set for a group,
+and for visits of a species within it (see VisitRules). Each visit records
+the rules it was grouped with.
 */
 
+import log from "../../logging";
+import models from "../../models";
 import { Recording } from "../../models/Recording";
 import { TrackTag } from "../../models/TrackTag";
-import { Track } from "../../models/Track";
+import { UserId } from "../../models/User";
+import { Track, TrackId } from "../../models/Track";
+import {
+  AppliedVisitRules,
+  Visit,
+  VisitGrouping,
+  VisitId
+} from "../../models/Visit";
+import { GroupId, VisitRules } from "../../models/Group";
+import { VisitEvent } from "../../models/VisitEvent";
+import { DeviceId } from "../../models/Device";
+import { StationId } from "../../models/Station";
 import moment, { Moment } from "moment";
 import { Event } from "../../models/Event";
+import Sequelize, { Op, QueryTypes, Transaction } from "sequelize";
 
-let visitID = 1;
-const eventMaxTimeSeconds = 60 * 10;
+const DEFAULT_VISIT_RULES: AppliedVisitRules = {
+  name: "default",
+  eventGapSeconds: 60 * 10,
+  audioBaitSeconds: 60 * 10
+};
+// Visits this recent are regrouped as soon as a group's visit rules change.
+// Older ones keep the rules they were grouped with until backfill-visits
+// regroups them.
+const RULES_REGROUP_DAYS = 30;
 const aiName = "Master";
 const unidentified = "unidentified";
-const audioBaitInterval = 60 * 10;
+
+// How the tags of a visit's tracks are weighed: everyone's tags alike, or
+// the caller's own tags first on the tracks they have tagged.
+type TagPrecedence = "consensus" | "mine";
+const TAG_PRECEDENCES: readonly TagPrecedence[] = ["consensus", "mine"];
+
+// A track tagged by people votes for what they tagged it as. Otherwise the
+// classifier votes for what it thinks the track is, with this weight scaled
+// by its confidence.
+const aiVoteWeight = 0.5;
+
+function firstSet(...values: (number | undefined)[]): number {
+  return values.find((value) => value != null);
+}
+
+// The rules for grouping visits of the given species, from the species'
+// overrides, else the group's rules, else the defaults.
+function visitRulesFor(
+  groupRules: VisitRules | null,
+  what: string | null
+): AppliedVisitRules {
+  if (!groupRules) {
+    return DEFAULT_VISIT_RULES;
+  }
+  const species = groupRules.species || {};
+  const overrides = what && species.hasOwnProperty(what) ? species[what] : null;
+  if (overrides) {
+    return {
+      name: `species:${what}`,
+      eventGapSeconds: firstSet(
+        overrides.eventGapSeconds,
+        groupRules.eventGapSeconds,
+        DEFAULT_VISIT_RULES.eventGapSeconds
+      ),
+      audioBaitSeconds: firstSet(
+        overrides.audioBaitSeconds,
+        groupRules.audioBaitSeconds,
+        DEFAULT_VISIT_RULES.audioBaitSeconds
+      )
+    };
+  }
+  return {
+    name: "group",
+    eventGapSeconds: firstSet(
+      groupRules.eventGapSeconds,
+      DEFAULT_VISIT_RULES.eventGapSeconds
+    ),
+    audioBaitSeconds: firstSet(
+      groupRules.audioBaitSeconds,
+      DEFAULT_VISIT_RULES.audioBaitSeconds
+    )
+  };
+}
+
+// The longest gap any of the group's visits can have between events.
+function maxEventGap(groupRules: VisitRules | null): number {
+  const species = (groupRules && groupRules.species) || {};
+  return Math.max(
+    visitRulesFor(groupRules, null).eventGapSeconds,
+    ...Object.keys(species).map(
+      (what) => visitRulesFor(groupRules, what).eventGapSeconds
+    )
+  );
+}
 
 function sortTracks(tracks: Track[]) {
   // sort tracks in descending start time order
@@ -42,129 +137,523 @@ function sortTracks(tracks: Track[]) {
   });
 }
 
-// getTrackTag from all tags return a single tag by precedence:
-// this users tag, or any other humans tag, else the original AI
-function getTrackTag(trackTags: TrackTag[], userID: number): TrackTag | null {
-  if (trackTags.length == 0) {
-    return null;
-  }
-  const manualTags = trackTags.filter((tag) => tag.automatic == false);
-  if (manualTags.length > 0) {
-    const userTag = manualTags.find((tag) => tag.UserId == userID);
-    if (userTag) {
-      return userTag;
-    } else {
-      return manualTags[0];
+function addVote(votes: VoteMap, what: string, weight: number) {
+  votes[what] = (votes[what] || 0) + weight;
+}
+
+// The most voted for tag, preferring any other tag to unidentified.
+function topVote(votes: VoteMap): string | null {
+  const sortedKeys = Object.keys(votes).sort(function (a, b) {
+    if (a == unidentified) {
+      return 1;
+    } else if (b == unidentified) {
+      return -1;
+    }
+    return votes[b] - votes[a];
+  });
+  return sortedKeys.length > 0 ? sortedKeys[0] : null;
+}
+
+// A track's vote, split between what people have tagged it as, or else
+// given to what the classifier thinks it is. Also returns the tag that
+// decided what the track is.
+function classifyTrack(
+  trackTags: TrackTag[],
+  precedence: TagPrecedence,
+  userId: UserId | null
+): { votes: VoteMap; tag: TrackTag | null } {
+  let voters = trackTags.filter(
+    (tag) => !tag.automatic && !tag.isAdditionalTag()
+  );
+  if (precedence == "mine") {
+    const mine = voters.filter((tag) => tag.UserId == userId);
+    if (mine.length > 0) {
+      voters = mine;
     }
   }
-  const masterTag = trackTags.filter((tag) => tag.data == aiName);
-  if (masterTag.length > 0) {
-    return masterTag[0];
+  const votes: VoteMap = {};
+  if (voters.length > 0) {
+    for (const tag of voters) {
+      addVote(votes, tag.what, 1 / voters.length);
+    }
   } else {
-    return null;
+    voters = trackTags.filter(
+      (tag) => tag.automatic && tag.data && tag.data.name == aiName
+    );
+    if (voters.length > 0) {
+      const confidence = voters[0].confidence;
+      addVote(
+        votes,
+        voters[0].what,
+        aiVoteWeight * (confidence != null ? confidence : 1)
+      );
+    }
   }
+  const what = topVote(votes);
+  return { votes, tag: voters.find((tag) => tag.what == what) || null };
 }
 
-class DeviceSummary {
-  deviceMap: DeviceVisitMap;
-  lastRecTime: Moment;
-  constructor() {
-    this.deviceMap = {};
-  }
-
-  generateAnimalSummary(): DeviceAnimals {
-    const deviceSummary: DeviceAnimals = {};
-    for (const [devId, device] of Object.entries(this.deviceMap)) {
-      deviceSummary[devId] = device.animalSummary();
+// Classifies a visit from the tags of each of its tracks. Its confidence
+// is the share of the tracks' votes for what it is classified as, so AI
+// tags and disagreement both make it less confident.
+function classifyVisit(
+  tracksTags: TrackTag[][],
+  precedence: TagPrecedence,
+  userId: UserId | null
+): VisitClassification {
+  const votes: VoteMap = {};
+  const humanTags = new Set<string>();
+  for (const trackTags of tracksTags) {
+    const trackVotes = classifyTrack(trackTags, precedence, userId).votes;
+    for (const [what, weight] of Object.entries(trackVotes)) {
+      addVote(votes, what, weight);
     }
-    return deviceSummary;
+    for (const tag of trackTags) {
+      if (
+        !tag.automatic &&
+        !tag.isAdditionalTag() &&
+        tag.what != unidentified
+      ) {
+        humanTags.add(tag.what);
+      }
+    }
+  }
+  const what = topVote(votes);
+  const confidence = what
+    ? Math.round((100 * votes[what]) / tracksTags.length)
+    : 0;
+  for (const tag of Object.keys(votes)) {
+    votes[tag] = Math.round(votes[tag] * 100) / 100;
   }
+  return {
+    what,
+    confidence,
+    votes,
+    conflictingHumanTags: humanTags.size > 1
+  };
+}
 
-  // generates visits from a list of recordings in descending date time order
-  generateVisits(
-    recordings: any[],
-    queryOffset: number,
-    complete: boolean = false,
-    userID: number
-  ) {
-    for (const [i, rec] of recordings.entries()) {
-      this.lastRecTime = moment(rec.recordingDateTime);
-      let devVisits = this.deviceMap[rec.DeviceId];
-      if (!devVisits) {
-        devVisits = new DeviceVisits(
-          rec.Device.devicename,
-          rec.Group.groupname,
-          rec.DeviceId
-        );
-        this.deviceMap[rec.DeviceId] = devVisits;
+// Groups recordings, in descending date time order, into visits. Whether a
+// recording joins the visit after it depends on the rules for what that
+// visit looks like so far.
+function groupVisits(
+  recordings: any[],
+  groupRules: VisitRules | null
+): NewVisit[] {
+  const ignoreTags = (groupRules && groupRules.ignoreTags) || [];
+  const visits: NewVisit[] = [];
+  for (const rec of recordings) {
+    sortTracks(rec.Tracks);
+    const events = rec.Tracks.map(
+      (track) => new NewVisitEvent(rec, track)
+    ).filter((event) => !ignoreTags.includes(event.what));
+    if (events.length == 0) {
+      continue;
+    }
+    //check earliest track in recording is within interval of current visit
+    const currentVisit = visits[visits.length - 1];
+    if (
+      currentVisit &&
+      currentVisit.isPartOfVisit(
+        events[0].start,
+        visitRulesFor(groupRules, currentVisit.classify().what)
+      )
+    ) {
+      // Device visits made at more than one station aren't at either.
+      if (currentVisit.stationId != rec.StationId) {
+        currentVisit.stationId = null;
       }
-      devVisits.calculateNewVisits(rec, queryOffset + i, complete, userID);
+      currentVisit.addEvents(events);
+    } else {
+      visits.push(new NewVisit(rec.GroupId, rec.StationId, events));
     }
   }
-  earliestIncompleteOffset(): number | null {
-    var offset = null;
-    for (const device of Object.values(this.deviceMap)) {
-      for (var i = device.visits.length - 1; i >= 0; i--) {
-        const visit = device.visits[i];
-        if (visit.complete) {
-          break;
+  return visits;
+}
+
+// Groups the tracks of the device's recordings made between from and to
+// into visits again, along with those of any stored visits they could
+// be part of. The visits of the stations the device's recordings were made
+// at are then regrouped too, as they include its tracks.
+async function regroupVisits(deviceId: DeviceId, from: Moment, to: Moment) {
+  await regroupOwnerVisits("device", deviceId, from, to);
+  for (const stationId of await stationsAround(deviceId, from, to)) {
+    await regroupOwnerVisits("station", stationId, from, to);
+  }
+}
+
+// The stations whose visits could include the device's recordings made
+// between from and to: those the recordings are now at, and any station of
+// the device's group with a visit then, which could have included them
+// before they were moved or deleted.
+async function stationsAround(
+  deviceId: DeviceId,
+  from: Moment,
+  to: Moment
+): Promise<StationId[]> {
+  const rows: { StationId: StationId }[] = await models.sequelize.query(
+    `SELECT "StationId" FROM "Recordings"
+     WHERE "DeviceId" = :deviceId AND "StationId" IS NOT NULL
+       AND "recordingDateTime" BETWEEN :from AND :to
+     UNION
+     SELECT v."StationId" FROM "Visits" v
+       JOIN "Devices" d ON d."GroupId" = v."GroupId"
+     WHERE d.id = :deviceId AND v."groupedBy" = 'station'
+       AND v."StationId" IS NOT NULL
+       AND v.start <= :to AND v."end" >= :from`,
+    {
+      replacements: {
+        deviceId,
+        from: from.toISOString(),
+        to: to.toISOString()
+      },
+      type: QueryTypes.SELECT
+    }
+  );
+  return rows.map((row) => row.StationId);
+}
+
+// Regroups the visits of a device, or of a station, between from and to.
+async function regroupOwnerVisits(
+  groupedBy: VisitGrouping,
+  ownerId: DeviceId | StationId,
+  from: Moment,
+  to: Moment
+) {
+  const ownerColumn = groupedBy == "device" ? "DeviceId" : "StationId";
+  await models.sequelize.transaction(async (transaction: Transaction) => {
+    // Only regroup one device's or station's visits at a time, or
+    // concurrent uploads could each create a visit for the same tracks.
+    const lockOptions = {
+      attributes: ["id", "GroupId"],
+      lock: transaction.LOCK.UPDATE,
+      transaction
+    };
+    const owner =
+      groupedBy == "device"
+        ? await models.Device.findByPk(ownerId, lockOptions)
+        : await models.Station.findByPk(ownerId, lockOptions);
+    if (!owner) {
+      return;
+    }
+    const group = await models.Group.findByPk(owner.GroupId, {
+      attributes: ["id", "visitRules"],
+      transaction
+    });
+    const groupRules = group ? group.visitRules : null;
+    const gapSeconds = maxEventGap(groupRules);
+    const existing = await models.Visit.findAll({
+      where: {
+        groupedBy,
+        [ownerColumn]: ownerId,
+        start: {
+          [Op.lte]: to.clone().add(gapSeconds, "seconds").toDate()
+        },
+        end: {
+          [Op.gte]: from.clone().subtract(gapSeconds, "seconds").toDate()
         }
-        if (offset == null) {
-          offset = visit.queryOffset;
-        } else {
-          offset = Math.min(offset, visit.queryOffset);
+      },
+      attributes: ["id", "start", "end"],
+      include: [
+        { model: models.VisitEvent, attributes: ["RecordingId", "TrackId"] }
+      ],
+      transaction
+    });
+    const regroupIds = [];
+    const trackVisits = new Map<TrackId, Visit>();
+    for (const visit of existing) {
+      from = moment.min(from, moment(visit.start));
+      to = moment.max(to, moment(visit.end));
+      for (const event of visit.VisitEvents) {
+        regroupIds.push(event.RecordingId);
+        trackVisits.set(event.TrackId, visit);
+      }
+    }
+    const existingIds = existing.map((visit) => visit.id);
+    if (existing.length > 0) {
+      await models.VisitEvent.destroy({
+        where: { VisitId: existingIds },
+        transaction
+      });
+    }
+
+    const recordings = await models.Recording.findAll({
+      where: {
+        [ownerColumn]: ownerId,
+        [Op.or]: [
+          {
+            recordingDateTime: {
+              [Op.between]: [
+                from.clone().subtract(gapSeconds, "seconds").toISOString(),
+                to.toISOString()
+              ]
+            }
+          },
+          { id: regroupIds }
+        ],
+        [Op.and]: [
+          Sequelize.literal(
+            `NOT EXISTS (SELECT 1 FROM "VisitEvents" ve
+              JOIN "Visits" v ON v.id = ve."VisitId"
+              WHERE ve."RecordingId" = "Recording".id
+                AND v."groupedBy" = ${models.sequelize.escape(groupedBy)})`
+          )
+        ]
+      },
+      attributes: ["id", "recordingDateTime", "GroupId", "StationId"],
+      include: [
+        {
+          model: models.Track,
+          where: { archivedAt: null },
+          attributes: ["id", "data"],
+          include: [
+            {
+              model: models.TrackTag,
+              attributes: ["id", "what", "automatic", "confidence", "data"],
+              required: false
+            }
+          ]
         }
+      ],
+      order: [
+        ["recordingDateTime", "DESC"],
+        ["id", "DESC"],
+        [models.Track, models.TrackTag, "id", "ASC"]
+      ],
+      transaction
+    });
+
+    // Visits keep their ids while they still include one of the same
+    // tracks, so that they can be referred to while they are tagged.
+    const kept = new Set<VisitId>();
+    for (const newVisit of groupVisits(recordings, groupRules)) {
+      const what = newVisit.classify().what;
+      const values = {
+        start: newVisit.start.toDate(),
+        end: newVisit.end.toDate(),
+        what,
+        rules: visitRulesFor(groupRules, what),
+        groupedBy,
+        DeviceId: groupedBy == "device" ? ownerId : null,
+        GroupId: newVisit.groupId,
+        StationId: newVisit.stationId
+      };
+      let visit = newVisit.events
+        .map((event) => trackVisits.get(event.trackID))
+        .find((previous) => previous && !kept.has(previous.id));
+      if (visit) {
+        kept.add(visit.id);
+        await visit.update(values, { transaction });
+      } else {
+        visit = await models.Visit.create(values, { transaction });
       }
+      await models.VisitEvent.bulkCreate(
+        newVisit.events.map((event) => ({
+          start: event.start.toDate(),
+          end: event.end.toDate(),
+          what: event.what,
+          confidence: event.confidence,
+          VisitId: visit.id,
+          RecordingId: event.recID,
+          TrackId: event.trackID
+        })),
+        { transaction }
+      );
+    }
+    const removed = existingIds.filter((id) => !kept.has(id));
+    if (removed.length > 0) {
+      await models.Visit.destroy({ where: { id: removed }, transaction });
     }
-    return offset;
+  });
+}
+
+// Brings the visits that include the recording's tracks up to date after
+// they, or their tags, have changed. Also used after a recording is
+// deleted to remove it from its visit.
+async function updateVisits(recording: {
+  DeviceId: DeviceId;
+  recordingDateTime: Date | string | null;
+  duration: number | null;
+}) {
+  if (!recording.recordingDateTime) {
+    return;
   }
-  checkForCompleteVisits() {
-    for (const device of Object.values(this.deviceMap)) {
-      device.checkForCompleteVisits(this.lastRecTime);
+  const start = moment(recording.recordingDateTime);
+  const end = start.clone().add(recording.duration || 0, "seconds");
+  await regroupVisits(recording.DeviceId, start, end);
+}
+
+// Regroups the visits of recordings which have been changed in bulk, such
+// as by being matched to a station, a few days at a time for each device.
+async function regroupRecordingVisits(
+  recordings: { DeviceId: DeviceId; recordingDateTime: Date | string | null }[]
+) {
+  const maxDays = 7;
+  const deviceTimes = new Map<DeviceId, Moment[]>();
+  for (const recording of recordings) {
+    if (!recording.recordingDateTime) {
+      continue;
+    }
+    if (!deviceTimes.has(recording.DeviceId)) {
+      deviceTimes.set(recording.DeviceId, []);
     }
+    deviceTimes
+      .get(recording.DeviceId)
+      .push(moment(recording.recordingDateTime));
   }
-  markCompleted() {
-    var visits = 0;
-    for (const device of Object.values(this.deviceMap)) {
-      for (var i = device.visits.length - 1; i >= 0; i--) {
-        const visit = device.visits[i];
-        if (visit.complete) {
-          break;
-        }
-        visit.completeVisit();
+  for (const [deviceId, times] of deviceTimes) {
+    times.sort((a, b) => a.diff(b));
+    let from = times[0];
+    let to = times[0];
+    for (const time of times) {
+      if (time.diff(from, "days", true) > maxDays) {
+        await regroupVisits(deviceId, from, to);
+        from = time;
       }
+      to = time;
     }
+    await regroupVisits(deviceId, from, to);
+  }
+}
+
+// Regrouping of a group's recent visits run in the background after the
+// group's visit rules have changed.
+interface VisitRegroupJob {
+  // Visits from this time on are regrouped.
+  from: Date;
+  startedAt: Date;
+  finishedAt: Date | null;
+  error: string | null;
+}
+
+const regroupJobs = new Map<GroupId, VisitRegroupJob>();
+// Groups whose rules changed again while their visits were being regrouped.
+const regroupAgain = new Set<GroupId>();
+
+// Starts regrouping the group's recent visits in the background. If they are
+// already being regrouped, they are regrouped again once that finishes so
+// that all of them use the latest rules. Returns the new or running job.
+function startRegroupingGroupVisits(groupId: GroupId): VisitRegroupJob {
+  const running = regroupJobs.get(groupId);
+  if (running && !running.finishedAt) {
+    regroupAgain.add(groupId);
+    return running;
   }
-  completeVisitsCount(): number {
-    var visits = 0;
-    for (const device of Object.values(this.deviceMap)) {
-      visits += device.visits.filter((v) => v.complete).length;
+  const job: VisitRegroupJob = {
+    from: regroupFrom(moment()).toDate(),
+    startedAt: new Date(),
+    finishedAt: null,
+    error: null
+  };
+  regroupJobs.set(groupId, job);
+  const regroup = async () => {
+    do {
+      regroupAgain.delete(groupId);
+      await regroupRecentGroupVisits(groupId);
+    } while (regroupAgain.has(groupId));
+  };
+  regroup().then(
+    () => {
+      job.finishedAt = new Date();
+    },
+    (err) => {
+      log.error(`Regrouping visits of group ${groupId} failed: ${err}`);
+      regroupAgain.delete(groupId);
+      job.error = err.message;
+      job.finishedAt = new Date();
+    }
+  );
+  return job;
+}
+
+// Returns the running or most recent regrouping of the group's visits, if
+// there has been one since the server started.
+function getRegroupJob(groupId: GroupId): VisitRegroupJob | null {
+  return regroupJobs.get(groupId) || null;
+}
+
+function regroupFrom(to: Moment): Moment {
+  return to.clone().subtract(RULES_REGROUP_DAYS, "days");
+}
+
+// Regroups the recent visits of a group's devices a week at a time.
+async function regroupRecentGroupVisits(groupId: GroupId) {
+  const to = moment();
+  const from = regroupFrom(to);
+  const devices = await models.Device.findAll({
+    where: { GroupId: groupId },
+    attributes: ["id"]
+  });
+  for (const device of devices) {
+    for (let start = from.clone(); start < to; start.add(7, "days")) {
+      const end = moment.min(start.clone().add(7, "days"), to);
+      await regroupVisits(device.id, start.clone(), end);
     }
-    return visits;
   }
+}
 
-  removeIncompleteVisits() {
-    for (const device of Object.values(this.deviceMap)) {
-      device.removeIncompleteVisits();
-      if (device.visits.length == 0) {
-        delete this.deviceMap[device];
-      }
+class DeviceSummary {
+  deviceMap: DeviceVisitMap;
+  constructor() {
+    this.deviceMap = {};
+  }
+
+  generateAnimalSummary(): DeviceAnimals {
+    const deviceSummary: DeviceAnimals = {};
+    for (const [devId, device] of Object.entries(this.deviceMap)) {
+      deviceSummary[devId] = device.animalSummary();
+    }
+    return deviceSummary;
+  }
+
+  // Station visits are left out.
+  addVisit(visit: VisitResult) {
+    if (visit.deviceId == null) {
+      return;
     }
+    let devVisits = this.deviceMap[visit.deviceId];
+    if (!devVisits) {
+      devVisits = new DeviceVisits(
+        visit.deviceName,
+        visit.groupName,
+        visit.deviceId
+      );
+      this.deviceMap[visit.deviceId] = devVisits;
+    }
+    devVisits.addVisit(visit);
+  }
+}
+
+class StationSummary {
+  stationMap: StationVisitMap;
+  constructor() {
+    this.stationMap = {};
   }
-  allAudioFileIds(): Set<number> {
-    const audioFileIds: Set<number> = new Set();
 
-    for (const device of Object.values(this.deviceMap)) {
-      device.audioFileIds.forEach((id) => audioFileIds.add(id));
+  generateAnimalSummary(): StationAnimals {
+    const stationSummary: StationAnimals = {};
+    for (const [stationId, station] of Object.entries(this.stationMap)) {
+      stationSummary[stationId] = station.animalSummary();
     }
-    return audioFileIds;
+    return stationSummary;
   }
-  completeVisits(): Visit[] {
-    var visits: Visit[] = [];
-    for (const device of Object.values(this.deviceMap)) {
-      visits.push(...device.visits.filter((v) => v.complete));
+
+  // Visits made away from any station are left out.
+  addVisit(visit: VisitResult) {
+    if (visit.stationId == null) {
+      return;
+    }
+    let stationVisits = this.stationMap[visit.stationId];
+    if (!stationVisits) {
+      stationVisits = new StationVisits(
+        visit.stationName,
+        visit.stationLocation,
+        visit.groupName,
+        visit.stationId
+      );
+      this.stationMap[visit.stationId] = stationVisits;
     }
-    return visits;
+    stationVisits.addVisit(visit);
   }
 }
 
@@ -175,7 +664,7 @@ class VisitSummary {
   start: moment.Moment;
   deviceName: string;
   groupName: string;
-  constructor(visit: Visit) {
+  constructor(visit: VisitResult) {
     this.groupName = visit.groupName;
     this.deviceName = visit.deviceName;
     this.end = moment(visit.end);
@@ -183,7 +672,7 @@ class VisitSummary {
     this.visitCount = 1;
     this.eventCount = visit.events.length;
   }
-  updateSummary(visit: Visit) {
+  updateSummary(visit: VisitResult) {
     this.visitCount += 1;
     this.eventCount += visit.events.length;
     if (visit.start < this.start) {
@@ -196,222 +685,254 @@ class VisitSummary {
 }
 
 class DeviceVisits {
-  firstVisit: Visit | null;
   startTime: Moment;
   endTime: Moment;
-  audioFileIds: Set<number>;
   visitCount: number;
   eventCount: number;
   audioBait: boolean;
-  visits: Visit[];
+  visits: VisitResult[];
   constructor(
     public deviceName: string,
     public groupName: string,
     public id: number
   ) {
-    this.firstVisit = null;
-    this.audioFileIds = new Set();
     this.visitCount = 0;
     this.eventCount = 0;
     this.audioBait = false;
     this.visits = [];
   }
   animalSummary(): AnimalSummary {
-    // return a summary of the animals with visits
-    const animalSummary: AnimalSummary = {};
-    for (const visit of this.visits) {
-      if (visit.what in animalSummary) {
-        animalSummary[visit.what].updateSummary(visit);
-      } else {
-        animalSummary[visit.what] = new VisitSummary(visit);
-      }
-    }
-    return animalSummary;
+    return summariseAnimals(this.visits);
   }
 
-  checkForCompleteVisits(lastRecTime: Moment) {
-    //complete any visits that start at least visit interval seconds after this time
-    for (var i = this.visits.length - 1; i >= 0; i--) {
-      const visit = this.visits[i];
-      if (visit.complete) {
-        break;
-      }
-      visit.complete = !isWithinVisitInterval(visit.start, lastRecTime);
-      if (visit.complete) {
-        visit.completeVisit();
-      }
+  addVisit(visit: VisitResult) {
+    //update tally of visits and counts and start end time of the device summary
+    this.visits.push(visit);
+    this.visitCount++;
+    this.audioBait = this.audioBait || visit.audioBaitDay;
+    this.eventCount += visit.events.length;
+    if (!this.startTime || this.startTime > visit.start) {
+      this.startTime = visit.start;
+    }
+    if (!this.endTime || this.endTime < visit.end) {
+      this.endTime = visit.end;
     }
   }
+}
 
-  removeIncompleteVisits() {
-    var delIndex = 0;
-    for (var i = this.visits.length - 1; i >= 0; i--) {
-      const visit = this.visits[i];
-      if (!visit.complete) {
-        delIndex = i;
-      }
+class StationVisits {
+  startTime: Moment;
+  endTime: Moment;
+  visitCount: number;
+  eventCount: number;
+  audioBait: boolean;
+  visits: VisitResult[];
+  constructor(
+    public stationName: string,
+    public location: [number, number] | null,
+    public groupName: string,
+    public id: StationId
+  ) {
+    this.visitCount = 0;
+    this.eventCount = 0;
+    this.audioBait = false;
+    this.visits = [];
+  }
+
+  animalSummary(): AnimalSummary {
+    return summariseAnimals(this.visits);
+  }
+
+  addVisit(visit: VisitResult) {
+    this.visits.push(visit);
+    this.visitCount++;
+    this.audioBait = this.audioBait || visit.audioBaitDay;
+    this.eventCount += visit.events.length;
+    if (!this.startTime || this.startTime > visit.start) {
+      this.startTime = visit.start;
     }
-    this.visits.splice(delIndex, this.visits.length - delIndex);
-    const currentVisit = this.currentVisit();
-    if (currentVisit) {
-      if (this.endTime < currentVisit.end) {
-        this.endTime = currentVisit.end;
-      }
+    if (!this.endTime || this.endTime < visit.end) {
+      this.endTime = visit.end;
     }
   }
+}
 
-  updateSummary(rec: any) {
-    //update tally of visits and counts and start end time of the device summary
-    const currentVisit = this.currentVisit();
-    this.audioBait = this.audioBait || currentVisit.audioBaitDay;
-    this.eventCount += rec.Tracks.length;
-    if (!this.startTime || !this.endTime) {
-      this.startTime = currentVisit.start;
-      this.endTime = currentVisit.end;
+// return a summary of the animals with visits
+function summariseAnimals(visits: VisitResult[]): AnimalSummary {
+  const animalSummary: AnimalSummary = {};
+  for (const visit of visits) {
+    if (visit.what in animalSummary) {
+      animalSummary[visit.what].updateSummary(visit);
     } else {
-      if (this.startTime > currentVisit.start) {
-        this.startTime = currentVisit.start;
-      }
-
-      if (this.endTime < currentVisit.end) {
-        this.endTime = currentVisit.end;
-      }
+      animalSummary[visit.what] = new VisitSummary(visit);
     }
   }
-  currentVisit(): Visit | null {
-    // currents visit is the visit that is actively calculated
-    // the earliest in time
-    return this.visits[this.visits.length - 1];
+  return animalSummary;
+}
+
+// A visit while it is being grouped from recordings, before it is saved.
+class NewVisit {
+  events: NewVisitEvent[];
+  end: Moment;
+  start: Moment;
+  groupId: number;
+  stationId: StationId | null;
+  constructor(
+    groupId: number,
+    stationId: StationId | null,
+    events: NewVisitEvent[]
+  ) {
+    this.events = [];
+    this.groupId = groupId;
+    this.stationId = stationId;
+    this.addEvents(events);
+  }
+
+  // Visits are stored as classified by everyone's tags.
+  classify(): VisitClassification {
+    return classifyVisit(
+      this.events.map((event) => event.trackTags),
+      "consensus",
+      null
+    );
   }
 
-  isPartOfCurrentVisit(time: Moment): boolean {
-    const currentVisit = this.currentVisit();
-    if (currentVisit == null) {
-      return false;
+  addEvents(events: NewVisitEvent[]) {
+    for (const event of events) {
+      this.addEvent(event);
     }
-    return currentVisit.isPartOfVisit(time);
   }
 
-  calculateNewVisits(
-    rec: any,
-    queryOffset: number,
-    complete: boolean = false,
-    userID: number
-  ): Visit[] {
-    sortTracks(rec.Tracks);
-    if (rec.Tracks.length == 0) {
-      return this.visits;
+  isPartOfVisit(eTime: Moment, rules: AppliedVisitRules): boolean {
+    return isWithinVisitInterval(this.start, eTime, rules.eventGapSeconds);
+  }
+
+  addEvent(event: NewVisitEvent): NewVisitEvent {
+    //add a new event to this visit and update start and end accordingly
+    this.events.push(event);
+
+    if (!this.end || event.end.isAfter(this.end)) {
+      this.end = event.end;
     }
-    //check earliest track in recording is within interval of current visit
-    const trackPeriod = new TrackStartEnd(rec, rec.Tracks[0]);
-    const currentVisit = this.currentVisit();
-    if (currentVisit && currentVisit.isPartOfVisit(trackPeriod.trackStart)) {
-      currentVisit.addRecording(rec, userID);
-      currentVisit.queryOffset = queryOffset;
-    } else {
-      if (currentVisit) {
-        currentVisit.completeVisit();
-      }
-      const visit = new Visit(rec, userID, queryOffset);
-      this.visits.push(visit);
-      this.visitCount++;
+    if (!this.start || event.start.isBefore(this.start)) {
+      this.start = event.start;
     }
-    this.updateSummary(rec);
-    this.addAudioFileIds(rec);
-    return this.visits;
+    return event;
   }
+}
 
-  addAudioFileIds(rec: any) {
-    rec.Device.Events.forEach((audioEvent) => {
-      this.audioFileIds.add(audioEvent.EventDetail.details.fileId);
-    });
+class NewVisitEvent {
+  recID: number;
+  trackID: number;
+  confidence: number | null;
+  start: Moment;
+  end: Moment;
+  what: string | null;
+  trackTags: TrackTag[];
+  constructor(rec: Recording, track: any) {
+    const trackTimes = new TrackStartEnd(rec, track);
+    const taggedAs = classifyTrack(track.TrackTags, "consensus", null).tag;
+    this.recID = rec.id;
+    this.trackID = track.id;
+    this.trackTags = track.TrackTags;
+    if (taggedAs) {
+      this.what = taggedAs.what;
+      this.confidence = taggedAs.confidence;
+    } else {
+      this.what = null;
+      this.confidence = null;
+    }
+    this.start = trackTimes.trackStart;
+    this.end = trackTimes.trackEnd;
   }
 }
 
-class Visit {
-  visitID: number;
+// A stored visit as returned by visit queries, along with the audio bait
+// played around it.
+class VisitResult {
   id: number;
-  events: VisitEvent[];
+  events: VisitEventResult[];
   what: string;
   end: Moment;
   start: Moment;
-  deviceName: string;
-  deviceId: number;
+  groupedBy: VisitGrouping;
+  // Null for station visits.
+  deviceName: string | null;
+  deviceId: number | null;
   groupName: string;
+  stationId: StationId | null;
+  stationName: string | null;
+  // The station's [latitude, longitude].
+  stationLocation: [number, number] | null;
+  rules: AppliedVisitRules;
+  // How sure the classification of the visit is, as a percentage.
+  confidence: number;
+  votes: VoteMap;
+  conflictingHumanTags: boolean;
   audioBaitDay: boolean;
   audioBaitVisit: boolean;
   audioBaitEvents: Event[];
-  complete: boolean;
-  tagCount: any;
-  constructor(rec: any, userID: number, public queryOffset: number) {
-    visitID += 1;
-    this.tagCount = {};
-    this.visitID = visitID;
-    this.events = [];
-    this.deviceId = rec.Device.id;
-    this.deviceName = rec.Device.devicename;
-    this.groupName = rec.Group.groupname;
+  constructor(visit: Visit) {
+    this.id = visit.id;
+    this.what = visit.what;
+    this.rules = visit.rules || DEFAULT_VISIT_RULES;
+    this.start = moment(visit.start);
+    this.end = moment(visit.end);
+    this.groupedBy = visit.groupedBy;
+    this.deviceId = visit.DeviceId;
+    this.deviceName = visit.Device ? visit.Device.devicename : null;
+    this.groupName = visit.Group.groupname;
+    this.stationId = visit.StationId;
+    this.stationName = visit.Station ? visit.Station.name : null;
+    this.stationLocation = visit.Station
+      ? visit.Station.location.coordinates
+      : null;
+    this.events = visit.VisitEvents.map(
+      (event) => new VisitEventResult(event, visit.what)
+    );
     this.audioBaitEvents = [];
     this.audioBaitVisit = false;
     this.audioBaitDay = false;
-    this.complete = false;
-    this.addRecording(rec, userID);
-  }
-
-  mostCommonTag(): string | null {
-    // from all events in a visit, get the tag with the highest occurence that
-    // isnt unidentified
-    const tagCount = this.tagCount;
-    const sortedKeys = Object.keys(tagCount).sort(function (a, b) {
-      if (a == unidentified) {
-        return 1;
-      } else if (b == unidentified) {
-        return -1;
-      }
-      return tagCount[b] - tagCount[a];
-    });
-    const maxVote = sortedKeys[0];
-    if (maxVote) {
-      return maxVote;
-    }
-    return null;
-  }
-  completeVisit() {
-    // assign the visit a tag based on the most common tag that isn't unidentified
-    const visitTag = this.mostCommonTag();
-    this.what = visitTag;
-    for (const event of this.events) {
-      event.assumedTag = visitTag;
-    }
-    this.complete = true;
   }
 
-  addRecording(rec: any, userID: number) {
-    for (const track of rec.Tracks) {
-      const taggedAs = getTrackTag(track.TrackTags, userID);
-      const event = new VisitEvent(rec, track, null, taggedAs);
-      this.addEvent(event);
+  // Classifies the visit, and each of its events, from the current tags of
+  // its tracks.
+  classify(
+    trackTags: Map<TrackId, TrackTag[]>,
+    precedence: TagPrecedence,
+    userId: UserId | null
+  ) {
+    const tagsOf = (event: VisitEventResult) =>
+      trackTags.get(event.trackID) || [];
+    const classification = classifyVisit(
+      this.events.map(tagsOf),
+      precedence,
+      userId
+    );
+    this.what = classification.what;
+    this.confidence = classification.confidence;
+    this.votes = classification.votes;
+    this.conflictingHumanTags = classification.conflictingHumanTags;
+    for (const event of this.events) {
+      event.classify(tagsOf(event), precedence, userId);
+      event.assumedTag = this.what;
     }
-    this.addAudioBaitEvents(rec);
   }
 
-  addAudioBaitEvents(rec) {
-    // add all audio bait events that occur within audioBaitInterval of this visit
-    // and before the end of the visit
-    let events = rec.Device.Events;
-    if (!events) {
-      return null;
-    }
-    events = events.filter(
-      (e) => !this.audioBaitEvents.find((existing) => e.id == existing.id)
-    );
+  addAudioBaitEvents(events: Event[]) {
+    // add all audio bait events that occur within audioBaitSeconds of this visit
+    // and before the end of the visit, played by the devices that saw it
+    const deviceIds = new Set(this.events.map((event) => event.deviceId));
     for (const event of events) {
+      if (!deviceIds.has(event.DeviceId)) {
+        continue;
+      }
       const eventTime = moment(event.dateTime);
       this.audioBaitDay =
-        this.audioBaitDay ||
-        eventTime.isSame(moment(rec.recordingDateTime), "day");
+        this.audioBaitDay || eventTime.isSame(this.start, "day");
       if (
-        Math.abs(eventTime.diff(this.start, "seconds")) <= audioBaitInterval &&
+        Math.abs(eventTime.diff(this.start, "seconds")) <=
+          this.rules.audioBaitSeconds &&
         eventTime.isBefore(this.end)
       ) {
         this.audioBaitVisit = true;
@@ -419,71 +940,46 @@ class Visit {
       }
     }
   }
-
-  isPartOfVisit(eTime: Moment): boolean {
-    return isWithinVisitInterval(this.start, eTime);
-  }
-
-  updateTagCount(event: VisitEvent) {
-    if (!event.what) {
-      return;
-    }
-    if (event.what in this.tagCount) {
-      this.tagCount[event.what] += 1;
-    } else {
-      this.tagCount[event.what] = 1;
-    }
-  }
-
-  addEvent(event: VisitEvent): VisitEvent {
-    //add a new event to this visit and update start, end and tagcount accordingly
-    this.updateTagCount(event);
-    this.events.push(event);
-
-    if (!this.end || event.end.isAfter(this.end)) {
-      this.end = event.end;
-    }
-    if (!this.start || event.start.isBefore(this.start)) {
-      this.start = event.start;
-    }
-    return event;
-  }
 }
 
-class VisitEvent {
+class VisitEventResult {
+  id: number;
   // this is the overriding tag that we have given this event
   // e.g. if it was unidentified but grouped under a cat visit
   // assumedTag woudl be "cat"
   assumedTag: string;
   recID: number;
-  recStart: Moment;
   trackID: number;
+  deviceId: DeviceId;
   confidence: number;
   start: Moment;
   end: Moment;
-  audioBaitDay: boolean;
-  audioBaitEvents: Event[];
-  audioBaitVisit: boolean;
   what: string;
-  constructor(rec: Recording, track: Track, tag: TrackTag, taggedAs: TrackTag) {
-    const trackTimes = new TrackStartEnd(rec, track);
-    this.audioBaitDay = false;
-    this.audioBaitVisit = false;
-    this.recID = rec.id;
-    this.audioBaitEvents = [];
-    this.recStart = trackTimes.recStart;
-    this.trackID = track.id;
-    if (taggedAs) {
-      this.what = taggedAs.what;
-      this.confidence = Math.round(taggedAs.confidence * 100);
-    } else {
-      this.what = null;
-    }
-    if (tag) {
-      this.assumedTag = tag.what;
+  constructor(event: VisitEvent, assumedTag: string) {
+    this.id = event.id;
+    this.assumedTag = assumedTag;
+    this.recID = event.RecordingId;
+    this.deviceId = event.Recording.DeviceId;
+    this.trackID = event.TrackId;
+    this.what = event.what;
+    if (event.confidence != null) {
+      this.confidence = Math.round(event.confidence * 100);
     }
-    this.start = trackTimes.trackStart;
-    this.end = trackTimes.trackEnd;
+    this.start = moment(event.start);
+    this.end = moment(event.end);
+  }
+
+  classify(
+    trackTags: TrackTag[],
+    precedence: TagPrecedence,
+    userId: UserId | null
+  ) {
+    const taggedAs = classifyTrack(trackTags, precedence, userId).tag;
+    this.what = taggedAs ? taggedAs.what : null;
+    this.confidence =
+      taggedAs && taggedAs.confidence != null
+        ? Math.round(taggedAs.confidence * 100)
+        : undefined;
   }
 }
 
@@ -506,9 +1002,13 @@ class TrackStartEnd {
   }
 }
 
-function isWithinVisitInterval(firstTime: Moment, secondTime: Moment): boolean {
+function isWithinVisitInterval(
+  firstTime: Moment,
+  secondTime: Moment,
+  gapSeconds: number = DEFAULT_VISIT_RULES.eventGapSeconds
+): boolean {
   const secondsDiff = Math.abs(firstTime.diff(secondTime, "seconds"));
-  return secondsDiff <= eventMaxTimeSeconds;
+  return secondsDiff <= gapSeconds;
 }
 interface DeviceAnimals {
   [key: number]: AnimalSummary;
@@ -516,6 +1016,24 @@ interface DeviceAnimals {
 interface DeviceVisitMap {
   [key: number]: DeviceVisits;
 }
+interface StationAnimals {
+  [key: number]: AnimalSummary;
+}
+interface StationVisitMap {
+  [key: number]: StationVisits;
+}
+interface VoteMap {
+  [key: string]: number;
+}
+interface VisitClassification {
+  what: string | null;
+  // The share of the tracks' votes for what, as a percentage.
+  confidence: number;
+  // The votes for each tag.
+  votes: VoteMap;
+  // Whether people have tagged the visit's tracks as different things.
+  conflictingHumanTags: boolean;
+}
 interface AnimalSummary {
   [key: string]: VisitSummary;
 }
@@ -523,13 +1041,25 @@ export default function () {
   console.log("");
 }
 export {
+  TagPrecedence,
+  TAG_PRECEDENCES,
   VisitSummary,
   DeviceVisitMap,
   DeviceAnimals,
   DeviceSummary,
   DeviceVisits,
-  Visit,
-  VisitEvent,
+  StationVisitMap,
+  StationAnimals,
+  StationSummary,
+  StationVisits,
+  VisitResult,
+  VisitEventResult,
   TrackStartEnd,
-  isWithinVisitInterval
+  isWithinVisitInterval,
+  updateVisits,
+  regroupVisits,
+  regroupRecordingVisits,
+  VisitRegroupJob,
+  startRegroupingGroupVisits,
+  getRegroupJob
 };
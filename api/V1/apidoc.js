@@ -39,6 +39,78 @@
  * @apiParam {Number} [limit] Max number of records to be returned.
  */
 
+/**
+ * @apiDefine RecordingQueryParams
+ * @apiParam {JSON} [where] Filter selecting the recordings to return. Each key is either a field,
+ * which must match, or one of `$and`, `$or` (a list of filters) or `$not` (a filter).
+ * * A field can be given a value, null for no value, a list of possible values or an object
+ * of operators, for example {"DeviceId": [1, 2], "duration": {"$gte": 10, "$lt": 60}}.
+ * * Fields: `id`, `DeviceId`, `GroupId`, `StationId`, `relativeToDawn` and `relativeToDusk` (integers),
+ * `duration`, `batteryLevel`, `moonPhase` and `moonIllumination` (numbers), `recordingDateTime`, `createdAt` and
+ * `updatedAt` (ISO 8601 dates),
+ * `type`, `version`, `comment`, `batteryCharging` and `processingState` (strings), `airplaneModeOn` (boolean),
+ * and `metadataDiscrepancies` and `additionalMetadata` (JSON, which can only be compared with null).
+ * * Integer, number and date operators: `$eq`, `$ne`, `$gt`, `$gte`, `$lt`, `$lte`, `$in`, `$notIn`, `$between`.
+ * * String operators: `$eq`, `$ne`, `$in`, `$notIn`, `$like`, `$notLike`, `$iLike`, `$notILike`.
+ * * Boolean and JSON operators: `$eq`, `$ne`.
+ * * For example {"$or": [{"type": "audio"}, {"duration": {"$gte": 10}}], "recordingDateTime": {"$gte": "2021-01-01T00:00:00Z"}}.
+ * * `relativeToDawn` and `relativeToDusk` are the seconds after the nearest sunrise and sunset, negative if before,
+ * so {"relativeToDusk": {"$between": [-1800, 1800]}} finds recordings made within 30 minutes of dusk.
+ * `moonPhase` goes from 0 (new moon) through 0.5 (full moon) to 1 and `moonIllumination` is the fraction of the
+ * moon that is lit, from 0 to 1.
+ * Filters that don't follow these rules are rejected with a 422 response saying which part is wrong.
+ * @apiParam {Number} [offset] Zero-based page number. Use '0' to get the first page.  Each page has 'limit' number of records.
+ * @apiParam {Number} [limit] Max number of records to be returned.
+ */
+
+/**
+ * @apiDefine RecordingCursor
+ * @apiParam {String} [cursor] The `nextCursor` of the previous page, to get the page after it.
+ * Unlike `offset`, this stays fast for pages deep into the results and doesn't skip or
+ * repeat recordings when new ones are uploaded in between. Can't be used with `offset`, `order` or `text`.
+ */
+
+/**
+ * @apiDefine Area
+ * @apiParam {JSON} [area] Only return results located within an area, which is one of:
+ * * a bounding box, for example {"bbox": {"minLat": -43.6, "minLng": 172.5, "maxLat": -43.4, "maxLng": 172.7}}
+ * * a point and a radius in meters, for example {"near": {"lat": -43.5, "lng": 172.6, "radius": 5000}}
+ * * a GeoJSON Polygon or MultiPolygon, for example {"polygon": {"type": "Polygon", "coordinates": [[[172.5, -43.6], [172.7, -43.6], [172.6, -43.4], [172.5, -43.6]]]}}.
+ * Note that GeoJSON positions are [longitude, latitude].
+ */
+
+/**
+ * @apiDefine TrackFilter
+ * @apiParam {JSON} [trackWhere] Only return recordings with a track that, together with one of its tags, matches
+ * this filter. It is written the same way as `where`, using the fields:
+ * * `start_s`, `end_s`, `duration` (seconds) and `num_frames` of the track
+ * * `AlgorithmId` and `model` (the model name) of the algorithm that found the track
+ * * `what`, `confidence` and `automatic` of the tag
+ * * `all_class_confidences.<class>`, the classifier's confidence in each class for automatic tags.
+ *
+ * For example {"automatic": true, "confidence": {"$lt": 0.6}} or {"all_class_confidences.cat": {"$gt": 0.3}}.
+ */
+
+/**
+ * @apiDefine TextSearch
+ * @apiParam {String} [text] Only return recordings with all the words in this text in their comment, the
+ * details of their tags or the data of their tracks' tags. Words are matched in English, so "trapped" also
+ * matches "trap". Unless an `order` is given the best matches are returned first.
+ */
+
+/**
+ * @apiDefine VisitTagPrecedence
+ * @apiParam {String} [tagPrecedence] How visits are classified from their tracks' tags. `consensus`
+ * (the default) weighs everyone's tags alike, and `mine` counts only your own tags on the tracks you
+ * have tagged. Tags by people outweigh the classifier, whose votes are weighed by its confidence.
+ */
+
+/**
+ * @apiDefine VisitGrouping
+ * @apiParam {String} [groupBy] `device` (the default) for visits to each device, or `station` for
+ * visits to each station, which group the tracks of all the devices at the station.
+ */
+
 /**
  * @apiDefine RecordingOrder
  * @apiParam {JSON} [order] Sorting order for records.
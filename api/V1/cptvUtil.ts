@@ -0,0 +1,274 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Transform } from "stream";
+import zlib from "zlib";
+
+// Details of a recording read from its CPTV file.
+export interface CptvHeader {
+  version: number;
+  timestamp: Date | null;
+  // [latitude, longitude], like the location of a recording.
+  location: [number, number] | null;
+  fps: number;
+  frames: number;
+  // Seconds
+  duration: number;
+}
+
+export class InvalidCptvError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidCptvError";
+  }
+}
+
+const MAGIC = "CPTV";
+const SUPPORTED_VERSIONS = [1, 2];
+const HEADER_SECTION = "H";
+const FRAME_SECTION = "F";
+// Older cameras don't record their frame rate.
+const DEFAULT_FPS = 9;
+
+interface Section {
+  type: string;
+  fields: Map<string, Buffer>;
+  // Offset of the first byte after the section's fields.
+  end: number;
+}
+
+// A CPTV file is a gzipped stream of a magic string, a version byte, a
+// header section and then frame sections. Each section is a type byte,
+// a field count byte and fields made up of a length byte, a field code
+// byte and the field's value. Frame sections are followed by the frame's
+// pixel data, the size of which is given by the "f" field.
+class CptvParser {
+  header: CptvHeader = null;
+  private buffer = Buffer.alloc(0);
+  private skipBytes = 0;
+  private version: number = null;
+
+  push(chunk: Buffer) {
+    this.buffer = this.buffer.length
+      ? Buffer.concat([this.buffer, chunk])
+      : chunk;
+    for (;;) {
+      if (this.skipBytes > 0) {
+        const skipped = Math.min(this.skipBytes, this.buffer.length);
+        this.buffer = this.buffer.subarray(skipped);
+        this.skipBytes -= skipped;
+        if (this.skipBytes > 0) {
+          return;
+        }
+      }
+      if (this.version === null) {
+        if (this.buffer.length < MAGIC.length + 1) {
+          return;
+        }
+        this.readMagic();
+        continue;
+      }
+      const section = readSection(this.buffer);
+      if (!section) {
+        return;
+      }
+      this.buffer = this.buffer.subarray(section.end);
+      this.handleSection(section);
+    }
+  }
+
+  finish(): CptvHeader {
+    if (!this.header) {
+      throw new InvalidCptvError("File ended before the CPTV header.");
+    }
+    if (this.buffer.length > 0 || this.skipBytes > 0) {
+      throw new InvalidCptvError("File ends part way through a frame.");
+    }
+    this.header.duration = Math.round(this.header.frames / this.header.fps);
+    return this.header;
+  }
+
+  private readMagic() {
+    if (this.buffer.toString("latin1", 0, MAGIC.length) != MAGIC) {
+      throw new InvalidCptvError("File is not a CPTV file.");
+    }
+    this.version = this.buffer[MAGIC.length];
+    if (!SUPPORTED_VERSIONS.includes(this.version)) {
+      throw new InvalidCptvError(`Unsupported CPTV version ${this.version}.`);
+    }
+    this.buffer = this.buffer.subarray(MAGIC.length + 1);
+  }
+
+  private handleSection(section: Section) {
+    if (!this.header) {
+      if (section.type != HEADER_SECTION) {
+        throw new InvalidCptvError("CPTV header is missing.");
+      }
+      this.header = parseHeader(this.version, section.fields);
+      return;
+    }
+    if (section.type != FRAME_SECTION) {
+      throw new InvalidCptvError(`Unexpected CPTV section '${section.type}'.`);
+    }
+    const frameSize = section.fields.get("f");
+    if (!frameSize || frameSize.length != 4) {
+      throw new InvalidCptvError("CPTV frame is missing its size.");
+    }
+    // The background frame isn't part of the recording.
+    if (!section.fields.has("g")) {
+      this.header.frames++;
+    }
+    this.skipBytes = frameSize.readUInt32LE(0);
+  }
+}
+
+// Returns the section at the start of buf or null if buf doesn't hold all
+// of it yet.
+function readSection(buf: Buffer): Section | null {
+  if (buf.length < 2) {
+    return null;
+  }
+  const type = String.fromCharCode(buf[0]);
+  const fieldCount = buf[1];
+  const fields = new Map<string, Buffer>();
+  let offset = 2;
+  for (let i = 0; i < fieldCount; i++) {
+    if (buf.length < offset + 2) {
+      return null;
+    }
+    const length = buf[offset];
+    const code = String.fromCharCode(buf[offset + 1]);
+    const start = offset + 2;
+    if (buf.length < start + length) {
+      return null;
+    }
+    fields.set(code, buf.subarray(start, start + length));
+    offset = start + length;
+  }
+  return { type, fields, end: offset };
+}
+
+function parseHeader(version: number, fields: Map<string, Buffer>) {
+  const timestamp = fields.get("T");
+  const latitude = fields.get("L");
+  const longitude = fields.get("O");
+  const fps = fields.get("Z");
+
+  let location: [number, number] = null;
+  if (latitude && longitude) {
+    const lat = latitude.readFloatLE(0);
+    const lng = longitude.readFloatLE(0);
+    // Cameras without a location record 0, 0.
+    if (lat != 0 || lng != 0) {
+      location = [lat, lng];
+    }
+  }
+
+  return {
+    version,
+    // Microseconds since the epoch.
+    timestamp: timestamp
+      ? new Date(
+          (timestamp.readUInt32LE(4) * 2 ** 32 + timestamp.readUInt32LE(0)) /
+            1000
+        )
+      : null,
+    location,
+    fps: fps && fps[0] > 0 ? fps[0] : DEFAULT_FPS,
+    frames: 0,
+    duration: 0
+  };
+}
+
+// Passes a file through unchanged while reading its CPTV header and counting
+// its frames, like StreamDigest, so that uploads are checked as they are
+// stored rather than being read back afterwards. Files that aren't valid
+// CPTV are still passed through.
+export class CptvHeaderReader extends Transform {
+  private parser = new CptvParser();
+  private gunzip = zlib.createGunzip();
+  private parsed: CptvHeader = null;
+  private error: Error = null;
+  // Resolves once the file has been parsed or found to be invalid.
+  private done: Promise<void>;
+
+  constructor() {
+    super();
+    this.done = new Promise((resolve) => {
+      const fail = (err: Error) => {
+        this.error = err;
+        this.gunzip.destroy();
+        resolve();
+      };
+      this.gunzip.on("data", (chunk) => {
+        try {
+          this.parser.push(chunk);
+        } catch (err) {
+          fail(err);
+        }
+      });
+      this.gunzip.on("error", (err) =>
+        fail(new InvalidCptvError(`File could not be decompressed: ${err}`))
+      );
+      this.gunzip.on("end", () => {
+        try {
+          this.parsed = this.parser.finish();
+        } catch (err) {
+          this.error = err;
+        }
+        resolve();
+      });
+    });
+  }
+
+  _transform(chunk, encoding, callback) {
+    if (this.error || this.gunzip.write(chunk)) {
+      callback(null, chunk);
+      return;
+    }
+    // Don't pass the file on faster than it can be parsed.
+    const resume = () => {
+      this.gunzip.off("drain", resume);
+      this.gunzip.off("close", resume);
+      callback(null, chunk);
+    };
+    this.gunzip.on("drain", resume);
+    this.gunzip.on("close", resume);
+  }
+
+  _flush(callback) {
+    if (!this.error) {
+      this.gunzip.end();
+    }
+    this.done.then(() => callback());
+  }
+
+  _destroy(err, callback) {
+    this.gunzip.destroy();
+    callback(err);
+  }
+
+  // Returns the header of the file that was passed through. Throws
+  // InvalidCptvError if it isn't a valid CPTV file.
+  header(): CptvHeader {
+    if (this.error) {
+      throw this.error;
+    }
+    return this.parsed;
+  }
+}
@@ -0,0 +1,487 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Response } from "express";
+import mime from "mime";
+import moment from "moment";
+import tar from "tar-stream";
+import urljoin from "url-join";
+// @ts-ignore
+import * as csv from "fast-csv";
+import config from "../../config";
+import { Recording, RecordingType } from "../../models/Recording";
+import recordingUtil, { ExportTrackTag } from "./recordingUtil";
+
+// Exports recordings in the formats biodiversity portals take: a Camtrap DP
+// package (https://tdwg.github.io/camtrap-dp/), where each device, or
+// device at a station, is a deployment, each recording is a media file
+// and each tag people have given a track is an observation, or those
+// observations as Darwin Core occurrences.
+export const EXPORT_FORMATS = Object.freeze(["camtrap-dp", "dwc"] as const);
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const CAMTRAP_DP_VERSION = "0.1.6";
+
+// The scientific names of what tracks are commonly tagged as.
+const SCIENTIFIC_NAMES: Readonly<Record<string, string>> = Object.freeze({
+  bird: "Aves",
+  cat: "Felis catus",
+  deer: "Cervidae",
+  dog: "Canis familiaris",
+  ferret: "Mustela furo",
+  goat: "Capra hircus",
+  hare: "Lepus europaeus",
+  hedgehog: "Erinaceus europaeus",
+  insect: "Insecta",
+  kiwi: "Apteryx",
+  leporidae: "Leporidae",
+  lizard: "Squamata",
+  mouse: "Mus musculus",
+  mustelid: "Mustelidae",
+  penguin: "Spheniscidae",
+  pig: "Sus scrofa",
+  possum: "Trichosurus vulpecula",
+  rabbit: "Oryctolagus cuniculus",
+  rat: "Rattus",
+  rodent: "Rodentia",
+  sheep: "Ovis aries",
+  stoat: "Mustela erminea",
+  wallaby: "Macropodidae",
+  weasel: "Mustela nivalis"
+});
+
+// Tags that say something about a track other than what is in it.
+const ADDITIONAL_TAGS = ["part", "poor tracking"];
+
+type ObservationType = "animal" | "human" | "vehicle" | "blank" | "unknown";
+
+function observationType(what: string): ObservationType {
+  switch (what) {
+    case "human":
+    case "vehicle":
+      return what;
+    case "false-positive":
+    case "false positive":
+      return "blank";
+    case "unidentified":
+    case "unknown":
+      return "unknown";
+  }
+  return "animal";
+}
+
+// Recordings as queried, with the details of their device, station and
+// group.
+type ExportedRecording = Recording & {
+  Device: { devicename: string };
+  Group: { groupname: string };
+  Station: { name: string } | null;
+};
+
+interface Deployment {
+  id: string;
+  recordings: ExportedRecording[];
+}
+
+function deploymentId(recording: ExportedRecording): string {
+  return recording.StationId
+    ? `${recording.DeviceId}-${recording.StationId}`
+    : `${recording.DeviceId}`;
+}
+
+function deploymentsOf(recordings: ExportedRecording[]): Deployment[] {
+  const deployments: Map<string, Deployment> = new Map();
+  for (const recording of recordings) {
+    const id = deploymentId(recording);
+    if (!deployments.has(id)) {
+      deployments.set(id, { id, recordings: [] });
+    }
+    deployments.get(id).recordings.push(recording);
+  }
+  return Array.from(deployments.values());
+}
+
+function timestamp(date): string {
+  return date ? moment(date).toISOString() : "";
+}
+
+function recordingUrl(recording: ExportedRecording): string {
+  return urljoin(config.server.recording_url_base || "", `${recording.id}`);
+}
+
+function latLng(recording: ExportedRecording): [number | "", number | ""] {
+  return recording.location ? recording.location.coordinates : ["", ""];
+}
+
+function deploymentRows(deployments: Deployment[], latLongPrec: number) {
+  const rows: any[][] = [
+    [
+      "deploymentID",
+      "locationID",
+      "locationName",
+      "longitude",
+      "latitude",
+      "coordinateUncertainty",
+      "start",
+      "end",
+      "setupBy",
+      "cameraID",
+      "cameraModel",
+      "cameraInterval",
+      "cameraHeight",
+      "cameraTilt",
+      "cameraHeading",
+      "timestampIssues",
+      "baitUse",
+      "session",
+      "array",
+      "featureType",
+      "habitat",
+      "tags",
+      "comments",
+      "_id"
+    ]
+  ];
+  for (const { id, recordings } of deployments) {
+    const times = recordings
+      .map((r) => r.recordingDateTime)
+      .filter((time) => time)
+      .map((time) => new Date(time).getTime());
+    // Where the deployment was, going by the first recording that says.
+    const located = recordings.find((r) => r.location);
+    const [lat, lng] = located ? latLng(located) : ["", ""];
+    const [first] = recordings;
+    rows.push([
+      id,
+      first.StationId || "",
+      first.Station ? first.Station.name : first.Device.devicename,
+      lng,
+      lat,
+      located ? latLongPrec : "",
+      times.length > 0 ? timestamp(Math.min(...times)) : "",
+      times.length > 0 ? timestamp(Math.max(...times)) : "",
+      "",
+      first.Device.devicename,
+      "",
+      "",
+      "",
+      "",
+      "",
+      "",
+      "",
+      "",
+      "",
+      "",
+      "",
+      first.Group.groupname,
+      "",
+      first.DeviceId
+    ]);
+  }
+  return rows;
+}
+
+function mediaRows(recordings: ExportedRecording[]) {
+  const rows: any[][] = [
+    [
+      "mediaID",
+      "deploymentID",
+      "sequenceID",
+      "captureMethod",
+      "timestamp",
+      "filePath",
+      "fileName",
+      "fileMediatype",
+      "exifData",
+      "favourite",
+      "comments",
+      "_id"
+    ]
+  ];
+  for (const recording of recordings) {
+    const mediaType = recording.fileMimeType || recording.rawMimeType;
+    const extension = mediaType ? mime.getExtension(mediaType) : null;
+    rows.push([
+      recording.id,
+      deploymentId(recording),
+      recording.id,
+      // Audio is recorded on a schedule, video when something moves.
+      recording.type == RecordingType.Audio ? "time lapse" : "motion detection",
+      timestamp(recording.recordingDateTime),
+      recordingUrl(recording),
+      extension ? `${recording.id}.${extension}` : `${recording.id}`,
+      mediaType || "",
+      "",
+      "",
+      "",
+      recording.id
+    ]);
+  }
+  return rows;
+}
+
+// The time a track starts, given the time of its recording.
+function trackTime(recording: ExportedRecording, tag: ExportTrackTag): string {
+  if (!recording.recordingDateTime) {
+    return "";
+  }
+  const start = moment(recording.recordingDateTime);
+  if (typeof tag.startSeconds === "number") {
+    start.add(tag.startSeconds * 1000, "milliseconds");
+  }
+  return start.toISOString();
+}
+
+function observations(
+  recordings: ExportedRecording[],
+  trackTags: ExportTrackTag[]
+) {
+  const byId = new Map(recordings.map((r) => [r.id, r]));
+  return trackTags
+    .filter((tag) => !ADDITIONAL_TAGS.includes(tag.what))
+    .map((tag) => ({ tag, recording: byId.get(tag.RecordingId) }));
+}
+
+function observationRows(
+  recordings: ExportedRecording[],
+  trackTags: ExportTrackTag[]
+) {
+  const rows: any[][] = [
+    [
+      "observationID",
+      "deploymentID",
+      "sequenceID",
+      "mediaID",
+      "timestamp",
+      "observationType",
+      "cameraSetup",
+      "taxonID",
+      "scientificName",
+      "count",
+      "countNew",
+      "lifeStage",
+      "sex",
+      "behaviour",
+      "individualID",
+      "classificationMethod",
+      "classifiedBy",
+      "classificationTimestamp",
+      "classificationConfidence",
+      "comments",
+      "_id"
+    ]
+  ];
+  for (const { tag, recording } of observations(recordings, trackTags)) {
+    const type = observationType(tag.what);
+    rows.push([
+      tag.id,
+      deploymentId(recording),
+      recording.id,
+      recording.id,
+      trackTime(recording, tag),
+      type,
+      "",
+      "",
+      SCIENTIFIC_NAMES[tag.what] || "",
+      type == "animal" ? 1 : "",
+      "",
+      "",
+      "",
+      "",
+      "",
+      "human",
+      tag.tagger || "",
+      timestamp(tag.createdAt),
+      tag.confidence == null ? "" : tag.confidence,
+      tag.what,
+      tag.id
+    ]);
+  }
+  return rows;
+}
+
+function occurrenceRows(
+  recordings: ExportedRecording[],
+  trackTags: ExportTrackTag[],
+  latLongPrec: number
+) {
+  const rows: any[][] = [
+    [
+      "occurrenceID",
+      "basisOfRecord",
+      "eventID",
+      "eventDate",
+      "decimalLatitude",
+      "decimalLongitude",
+      "geodeticDatum",
+      "coordinateUncertaintyInMeters",
+      "locationID",
+      "locality",
+      "kingdom",
+      "scientificName",
+      "vernacularName",
+      "individualCount",
+      "identifiedBy",
+      "dateIdentified",
+      "associatedMedia"
+    ]
+  ];
+  for (const { tag, recording } of observations(recordings, trackTags)) {
+    // Occurrences are of things that can be named.
+    const scientificName = SCIENTIFIC_NAMES[tag.what];
+    if (!scientificName) {
+      continue;
+    }
+    const [lat, lng] = latLng(recording);
+    rows.push([
+      tag.id,
+      "MachineObservation",
+      recording.id,
+      trackTime(recording, tag),
+      lat,
+      lng,
+      recording.location ? "WGS84" : "",
+      recording.location ? latLongPrec : "",
+      recording.StationId || "",
+      recording.Station ? recording.Station.name : "",
+      "Animalia",
+      scientificName,
+      tag.what,
+      1,
+      tag.tagger || "",
+      timestamp(tag.createdAt),
+      recordingUrl(recording)
+    ]);
+  }
+  return rows;
+}
+
+function dataPackage(
+  recordings: ExportedRecording[],
+  trackTags: ExportTrackTag[]
+) {
+  const schemaUrl = (name: string) =>
+    `https://raw.githubusercontent.com/tdwg/camtrap-dp/${CAMTRAP_DP_VERSION}/${name}`;
+  const names = new Set(
+    observations(recordings, trackTags).map(({ tag }) => tag.what)
+  );
+  const times = recordings
+    .filter((r) => r.recordingDateTime)
+    .map((r) => new Date(r.recordingDateTime).getTime());
+  const resource = (name: string) => ({
+    name,
+    path: `${name}.csv`,
+    profile: "tabular-data-resource",
+    format: "csv",
+    mediatype: "text/csv",
+    encoding: "utf-8",
+    schema: schemaUrl(`${name}-table-schema.json`)
+  });
+  return {
+    profile: schemaUrl("camtrap-dp-profile.json"),
+    name: "cacophony-recordings",
+    created: new Date().toISOString(),
+    contributors: [{ title: "The Cacophony Project", role: "publisher" }],
+    project: {
+      title: "The Cacophony Project",
+      samplingDesign: "opportunistic",
+      captureMethod: ["motion detection", "time lapse"],
+      animalTypes: "unmarked",
+      classificationLevel: "sequence",
+      sequenceInterval: 0
+    },
+    temporal:
+      times.length > 0
+        ? {
+            start: moment(Math.min(...times)).format("YYYY-MM-DD"),
+            end: moment(Math.max(...times)).format("YYYY-MM-DD")
+          }
+        : null,
+    taxonomic: Array.from(names)
+      .filter((what) => SCIENTIFIC_NAMES[what])
+      .map((what) => ({
+        scientificName: SCIENTIFIC_NAMES[what],
+        vernacularNames: { eng: what }
+      })),
+    resources: ["deployments", "media", "observations"].map(resource)
+  };
+}
+
+function addToPackage(pack: tar.Pack, name: string, content: string) {
+  return new Promise((resolve, reject) => {
+    pack.entry({ name }, content, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+// Sends the recordings matching the query specified in the request in
+// format. If there are more recordings, the cursor for them is given in
+// the Next-Cursor header.
+async function exportRecordings(
+  request,
+  response: Response,
+  format: ExportFormat
+) {
+  const {
+    recordings: found,
+    trackTags,
+    latLongPrec,
+    nextCursor
+  } = await recordingUtil.queryForExport(request);
+  const recordings = found as ExportedRecording[];
+  if (nextCursor) {
+    response.set("Next-Cursor", nextCursor);
+  }
+
+  if (format == "dwc") {
+    response.status(200).set({
+      "Content-Type": "text/csv",
+      "Content-Disposition": "attachment; filename=occurrence.csv"
+    });
+    csv.writeToStream(
+      response,
+      occurrenceRows(recordings, trackTags, latLongPrec)
+    );
+    return;
+  }
+
+  const pack = tar.pack();
+  response.status(200).set({
+    "Content-Type": "application/x-tar",
+    "Content-Disposition": "attachment; filename=camtrap-dp.tar"
+  });
+  pack.pipe(response);
+  await addToPackage(
+    pack,
+    "datapackage.json",
+    JSON.stringify(dataPackage(recordings, trackTags), null, 2)
+  );
+  const tables = {
+    deployments: deploymentRows(deploymentsOf(recordings), latLongPrec),
+    media: mediaRows(recordings),
+    observations: observationRows(recordings, trackTags)
+  };
+  for (const [name, rows] of Object.entries(tables)) {
+    await addToPackage(pack, `${name}.csv`, await csv.writeToString(rows));
+  }
+  pack.finalize();
+}
+
+export default {
+  exportRecordings
+};
@@ -26,7 +26,12 @@ export default function (app: Application) {
     "util.js",
     "responseUtil.js",
     "recordingUtil.js",
+    "cptvUtil.js",
+    "quotaUtil.js",
+    "retentionUtil.js",
+    "storageAuditUtil.js",
     "eventUtil.js",
+    "exportUtil.js",
     "apidoc.js"
   ];
   // Filter out files that are not added to app directly, and filter out typescript versions of files.
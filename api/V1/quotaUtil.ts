@@ -0,0 +1,185 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import moment, { Moment } from "moment-timezone";
+import { Op, QueryTypes } from "sequelize";
+import config from "../../config";
+import log from "../../logging";
+import models from "../../models";
+import { QuotaExceededError } from "../customErrors";
+import { Device } from "../../models/Device";
+import { Group } from "../../models/Group";
+
+// Recordings are counted per day and bytes per month, in the server's time
+// zone, by when they were uploaded.
+export interface QuotaUsage {
+  recordingsToday: number;
+  recordingsPerDayQuota: number | null;
+  bytesThisMonth: number;
+  bytesPerMonthQuota: number | null;
+}
+
+const QUOTA_EXCEEDED_EVENT = "quotaExceeded";
+
+function startOf(period: "day" | "month"): Moment {
+  return moment().tz(config.timeZone).startOf(period);
+}
+
+function quotasOf(owner: Device | Group) {
+  return {
+    recordingsPerDayQuota: owner.recordingsPerDayQuota,
+    // BIGINT columns are returned as strings.
+    bytesPerMonthQuota:
+      owner.bytesPerMonthQuota == null ? null : Number(owner.bytesPerMonthQuota)
+  };
+}
+
+async function usageFor(
+  owner: "DeviceId" | "GroupId",
+  id: number
+): Promise<{ recordingsToday: number; bytesThisMonth: number }> {
+  const [recordingsToday, [monthTotal]] = await Promise.all([
+    models.Recording.count({
+      where: { [owner]: id, createdAt: { [Op.gte]: startOf("day").toDate() } }
+    }),
+    // The sum is a numeric, returned as a string, or null if there are no
+    // recordings.
+    models.sequelize.query(
+      `SELECT sum("rawFileSize") AS bytes FROM "Recordings"
+       WHERE "${owner}" = :id AND "createdAt" >= :since`,
+      {
+        replacements: { id, since: startOf("month").toDate() },
+        type: QueryTypes.SELECT
+      }
+    ) as Promise<{ bytes: string | null }[]>
+  ]);
+  return { recordingsToday, bytesThisMonth: Number(monthTotal.bytes) };
+}
+
+async function getDeviceUsage(device: Device): Promise<QuotaUsage> {
+  return {
+    ...(await usageFor("DeviceId", device.id)),
+    ...quotasOf(device)
+  };
+}
+
+async function getGroupUsage(group: Group): Promise<QuotaUsage> {
+  return {
+    ...(await usageFor("GroupId", group.id)),
+    ...quotasOf(group)
+  };
+}
+
+// Throws QuotaExceededError if the device, or the group it belongs to, has
+// used up one of its upload quotas.
+async function checkUploadQuota(device: Device): Promise<void> {
+  const group = await models.Group.getFromId(device.GroupId);
+  const owners: [string, Device | Group][] = [
+    ["Device", device],
+    ["Group", group]
+  ];
+  for (const [level, owner] of owners) {
+    const quotas = quotasOf(owner);
+    if (
+      quotas.recordingsPerDayQuota == null &&
+      quotas.bytesPerMonthQuota == null
+    ) {
+      continue;
+    }
+    const usage =
+      owner === device
+        ? await getDeviceUsage(device)
+        : await getGroupUsage(group);
+
+    if (
+      usage.recordingsPerDayQuota != null &&
+      usage.recordingsToday >= usage.recordingsPerDayQuota
+    ) {
+      await quotaExceeded(
+        device,
+        level,
+        "recordingsPerDay",
+        usage.recordingsPerDayQuota,
+        startOf("day").add(1, "day")
+      );
+    }
+    if (
+      usage.bytesPerMonthQuota != null &&
+      usage.bytesThisMonth >= usage.bytesPerMonthQuota
+    ) {
+      await quotaExceeded(
+        device,
+        level,
+        "bytesPerMonth",
+        usage.bytesPerMonthQuota,
+        startOf("month").add(1, "month")
+      );
+    }
+  }
+}
+
+async function quotaExceeded(
+  device: Device,
+  level: string,
+  quota: string,
+  limit: number,
+  resetsAt: Moment
+) {
+  await logQuotaExceededEvent(device, {
+    level: level.toLowerCase(),
+    quota,
+    limit
+  }).catch((err) => {
+    log.warn(`Failed to log quota event for device ${device.id}: ${err}`);
+  });
+  throw new QuotaExceededError(
+    `${level} ${quota} upload quota of ${limit} reached, try again after ${resetsAt.format()}.`,
+    quota,
+    limit,
+    Math.max(1, resetsAt.diff(moment(), "seconds"))
+  );
+}
+
+// Devices keep retrying, so only the first time a quota is hit each day is
+// logged.
+async function logQuotaExceededEvent(device: Device, details: any) {
+  const detail = await models.DetailSnapshot.getOrCreateMatching(
+    QUOTA_EXCEEDED_EVENT,
+    details
+  );
+  const existing = await models.Event.findOne({
+    where: {
+      DeviceId: device.id,
+      EventDetailId: detail.id,
+      dateTime: { [Op.gte]: startOf("day").toDate() }
+    }
+  });
+  if (!existing) {
+    await models.Event.create({
+      DeviceId: device.id,
+      EventDetailId: detail.id,
+      dateTime: new Date()
+    });
+  }
+}
+
+export default {
+  getDeviceUsage,
+  getGroupUsage,
+  checkUploadQuota
+};
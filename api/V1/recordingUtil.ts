@@ -19,34 +19,66 @@ along with this program.  If not, see <http://www.gnu.org/licenses/>.
 import jsonwebtoken from "jsonwebtoken";
 import mime from "mime";
 import moment, { Moment } from "moment";
+import tar from "tar-stream";
+import { Readable } from "stream";
 import urljoin from "url-join";
-import { ClientError } from "../customErrors";
+import { AuthorizationError, ClientError } from "../customErrors";
 import config from "../../config";
 import log from "../../logging";
 import models from "../../models";
 import responseUtil from "./responseUtil";
-import util from "./util";
+import quotaUtil from "./quotaUtil";
+import { CptvHeader, CptvHeaderReader, InvalidCptvError } from "./cptvUtil";
+import util, { StreamDigest } from "./util";
+import {
+  ObjectInfo,
+  ObjectNotFoundError,
+  openStorage
+} from "../../models/util/storage";
 import { Response } from "express";
 import {
   AudioRecordingMetadata,
+  MetadataDiscrepancies,
   Recording,
   RecordingId,
   RecordingPermission,
+  RecordingQueryBuilderInstance,
   RecordingType,
   TagMode
 } from "../../models/Recording";
 import { Event } from "../../models/Event";
-import { User } from "../../models/User";
-import { Order } from "sequelize";
+import { User, UserId } from "../../models/User";
+import { TrackId } from "../../models/Track";
+import { TrackTag, TrackTagId } from "../../models/TrackTag";
+import { VisitGrouping, VisitId } from "../../models/Visit";
+import Sequelize, {
+  Op,
+  Order,
+  QueryTypes,
+  Transaction,
+  UniqueConstraintError,
+  WhereOptions
+} from "sequelize";
 import { FileId } from "../../models/File";
 import {
   DeviceVisitMap,
-  Visit,
   DeviceSummary,
+  StationSummary,
+  TagPrecedence,
+  VisitResult,
   VisitSummary,
-  isWithinVisitInterval
+  regroupVisits,
+  updateVisits
 } from "./Visits";
 import { Station, StationId } from "../../models/Station";
+import { Device, DeviceId } from "../../models/Device";
+import { Artifact, ARTIFACT_TYPES } from "../../models/Artifact";
+import { Area } from "../../models/util/area";
+import {
+  MAX_CHUNK_BYTES,
+  UploadSession,
+  UPLOAD_SESSION_EXPIRY_HOURS
+} from "../../models/UploadSession";
 
 export interface RecordingQuery {
   user: User;
@@ -57,11 +89,20 @@ export interface RecordingQuery {
     offset: null | number;
     limit: null | number;
     order: null | Order;
+    cursor: null | string;
+    area: null | Area;
+    trackWhere: null | WhereOptions;
+    text: null | string;
     distinct: boolean;
+    tagPrecedence?: null | TagPrecedence;
+    groupBy?: null | VisitGrouping;
   };
   filterOptions: null | any;
 }
 
+// Approximate counts below this are counted exactly.
+const EXACT_COUNT_THRESHOLD = 10000;
+
 // How close is a station allowed to be to another station?
 export const MIN_STATION_SEPARATION_METERS = 60;
 // The radius of the station is half the max distance between stations: any recording inside the radius can
@@ -128,48 +169,405 @@ export async function tryToMatchRecordingToStation(
 }
 
 function makeUploadHandler(mungeData?: (any) => any) {
-  return util.multipartUpload("raw", async (request, data, key) => {
-    if (mungeData) {
-      data = mungeData(data);
-    }
-    const recording = models.Recording.buildSafely(data);
-    recording.rawFileKey = key;
-    recording.rawMimeType = guessRawMimeType(data.type, data.filename);
-    recording.DeviceId = request.device.id;
-    recording.GroupId = request.device.GroupId;
-    const matchingStation = await tryToMatchRecordingToStation(recording);
-    if (matchingStation) {
-      recording.StationId = matchingStation.id;
-    }
+  const upload = util.multipartUpload(
+    "raw",
+    async (request, data, key, rawFileHash, rawFileSize, cptvReader) => {
+      if (mungeData) {
+        data = mungeData(data);
+      }
+      return buildRecordingFromUpload(
+        request.device,
+        data,
+        key,
+        rawFileHash,
+        rawFileSize,
+        cptvReader
+      );
+    },
+    undefined,
+    true
+  );
+  return async (request, response) => {
+    // Refuse the upload before the file is sent if possible.
+    await quotaUtil.checkUploadQuota(request.device);
+    upload(request, response);
+  };
+}
 
-    if (typeof request.device.public === "boolean") {
-      recording.public = request.device.public;
-    }
+// Builds the recording for a newly uploaded raw file.  If the device has
+// already uploaded a file with the same content, the new copy is discarded
+// and the existing recording is returned instead so that retried uploads
+// don't create duplicates. cptvReader must have read the whole file.
+async function buildRecordingFromUpload(
+  device: Device,
+  data: any,
+  key: string,
+  rawFileHash: string,
+  rawFileSize: number,
+  cptvReader: CptvHeaderReader
+): Promise<Recording> {
+  const existing = await findUploadedRecording(device, rawFileHash);
+  if (existing) {
+    await discardDuplicateUpload(existing, key);
+    return existing;
+  }
 
-    await recording.validate();
-    // NOTE: The documentation for save() claims that it also does validation,
-    //  so not sure if we really need the call to validate() here.
+  const recording = models.Recording.buildSafely(data);
+  recording.rawFileKey = key;
+  recording.rawFileHash = rawFileHash;
+  recording.rawFileSize = rawFileSize;
+  recording.rawMimeType = guessRawMimeType(data.type, data.filename);
+  recording.DeviceId = device.id;
+  recording.GroupId = device.GroupId;
+  if (recording.type == RecordingType.ThermalRaw) {
+    await checkCptvMetadata(recording, key, cptvReader);
+  }
+  recording.calculateSunAndMoon();
+  const matchingStation = await tryToMatchRecordingToStation(recording);
+  if (matchingStation) {
+    recording.StationId = matchingStation.id;
+  }
+
+  if (typeof device.public === "boolean") {
+    recording.public = device.public;
+  }
+
+  await recording.validate();
+  // NOTE: The documentation for save() claims that it also does validation,
+  //  so not sure if we really need the call to validate() here.
+  try {
     await recording.save();
-    if (data.metadata) {
-      await tracksFromMeta(recording, data.metadata);
+  } catch (err) {
+    // Another upload of the same file finished first.
+    if (err instanceof UniqueConstraintError) {
+      const winner = await findUploadedRecording(device, rawFileHash);
+      await discardDuplicateUpload(winner, key);
+      return winner;
+    }
+    throw err;
+  }
+  if (data.metadata) {
+    await tracksFromMeta(recording, data.metadata);
+    await updateVisits(recording);
+  }
+  if (data.processingState) {
+    recording.processingState = data.processingState;
+  } else {
+    recording.processingState = models.Recording.uploadedState(
+      data.type as RecordingType
+    );
+  }
+  return recording;
+}
+
+// Recordings whose declared start time, duration (seconds) or location
+// (metres) are further than this from what's in their file are flagged.
+const MAX_RECORDING_DATE_TIME_DIFFERENCE_SECONDS = 60;
+const MAX_DURATION_DIFFERENCE_SECONDS = 2;
+const MAX_LOCATION_DIFFERENCE_METERS = 100;
+
+// Uses the header of a thermal recording's uploaded CPTV file to fill in
+// any metadata the device didn't supply and to record where the metadata it
+// did supply disagrees with the file.
+async function checkCptvMetadata(
+  recording: Recording,
+  key: string,
+  cptvReader: CptvHeaderReader
+) {
+  let header: CptvHeader;
+  try {
+    header = cptvReader.header();
+  } catch (err) {
+    if (!(err instanceof InvalidCptvError)) {
+      throw err;
     }
-    if (data.processingState) {
-      recording.processingState = data.processingState;
+    await openStorage()
+      .delete(key)
+      .catch((err) => {
+        log.warn(`Failed to delete invalid upload ${key}: ${err.message}`);
+      });
+    throw new ClientError(`Invalid CPTV file: ${err.message}`, 422);
+  }
+
+  const discrepancies: MetadataDiscrepancies = {};
+
+  if (header.timestamp) {
+    if (!recording.recordingDateTime) {
+      recording.recordingDateTime = header.timestamp.toISOString();
     } else {
-      recording.processingState = models.Recording.uploadedState(
-        data.type as RecordingType
+      const declared = new Date(recording.recordingDateTime);
+      const difference = Math.abs(
+        declared.getTime() - header.timestamp.getTime()
       );
+      if (difference > MAX_RECORDING_DATE_TIME_DIFFERENCE_SECONDS * 1000) {
+        discrepancies.recordingDateTime = {
+          declared: declared.toISOString(),
+          file: header.timestamp.toISOString()
+        };
+      }
     }
-    return recording;
+  }
+
+  if (recording.duration == null) {
+    recording.duration = header.duration;
+  } else if (
+    Math.abs(recording.duration - header.duration) >
+    MAX_DURATION_DIFFERENCE_SECONDS
+  ) {
+    discrepancies.duration = {
+      declared: recording.duration,
+      file: header.duration
+    };
+  }
+
+  if (header.location) {
+    if (!recording.location) {
+      recording.location = { coordinates: header.location };
+    } else if (
+      latLngApproxDistance(recording.location.coordinates, header.location) >
+      MAX_LOCATION_DIFFERENCE_METERS
+    ) {
+      discrepancies.location = {
+        declared: recording.location.coordinates,
+        file: header.location
+      };
+    }
+  }
+
+  recording.metadataDiscrepancies =
+    Object.keys(discrepancies).length > 0 ? discrepancies : null;
+}
+
+function findUploadedRecording(
+  device: Device,
+  rawFileHash: string
+): Promise<Recording | null> {
+  return models.Recording.findOne({
+    where: { DeviceId: device.id, rawFileHash }
+  });
+}
+
+async function discardDuplicateUpload(existing: Recording, key: string) {
+  log.info(
+    `Upload ${key} is a duplicate of recording ${existing.id}, discarding it`
+  );
+  await openStorage()
+    .delete(key)
+    .catch((err) => {
+      log.warn(`Failed to delete duplicate upload ${key}: ${err.message}`);
+    });
+}
+
+async function createUploadSession(request): Promise<UploadSession> {
+  await quotaUtil.checkUploadQuota(request.device);
+  const data = request.body.data;
+  if (request.body.filename) {
+    data.filename = request.body.filename;
+  }
+  return models.UploadSession.create({
+    data,
+    DeviceId: request.device.id,
+    UserId: request.user ? request.user.id : null,
+    expiresAt: moment().add(UPLOAD_SESSION_EXPIRY_HOURS, "hours").toDate()
   });
 }
 
+// Returns the upload session referenced by the request, checking that it
+// was started by the requesting device or user and is still open.
+function getUploadSession(request): UploadSession {
+  const session: UploadSession = request.body.uploadsession;
+  const owned = request.device
+    ? session.DeviceId == request.device.id
+    : session.UserId == request.user.id;
+  if (!owned) {
+    throw new AuthorizationError(
+      "Upload session was started by a different device or user."
+    );
+  }
+  if (session.hasExpired()) {
+    throw new ClientError("Upload session has expired.", 410);
+  }
+  return session;
+}
+
+async function uploadChunk(
+  session: UploadSession,
+  chunkNumber: number,
+  request
+): Promise<void> {
+  if (session.RecordingId) {
+    throw new ClientError("Upload session has already been finalised.", 409);
+  }
+  if (session.isBeingFinalised()) {
+    throw new ClientError("Upload session is being finalised.", 409);
+  }
+
+  // The chunk is the raw request body, stream it straight through to the
+  // object store while counting its size.
+  const body = new StreamDigest(MAX_CHUNK_BYTES);
+  request.on("aborted", () => body.destroy(new Error("Upload aborted.")));
+  request.pipe(body);
+
+  const key = session.chunkKey(chunkNumber);
+  try {
+    await openStorage().upload(key, body);
+  } catch (err) {
+    if (body.bytes > MAX_CHUNK_BYTES) {
+      request.unpipe(body);
+      await openStorage()
+        .delete(key)
+        .catch((deleteErr) => log.warn(deleteErr));
+      throw new ClientError(
+        `Chunks can be at most ${MAX_CHUNK_BYTES} bytes.`,
+        413
+      );
+    }
+    throw err;
+  }
+  if (body.bytes == 0) {
+    await openStorage().delete(key);
+    throw new ClientError("Chunk was empty.");
+  }
+  if (!(await session.addChunk(chunkNumber, body.bytes))) {
+    throw new ClientError(
+      "Upload session was finalised while the chunk was being received.",
+      409
+    );
+  }
+}
+
+// How many missing chunks an error lists.
+const MISSING_CHUNKS_REPORTED = 20;
+
+// Joins the chunks of an upload session into a single raw recording file and
+// creates the recording for it.  Finalising a session that has already been
+// finalised returns the recording created the first time, and finalising one
+// that another request is still finalising is refused.
+async function finaliseUploadSession(
+  session: UploadSession,
+  totalChunks: number
+): Promise<RecordingId> {
+  if (session.RecordingId) {
+    return session.RecordingId;
+  }
+
+  const received = session.receivedChunkNumbers();
+  const unexpected = received.filter((n) => n >= totalChunks);
+  const missingCount = totalChunks - (received.length - unexpected.length);
+  if (missingCount > 0) {
+    const missing = session.missingChunks(totalChunks, MISSING_CHUNKS_REPORTED);
+    const more = missingCount > missing.length ? ", ..." : "";
+    throw new ClientError(
+      `Upload is missing ${missingCount} chunks: ${missing.join(", ")}${more}.`,
+      422
+    );
+  }
+  if (unexpected.length > 0) {
+    throw new ClientError(
+      `Received chunks beyond the expected total: ${unexpected.join(", ")}.`,
+      422
+    );
+  }
+
+  if (!(await session.claimForFinalising())) {
+    await session.reload();
+    if (session.RecordingId) {
+      return session.RecordingId;
+    }
+    throw new ClientError("Upload is already being finalised.", 409);
+  }
+
+  const chunkKeys = session.chunkKeys();
+  let recording: Recording;
+  try {
+    // The quota may have been used up by other uploads since the session
+    // started.
+    const device = await models.Device.findByPk(session.DeviceId);
+    await quotaUtil.checkUploadQuota(device);
+
+    const key = util.makeObjectKey("raw");
+    const cptvReader = new CptvHeaderReader();
+    const rawFileHash = await util.concatenateObjects(
+      chunkKeys,
+      key,
+      cptvReader
+    );
+
+    const rawFileSize = Object.values(session.chunks).reduce(
+      (total, size) => total + size,
+      0
+    );
+    recording = await buildRecordingFromUpload(
+      device,
+      session.data,
+      key,
+      rawFileHash,
+      rawFileSize,
+      cptvReader
+    );
+    await recording.save();
+
+    session.RecordingId = recording.id;
+    await session.save();
+  } catch (err) {
+    await session.releaseFinalisingClaim().catch((releaseErr) => {
+      log.warn(
+        `Failed to release upload session ${session.id}: ${releaseErr.message}`
+      );
+    });
+    throw err;
+  }
+  await openStorage()
+    .deleteMany(chunkKeys)
+    .catch((err) => {
+      log.warn(
+        `Failed to delete chunks of upload session ${session.id}: ${err.message}`
+      );
+    });
+  return recording.id;
+}
+
+// Applies the cursor, area, track filter and text search parts of a
+// recordings query to builder. Users without global write access only see
+// reduced precision locations so the area is matched against those. Text
+// search results are ranked unless the query gives an order.
+function addCursorAndFilters(
+  builder: RecordingQueryBuilderInstance,
+  request: { user: User; query: any; filterOptions?: any }
+) {
+  if (request.query.cursor) {
+    builder.addCursor(request.query.cursor);
+  }
+  addFilters(builder, request);
+}
+
+// Applies everything but the cursor, for queries that page through
+// something other than recordings.
+function addFilters(
+  builder: RecordingQueryBuilderInstance,
+  request: { user: User; query: any; filterOptions?: any }
+) {
+  if (request.query.area) {
+    const precision = request.user.hasGlobalWrite()
+      ? null
+      : models.Recording.makeFilterOptions(request.user, request.filterOptions)
+          .latLongPrec;
+    builder.addArea(request.query.area, precision);
+  }
+  if (request.query.trackWhere) {
+    builder.addTrackFilter(request.query.trackWhere);
+  }
+  if (request.query.text) {
+    builder.addTextSearch(request.query.text, !request.query.order);
+  }
+}
+
 // Returns a promise for the recordings query specified in the
 // request.
 async function query(
   request: RecordingQuery,
   type?
-): Promise<{ rows: Recording[]; count: number }> {
+): Promise<{ rows: Recording[]; count: number; nextCursor: string | null }> {
   if (type) {
     request.query.where.type = type;
   }
@@ -183,6 +581,7 @@ async function query(
     request.query.limit,
     request.query.order
   );
+  addCursorAndFilters(builder, request);
   builder.query.distinct = true;
   const result = await models.Recording.findAndCountAll(builder.get());
 
@@ -193,14 +592,337 @@ async function query(
   );
   result.rows = result.rows.map((rec) => {
     rec.filterData(filterOptions);
-    return handleLegacyTagFieldsForGetOnRecording(rec);
+    return signArtifacts(handleLegacyTagFieldsForGetOnRecording(rec));
   });
+  return {
+    ...result,
+    nextCursor: nextCursor(request, result.rows, builder.query.limit)
+  };
+}
+
+// Returns a promise for the number of recordings matching the query
+// specified in the request, ignoring its offset and limit. If approximate,
+// counts the database estimates to be larger than
+// EXACT_COUNT_THRESHOLD are given as estimates instead.
+async function queryCount(
+  request: RecordingQuery,
+  approximate: boolean = false
+): Promise<{ count: number; approximate: boolean }> {
+  const builder = await new models.Recording.queryBuilder().init(
+    request.user,
+    request.query.where,
+    request.query.tagMode,
+    request.query.tags,
+    null,
+    null,
+    null
+  );
+  addCursorAndFilters(builder, request);
+  if (approximate) {
+    const estimate = await builder.estimateCount();
+    if (estimate > EXACT_COUNT_THRESHOLD) {
+      return { count: estimate, approximate: true };
+    }
+  }
+  return { count: await builder.count(), approximate: false };
+}
+
+// Dimensions recordings can be counted by in queryFacets(). Times are in
+// the server's time zone.
+export const FACETS = Object.freeze([
+  "what",
+  "tagger",
+  "DeviceId",
+  "StationId",
+  "hour",
+  "weekday",
+  "month",
+  "type"
+] as const);
+
+export type Facet = typeof FACETS[number];
+
+export interface FacetBucket {
+  value: string | number | null;
+  count: number;
+}
+
+// Facets that are a value of the recording itself.
+function recordingFacetSql(facet: Facet): string | null {
+  const localTime = `"Recording"."recordingDateTime" AT TIME ZONE ${models.sequelize.escape(
+    config.timeZone
+  )}`;
+  switch (facet) {
+    case "DeviceId":
+    case "StationId":
+    case "type":
+      return `"Recording"."${facet}"`;
+    case "hour":
+      return `date_part('hour', ${localTime})::integer`;
+    case "weekday":
+      // 1 is Monday, 7 is Sunday.
+      return `date_part('isodow', ${localTime})::integer`;
+    case "month":
+      return `to_char(${localTime}, 'YYYY-MM')`;
+  }
+  return null;
+}
+
+function trackTagged(condition: string): string {
+  return `EXISTS (
+    SELECT 1 FROM "Tracks" t JOIN "TrackTags" tt ON tt."TrackId" = t.id
+    WHERE t."RecordingId" = "Recording".id AND t."archivedAt" IS NULL
+      AND ${condition}
+  )`;
+}
+
+async function facetCounts(
+  facet: Facet,
+  where: string
+): Promise<FacetBucket[]> {
+  let rows: any[];
+  if (facet == "tagger") {
+    // A recording can have both human and automatic track tags.
+    const [counts]: any[] = await models.sequelize.query(
+      `SELECT
+         count(*) FILTER (WHERE ${trackTagged("NOT tt.automatic")}) AS human,
+         count(*) FILTER (WHERE ${trackTagged("tt.automatic")}) AS automatic,
+         count(*) FILTER (WHERE NOT ${trackTagged("true")}) AS untagged
+       FROM "Recordings" AS "Recording" ${where}`,
+      { type: QueryTypes.SELECT }
+    );
+    rows = Object.entries(counts).map(([value, count]) => ({ value, count }));
+  } else if (facet == "what") {
+    // The number of recordings with a track tagged as each what.
+    rows = await models.sequelize.query(
+      `SELECT tt.what AS value, count(DISTINCT "Recording".id) AS count
+       FROM "Recordings" AS "Recording"
+       JOIN "Tracks" t ON t."RecordingId" = "Recording".id AND t."archivedAt" IS NULL
+       JOIN "TrackTags" tt ON tt."TrackId" = t.id
+       ${where}
+       GROUP BY value ORDER BY count DESC, value`,
+      { type: QueryTypes.SELECT }
+    );
+  } else {
+    rows = await models.sequelize.query(
+      `SELECT ${recordingFacetSql(facet)} AS value, count(*) AS count
+       FROM "Recordings" AS "Recording" ${where}
+       GROUP BY value ORDER BY value`,
+      { type: QueryTypes.SELECT }
+    );
+  }
+  // Counts are returned as strings.
+  return rows.map(({ value, count }) => ({ value, count: Number(count) }));
+}
+
+// Returns a promise for the number of recordings matching the query
+// specified in the request in each bucket of each of the facets, ignoring
+// the query's offset and limit.
+async function queryFacets(
+  request: RecordingQuery,
+  facets: Facet[]
+): Promise<Partial<Record<Facet, FacetBucket[]>>> {
+  const builder = await new models.Recording.queryBuilder().init(
+    request.user,
+    request.query.where,
+    request.query.tagMode,
+    request.query.tags,
+    null,
+    null,
+    null
+  );
+  addCursorAndFilters(builder, request);
+  const where = builder.whereSql();
+  const result = {};
+  for (const facet of facets) {
+    result[facet] = await facetCounts(facet, where);
+  }
   return result;
 }
 
+// The cursor for the page of recordings after rows, or null if rows was
+// the last page. Text searches can't be paged with cursors.
+function nextCursor(
+  request: { query: any },
+  rows: Recording[],
+  limit: number
+): string | null {
+  if (request.query.text || rows.length == 0 || rows.length < limit) {
+    return null;
+  }
+  return models.Recording.queryBuilder.encodeCursor(rows[rows.length - 1]);
+}
+
+// Streams a tar archive of the recordings matching the query to the
+// response. Each recording gets its raw and processed files plus a JSON
+// file holding the same details (tracks, tags etc.) a query returns.
+// Takes the same parameters as query() above.
+async function archive(request, response: Response) {
+  const builder = (
+    await new models.Recording.queryBuilder().init(
+      request.user,
+      request.query.where,
+      request.query.tagMode,
+      request.query.tags,
+      request.query.offset,
+      request.query.limit,
+      request.query.order
+    )
+  )
+    .addColumn("rawFileKey")
+    .addColumn("fileKey");
+  addCursorAndFilters(builder, request);
+  const recordings: Recording[] = await models.Recording.findAll(builder.get());
+
+  const filterOptions = models.Recording.makeFilterOptions(
+    request.user,
+    request.filterOptions
+  );
+
+  const pack = tar.pack();
+  response.status(200).set({
+    "Content-Type": "application/x-tar",
+    "Content-Disposition": "attachment; filename=recordings.tar"
+  });
+  pack.pipe(response);
+
+  const archive: Archive = { pack, cancelled: false, body: null };
+  let finished = false;
+  response.on("close", () => {
+    if (finished) {
+      return;
+    }
+    // The pack no longer drains once the response is closed, so stop
+    // copying the current object or it would never finish.
+    archive.cancelled = true;
+    pack.destroy();
+    if (archive.body) {
+      archive.body.destroy(new ArchiveCancelledError());
+    }
+  });
+
+  try {
+    for (const rec of recordings) {
+      rec.filterData(filterOptions);
+      await addRecordingToArchive(archive, rec);
+    }
+    finished = true;
+    pack.finalize();
+  } catch (err) {
+    if (err instanceof ArchiveCancelledError) {
+      log.info("Recordings archive cancelled by the client.");
+      return;
+    }
+    // The response has already started so the client can only find out
+    // about the failure from the truncated archive.
+    log.error(`Failed to write recordings archive: ${err.toString()}`);
+    pack.destroy(err);
+    response.destroy();
+  }
+}
+
+// A recordings archive being streamed, and the object being copied into it
+// so that copying can be stopped if the client goes away.
+interface Archive {
+  pack: tar.Pack;
+  cancelled: boolean;
+  body: Readable | null;
+}
+
+class ArchiveCancelledError extends Error {
+  constructor() {
+    super("Archive cancelled.");
+  }
+}
+
+function checkArchiveCancelled(archive: Archive) {
+  if (archive.cancelled) {
+    throw new ArchiveCancelledError();
+  }
+}
+
+async function addRecordingToArchive(archive: Archive, recording: Recording) {
+  const name = `${recording.getFileBaseName()}-${recording.id}`;
+  const mtime = recording.recordingDateTime
+    ? new Date(recording.recordingDateTime)
+    : new Date();
+
+  if (recording.rawFileKey) {
+    await addObjectToArchive(
+      archive,
+      recording.rawFileKey,
+      name + recording.getRawFileExt(),
+      mtime
+    );
+  }
+  if (recording.fileKey) {
+    await addObjectToArchive(
+      archive,
+      recording.fileKey,
+      `${name}-processed${recording.getFileExt()}`,
+      mtime
+    );
+  }
+
+  const details = handleLegacyTagFieldsForGetOnRecording(recording);
+  delete details.rawFileKey;
+  delete details.fileKey;
+  details.Artifacts = (details.Artifacts || []).map(
+    ({ fileKey, ...artifact }) => artifact
+  );
+  const json = Buffer.from(JSON.stringify(details, null, 2));
+  checkArchiveCancelled(archive);
+  await new Promise((resolve, reject) => {
+    archive.pack.entry({ name: name + ".json", mtime }, json, (err) =>
+      err ? reject(err) : resolve()
+    );
+  });
+}
+
+async function addObjectToArchive(
+  archive: Archive,
+  key: string,
+  name: string,
+  mtime: Date
+) {
+  const storage = openStorage();
+  let info: ObjectInfo;
+  try {
+    info = await storage.head(key);
+  } catch (err) {
+    if (err instanceof ObjectNotFoundError) {
+      log.warn(`Leaving missing object ${key} out of recordings archive.`);
+      return;
+    }
+    throw err;
+  }
+  checkArchiveCancelled(archive);
+  // Tar entries need their size up front, which is why the object is
+  // only read if it hasn't changed since it was looked up.
+  const body = storage.getStream(key, { ifMatch: info.etag });
+  archive.body = body;
+  try {
+    await new Promise((resolve, reject) => {
+      const entry = archive.pack.entry(
+        { name, size: info.size, mtime },
+        (err) => (err ? reject(err) : resolve())
+      );
+      body.on("error", (err) => {
+        entry.destroy(err);
+        reject(err);
+      });
+      body.pipe(entry);
+    });
+  } finally {
+    archive.body = null;
+  }
+}
+
 // Returns a promise for report rows for a set of recordings. Takes
 // the same parameters as query() above.
-async function report(request) {
+async function report(
+  request
+): Promise<{ rows: any[][]; nextCursor: string | null }> {
   if (request.query.type == "visits") {
     return reportVisits(request);
   }
@@ -222,6 +944,7 @@ async function reportRecordings(request) {
     .addColumn("comment")
     .addColumn("additionalMetadata")
     .addAudioEvents();
+  addCursorAndFilters(builder, request);
 
   builder.query.include.push({
     model: models.Station,
@@ -355,7 +1078,93 @@ async function reportRecordings(request) {
       speciesClassifications
     ]);
   }
-  return out;
+  return {
+    rows: out,
+    nextCursor: nextCursor(request, result, builder.query.limit)
+  };
+}
+
+export interface ExportTrackTag {
+  id: number;
+  what: string;
+  confidence: number;
+  createdAt: Date;
+  RecordingId: RecordingId;
+  // Seconds into the recording the track starts.
+  startSeconds: number | null;
+  tagger: string | null;
+}
+
+// Returns the recordings matching the query specified in the request, at
+// the location precision the user is allowed, along with the tags people
+// have given their tracks, for exporting to other formats.
+async function queryForExport(
+  request
+): Promise<{
+  recordings: Recording[];
+  trackTags: ExportTrackTag[];
+  latLongPrec: number;
+  nextCursor: string | null;
+}> {
+  const builder = await new models.Recording.queryBuilder().init(
+    request.user,
+    request.query.where,
+    request.query.tagMode,
+    request.query.tags,
+    request.query.offset,
+    request.query.limit,
+    request.query.order
+  );
+  addCursorAndFilters(builder, request);
+  const recordings: Recording[] = await models.Recording.findAll(builder.get());
+  const filterOptions = models.Recording.makeFilterOptions(
+    request.user,
+    request.filterOptions
+  );
+  for (const recording of recordings) {
+    recording.filterData(filterOptions);
+  }
+
+  let trackTags = [];
+  if (recordings.length > 0) {
+    const tags: any[] = await models.TrackTag.findAll({
+      where: { automatic: false },
+      attributes: ["id", "what", "confidence", "createdAt"],
+      include: [
+        {
+          model: models.Track,
+          where: {
+            RecordingId: recordings.map(({ id }) => id),
+            archivedAt: null
+          },
+          attributes: [
+            "RecordingId",
+            [Sequelize.literal(`"Track"."data"->'start_s'`), "start_s"]
+          ]
+        },
+        {
+          model: models.User,
+          attributes: ["username"]
+        }
+      ],
+      order: [["id", "ASC"]]
+    });
+    trackTags = tags.map((tag) => ({
+      id: tag.id,
+      what: tag.what,
+      confidence: tag.confidence,
+      createdAt: tag.createdAt,
+      RecordingId: tag.Track.RecordingId,
+      startSeconds: tag.Track.get("start_s"),
+      tagger: tag.User ? tag.User.username : null
+    }));
+  }
+  return {
+    recordings,
+    trackTags,
+    latLongPrec: filterOptions.latLongPrec,
+    nextCursor: nextCursor(request, recordings, builder.query.limit)
+  };
 }
 
 function getCacophonyIndex(recording: Recording): string | null {
@@ -407,7 +1216,7 @@ async function get(request, type?: RecordingType) {
   }
 
   const data: any = {
-    recording: handleLegacyTagFieldsForGetOnRecording(recording)
+    recording: signArtifacts(handleLegacyTagFieldsForGetOnRecording(recording))
   };
 
   if (recording.fileKey) {
@@ -421,7 +1230,7 @@ async function get(request, type?: RecordingType) {
       config.server.passportSecret,
       { expiresIn: 60 * 10 }
     );
-    data.cookedSize = await util.getS3ObjectFileSize(recording.fileKey);
+    data.cookedSize = await util.getObjectFileSize(recording.fileKey);
   }
 
   if (recording.rawFileKey) {
@@ -435,7 +1244,7 @@ async function get(request, type?: RecordingType) {
       config.server.passportSecret,
       { expiresIn: 60 * 10 }
     );
-    data.rawSize = await util.getS3ObjectFileSize(recording.rawFileKey);
+    data.rawSize = await util.getObjectFileSize(recording.rawFileKey);
   }
 
   delete data.recording.rawFileKey;
@@ -455,15 +1264,32 @@ async function delete_(request, response) {
       messages: ["Failed to delete recording."]
     });
   }
+  // Recordings looked up for users include their device rather than its id.
+  await updateVisits({
+    DeviceId: deleted.Device.id,
+    recordingDateTime: deleted.recordingDateTime,
+    duration: deleted.duration
+  });
   if (deleted.rawFileKey) {
-    util.deleteS3Object(deleted.rawFileKey).catch((err) => {
-      log.warn(err);
-    });
+    openStorage()
+      .delete(deleted.rawFileKey)
+      .catch((err) => {
+        log.warn(err);
+      });
   }
   if (deleted.fileKey) {
-    util.deleteS3Object(deleted.fileKey).catch((err) => {
-      log.warn(err);
-    });
+    openStorage()
+      .delete(deleted.fileKey)
+      .catch((err) => {
+        log.warn(err);
+      });
+  }
+  for (const artifact of deleted.Artifacts || []) {
+    openStorage()
+      .delete(artifact.fileKey)
+      .catch((err) => {
+        log.warn(err);
+      });
   }
   responseUtil.send(response, {
     statusCode: 200,
@@ -533,6 +1359,87 @@ function handleLegacyTagFieldsForGet(tag) {
   return tag;
 }
 
+// Swaps the object keys of a recording's artifacts for short-lived JWTs
+// that can be used to download them through /api/v1/signedUrl.
+function signArtifacts(recording) {
+  recording.Artifacts = (recording.Artifacts || []).map(
+    ({ fileKey, ...artifact }) => {
+      const ext = mime.getExtension(artifact.mimeType);
+      const downloadJWT = jsonwebtoken.sign(
+        {
+          _type: "fileDownload",
+          key: fileKey,
+          filename: `${recording.id}-${artifact.type}-${artifact.id}.${ext}`,
+          mimeType: artifact.mimeType
+        },
+        config.server.passportSecret,
+        { expiresIn: 60 * 10 }
+      );
+      return { ...artifact, downloadJWT };
+    }
+  );
+  return recording;
+}
+
+// Builds the record for a preview image uploaded by the file processing.
+// There is one poster per recording and one thumbnail per track, so an
+// upload replaces any existing artifact. Its old object is deleted once the
+// artifact is saved.
+async function buildArtifactFromUpload(
+  request,
+  data,
+  key: string
+): Promise<Artifact> {
+  try {
+    const recording = await models.Recording.findByPk(request.params.id);
+    if (!recording) {
+      throw new ClientError("No such recording.");
+    }
+    if (!ARTIFACT_TYPES.includes(data.type)) {
+      throw new ClientError(
+        `'type' must be one of ${ARTIFACT_TYPES.join(", ")}.`,
+        422
+      );
+    }
+    const trackId = data.type == "trackThumbnail" ? data.trackId : null;
+    if (trackId == null && data.type == "trackThumbnail") {
+      throw new ClientError("A track thumbnail needs a 'trackId'.", 422);
+    }
+    if (trackId != null && !(await recording.getTrack(trackId))) {
+      throw new ClientError("No such track.");
+    }
+    const mimeType = data.mimeType || mime.getType(data.filename || "");
+    if (!mimeType || !mimeType.startsWith("image/")) {
+      throw new ClientError("Artifacts must be images.", 422);
+    }
+
+    const fields = {
+      fileKey: key,
+      mimeType,
+      width: data.width || null,
+      height: data.height || null
+    };
+    const existing = await models.Artifact.findOne({
+      where: { RecordingId: recording.id, TrackId: trackId, type: data.type }
+    });
+    if (existing) {
+      existing.set(fields);
+      return existing;
+    }
+    return models.Artifact.build({
+      ...fields,
+      type: data.type,
+      RecordingId: recording.id,
+      TrackId: trackId
+    }) as Artifact;
+  } catch (err) {
+    await openStorage()
+      .delete(key)
+      .catch((deleteErr) => log.warn(deleteErr));
+    throw err;
+  }
+}
+
 function handleLegacyTagFieldsForGetOnRecording(recording) {
   recording = recording.get({ plain: true });
   recording.Tags = recording.Tags.map(handleLegacyTagFieldsForGet);
@@ -662,131 +1569,315 @@ async function updateMetadata(recording: any, metadata: any) {
   throw new Error("recordingUtil.updateMetadata is unimplemented!");
 }
 
-// Returns a promise for the recordings visits query specified in the
-// request.
+// The most visits a visits query returns.
+const MAX_VISIT_QUERY_RESULTS = 5000;
+
+// Returns a promise for the visits that include recordings matching the
+// query specified in the request, most recent first. Visit cursors are
+// encoded like recording cursors but hold the start of a visit.
 async function queryVisits(
-  request: RecordingQuery,
-  type?
+  request: RecordingQuery
 ): Promise<{
-  visits: Visit[];
+  visits: VisitResult[];
   summary: DeviceSummary;
+  stationSummary: StationSummary;
   hasMoreVisits: boolean;
-  queryOffset: number;
-  totalRecordings: number;
   numRecordings: number;
   numVisits: number;
+  nextCursor: string | null;
 }> {
-  const maxVisitQueryResults = 5000;
-  const requestVisits =
-    request.query.limit == null
-      ? maxVisitQueryResults
-      : (request.query.limit as number);
-
-  let queryMax = maxVisitQueryResults * 2;
-  let queryLimit = queryMax;
-  if (request.query.limit) {
-    queryLimit = Math.min(request.query.limit * 2, queryMax);
-  }
-
+  const limit = Math.min(
+    request.query.limit || MAX_VISIT_QUERY_RESULTS,
+    MAX_VISIT_QUERY_RESULTS
+  );
   const builder = await new models.Recording.queryBuilder().init(
     request.user,
     request.query.where,
     request.query.tagMode,
-    request.query.tags,
-    request.query.offset,
-    queryLimit,
-    null
-  );
-  builder.query.distinct = true;
-  builder.addAudioEvents(
-    '"Recording"."recordingDateTime" - interval \'1 day\'',
-    '"Recording"."recordingDateTime" + interval \'1 day\''
+    request.query.tags
   );
+  addFilters(builder, request);
+
+  const where = [
+    Sequelize.literal(`EXISTS (
+      SELECT 1 FROM "VisitEvents" AS "VisitEvent"
+      JOIN "Recordings" AS "Recording" ON "Recording".id = "VisitEvent"."RecordingId"
+        AND "VisitEvent"."VisitId" = "Visit".id
+      ${builder.whereSql()}
+    )`)
+  ];
+  let offset = request.query.offset || 0;
+  if (request.query.cursor) {
+    const cursor = models.Recording.queryBuilder.decodeCursor(
+      request.query.cursor
+    );
+    where.push(
+      Sequelize.literal(
+        `("Visit"."start", "Visit".id) < (${models.sequelize.escape(
+          cursor.recordingDateTime
+        )}, ${models.sequelize.escape(cursor.id)})`
+      )
+    );
+    offset = 0;
+  }
+  // Station visits can include tracks seen by devices the user can't see.
+  const deviceVisible = await request.user.getWhereDeviceVisible();
+  const found = await models.Visit.findAll({
+    where: {
+      groupedBy: request.query.groupBy || "device",
+      [Op.and]: where
+    },
+    attributes: [...models.Visit.userGetAttributes],
+    include: [
+      { model: models.Device, attributes: ["devicename"] },
+      { model: models.Group, attributes: ["groupname"] },
+      { model: models.Station, attributes: ["name", "location"] },
+      {
+        model: models.VisitEvent,
+        attributes: [...models.VisitEvent.userGetAttributes, "VisitId"],
+        include: [
+          {
+            model: models.Recording,
+            attributes: ["DeviceId"],
+            where: deviceVisible || {}
+          }
+        ],
+        order: [
+          ["start", "DESC"],
+          ["id", "DESC"]
+        ],
+        separate: true
+      }
+    ],
+    order: [
+      ["start", "DESC"],
+      ["id", "DESC"]
+    ],
+    offset: offset,
+    limit: limit + 1
+  });
+  const hasMoreVisits = found.length > limit;
+  const visits = found.slice(0, limit).map((visit) => new VisitResult(visit));
 
-  const devSummary = new DeviceSummary();
-  const filterOptions = models.Recording.makeFilterOptions(
-    request.user,
-    request.filterOptions
+  await classifyVisits(
+    visits,
+    request.query.tagPrecedence || "consensus",
+    request.user.id
   );
-  let numRecordings = 0;
-  let remainingVisits = requestVisits;
-  let totalCount, recordings, gotAllRecordings;
+  await addVisitAudioBait(visits);
+  const summary = new DeviceSummary();
+  const stationSummary = new StationSummary();
+  const recordingIds = new Set();
+  for (const visit of visits) {
+    summary.addVisit(visit);
+    stationSummary.addVisit(visit);
+    visit.events.forEach((event) => recordingIds.add(event.recID));
+  }
 
-  while (gotAllRecordings || remainingVisits > 0) {
-    if (totalCount) {
-      recordings = await models.Recording.findAll(builder.get());
-    } else {
-      const result = await models.Recording.findAndCountAll(builder.get());
-      totalCount = result.count;
-      recordings = result.rows;
-    }
+  let nextCursor = null;
+  if (hasMoreVisits) {
+    const last = visits[visits.length - 1];
+    nextCursor = models.Recording.queryBuilder.encodeCursor({
+      id: last.id,
+      recordingDateTime: last.start.toDate()
+    });
+  }
+  return {
+    visits: visits,
+    summary: summary,
+    stationSummary: stationSummary,
+    hasMoreVisits: hasMoreVisits,
+    numRecordings: recordingIds.size,
+    numVisits: visits.length,
+    nextCursor: nextCursor
+  };
+}
 
-    numRecordings += recordings.length;
-    gotAllRecordings = recordings.length + builder.query.offset >= recordings;
-    if (recordings.length == 0) {
-      break;
+// Classifies the visits from the current tags of their tracks, as seen by
+// the user.
+async function classifyVisits(
+  visits: VisitResult[],
+  precedence: TagPrecedence,
+  userId: UserId
+) {
+  const trackIds = new Set<TrackId>();
+  for (const visit of visits) {
+    visit.events.forEach((event) => trackIds.add(event.trackID));
+  }
+  const tags: TrackTag[] = await models.TrackTag.findAll({
+    where: { TrackId: Array.from(trackIds) },
+    attributes: [
+      "id",
+      "TrackId",
+      "what",
+      "automatic",
+      "confidence",
+      "data",
+      "UserId"
+    ],
+    order: [["id", "ASC"]]
+  });
+  const trackTags = new Map<TrackId, TrackTag[]>();
+  for (const tag of tags) {
+    if (!trackTags.has(tag.TrackId)) {
+      trackTags.set(tag.TrackId, []);
     }
+    trackTags.get(tag.TrackId).push(tag);
+  }
+  for (const visit of visits) {
+    visit.classify(trackTags, precedence, userId);
+  }
+}
 
-    for (const [i, rec] of recordings.entries()) {
-      rec.filterData(filterOptions);
-    }
-    devSummary.generateVisits(
-      recordings,
-      request.query.offset || 0,
-      gotAllRecordings,
-      request.user.id
+// What tagging a visit changed on one of its tracks.
+interface VisitTrackTagChange {
+  recordingId: RecordingId;
+  trackId: TrackId;
+  // The id of the tag added, or null if the user had already tagged the
+  // track as this.
+  trackTagId: TrackTagId | null;
+  // What the user's tags that were replaced were.
+  replaced: string[];
+}
+
+// Tags every track of the device's visit during the time span as the
+// user, replacing their existing animal tags. Fails unless the time span
+// covers exactly one visit.
+async function tagVisit(
+  user: User,
+  deviceId: DeviceId,
+  start: Date,
+  end: Date,
+  tag: { what: string; confidence: number; data: any }
+): Promise<{ visitId: VisitId; changes: VisitTrackTagChange[] }> {
+  const device = await models.Device.findByPk(deviceId, {
+    attributes: ["id", "GroupId"]
+  });
+  if (!device) {
+    throw new ClientError(`Could not find device ${deviceId}.`, 422);
+  }
+  if (
+    !user.hasGlobalWrite() &&
+    !(await user.isInGroup(device.GroupId)) &&
+    !(await user.canAccessDevice(deviceId))
+  ) {
+    throw new AuthorizationError(
+      "User does not have permission to tag this device's visits."
     );
+  }
+  const visits = await models.Visit.findAll({
+    where: {
+      groupedBy: "device",
+      DeviceId: deviceId,
+      start: { [Op.lte]: end },
+      end: { [Op.gte]: start }
+    },
+    attributes: ["id", "start", "end"],
+    include: [
+      {
+        model: models.VisitEvent,
+        attributes: ["RecordingId", "TrackId"],
+        include: [{ model: models.Track, attributes: ["id", "archivedAt"] }]
+      }
+    ]
+  });
+  if (visits.length == 0) {
+    throw new ClientError("No visit found for the device at that time.", 422);
+  }
+  if (visits.length > 1) {
+    throw new ClientError(
+      `The time span covers ${visits.length} visits, not one.`,
+      422
+    );
+  }
+  const visit = visits[0];
 
-    if (!gotAllRecordings) {
-      devSummary.checkForCompleteVisits();
+  // All of the visit's tracks are tagged or, if one fails, none are. Tracks
+  // archived or deleted since the visit was grouped are left out.
+  const events = visit.VisitEvents.filter(
+    (event) => event.Track && !event.Track.archivedAt
+  );
+  const changes: VisitTrackTagChange[] = await models.sequelize.transaction(
+    async (transaction: Transaction) => {
+      const tagged = [];
+      for (const event of events) {
+        const newTag = models.TrackTag.build({
+          what: tag.what,
+          confidence: tag.confidence,
+          automatic: false,
+          data: tag.data ? tag.data : "",
+          UserId: user.id,
+          TrackId: event.TrackId
+        }) as TrackTag;
+        const { added, replaced } = await models.Track.replaceTag(
+          event.TrackId,
+          newTag,
+          transaction
+        );
+        tagged.push({
+          recordingId: event.RecordingId,
+          trackId: event.TrackId,
+          trackTagId: added ? newTag.id : null,
+          replaced: replaced.map((replacedTag) => replacedTag.what)
+        });
+      }
+      return tagged;
     }
+  );
+  await regroupVisits(deviceId, moment(visit.start), moment(visit.end));
+  return { visitId: visit.id, changes };
+}
 
-    remainingVisits = requestVisits - devSummary.completeVisitsCount();
-    builder.query.limit = Math.min(remainingVisits * 2, queryMax);
-    builder.query.offset += recordings.length;
+// Adds the audio bait played by the visits' devices, and the names of the
+// files played, to the visits.
+async function addVisitAudioBait(visits: VisitResult[]) {
+  if (visits.length == 0) {
+    return;
   }
-
-  let queryOffset = 0;
-  // mark all as complete
-  if (gotAllRecordings) {
-    devSummary.markCompleted();
-  } else {
-    devSummary.removeIncompleteVisits();
+  const deviceIds = new Set<DeviceId>();
+  for (const visit of visits) {
+    visit.events.forEach((event) => deviceIds.add(event.deviceId));
   }
-  const audioFileIds = devSummary.allAudioFileIds();
-
-  const visits = devSummary.completeVisits();
-  visits.sort(function (a, b) {
-    return b.start > a.start ? 1 : -1;
+  const earliest = moment.min(visits.map((visit) => visit.start));
+  const latest = moment.max(visits.map((visit) => visit.end));
+  const audioEvents: Event[] = await models.Event.findAll({
+    where: {
+      DeviceId: [...deviceIds],
+      dateTime: {
+        [Op.between]: [
+          earliest.clone().subtract(1, "day").toISOString(),
+          latest.clone().add(1, "day").toISOString()
+        ]
+      }
+    },
+    include: [
+      {
+        model: models.DetailSnapshot,
+        as: "EventDetail",
+        required: true,
+        where: {
+          type: "audioBait"
+        },
+        attributes: ["details"]
+      }
+    ]
   });
-  // get the offset to use for future queries
-  queryOffset = devSummary.earliestIncompleteOffset();
-  if (queryOffset == null && visits.length > 0) {
-    queryOffset = visits[visits.length - 1].queryOffset + 1;
-  }
 
   // Bulk look up file details of played audio events.
+  const audioFileIds = new Set(
+    audioEvents.map((event) => event.EventDetail.details.fileId)
+  );
   const audioFileNames = new Map();
   for (const f of await models.File.getMultiple(Array.from(audioFileIds))) {
     audioFileNames[f.id] = f.details.name;
   }
-
-  // update the references in deviceMap
+  for (const audioEvent of audioEvents) {
+    audioEvent.dataValues.fileName =
+      audioFileNames[audioEvent.EventDetail.details.fileId];
+  }
   for (const visit of visits) {
-    for (const audioEvent of visit.audioBaitEvents) {
-      audioEvent.dataValues.fileName =
-        audioFileNames[audioEvent.EventDetail.details.fileId];
-    }
+    visit.addAudioBaitEvents(audioEvents);
   }
-  return {
-    visits: visits,
-    summary: devSummary,
-    hasMoreVisits: !gotAllRecordings,
-    totalRecordings: totalCount,
-    queryOffset: queryOffset,
-    numRecordings: numRecordings,
-    numVisits: visits.length
-  };
 }
 
 function reportDeviceVisits(deviceMap: DeviceVisitMap) {
@@ -857,6 +1948,9 @@ async function reportVisits(request) {
     "Visit ID",
     "Group",
     "Device",
+    "Station",
+    "Latitude",
+    "Longitude",
     "Type",
     "AssumedTag",
     "What",
@@ -867,7 +1961,10 @@ async function reportVisits(request) {
     "Confidence",
     "# Events",
     "Audio Played",
-    "URL"
+    "URL",
+    "Rules",
+    "Votes",
+    "Conflicting Human Tags"
   ]);
 
   for (const visit of results.visits) {
@@ -904,30 +2001,41 @@ async function reportVisits(request) {
       addAudioBaitRow(out, visit, audioEvent);
     }
   }
-  return out;
+  return { rows: out, nextCursor: results.nextCursor };
 }
 
-function addVisitRow(out, visit) {
+function addVisitRow(out, visit: VisitResult) {
   out.push([
-    visit.visitID.toString(),
-    visit.deviceName,
+    visit.id.toString(),
+    visit.deviceName || "",
     visit.groupName,
+    visit.stationName || "",
+    visit.stationLocation ? visit.stationLocation[0].toString() : "",
+    visit.stationLocation ? visit.stationLocation[1].toString() : "",
     "Visit",
-    visit.assumedTag,
+    visit.what,
     visit.what,
     "",
     visit.start.tz(config.timeZone).format("YYYY-MM-DD"),
     visit.start.tz(config.timeZone).format("HH:mm:ss"),
     visit.end.tz(config.timeZone).format("HH:mm:ss"),
-    "",
+    visit.confidence + "%",
     visit.events.length.toString(),
     visit.audioBaitVisit.toString(),
-    ""
+    "",
+    visit.rules.name,
+    Object.entries(visit.votes)
+      .map(([what, votes]) => `${what}:${votes}`)
+      .join(";"),
+    visit.conflictingHumanTags.toString()
   ]);
 }
 
 function addEventRow(out, visit, event, recordingUrlBase) {
   out.push([
+    "",
+    "",
+    "",
     "",
     "",
     "",
@@ -942,7 +2050,10 @@ function addEventRow(out, visit, event, recordingUrlBase) {
     event.confidence + "%",
     "",
     "",
-    urljoin(recordingUrlBase, event.recID.toString(), event.trackID.toString())
+    urljoin(recordingUrlBase, event.recID.toString(), event.trackID.toString()),
+    "",
+    "",
+    ""
   ]);
 }
 
@@ -952,6 +2063,9 @@ function addAudioBaitRow(out, visit, audioBait) {
     audioPlayed += " vol " + audioBait.EventDetail.details.volume;
   }
   out.push([
+    "",
+    "",
+    "",
     "",
     "",
     "",
@@ -965,13 +2079,24 @@ function addAudioBaitRow(out, visit, audioBait) {
     "",
     "",
     audioPlayed,
+    "",
+    "",
+    "",
     ""
   ]);
 }
 export default {
   makeUploadHandler,
+  createUploadSession,
+  getUploadSession,
+  uploadChunk,
+  finaliseUploadSession,
   query,
+  queryCount,
+  queryFacets,
+  archive,
   report,
+  queryForExport,
   get,
   delete_,
   addTag,
@@ -979,5 +2104,7 @@ export default {
   reprocessAll,
   tracksFromMeta,
   updateMetadata,
-  queryVisits
+  queryVisits,
+  tagVisit,
+  buildArtifactFromUpload
 };
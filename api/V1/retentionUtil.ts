@@ -0,0 +1,211 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { QueryTypes } from "sequelize";
+import log from "../../logging";
+import models from "../../models";
+import { Group, RetentionPolicy } from "../../models/Group";
+import { openStorage } from "../../models/util/storage";
+import { DeviceId } from "../../models/Device";
+import { regroupRecordingVisits } from "./Visits";
+
+type RetentionRule = keyof RetentionPolicy;
+
+export interface RetentionRuleReport {
+  afterDays: number;
+  recordings: number;
+  // Size of the raw files involved, where known.
+  rawBytes: number;
+}
+
+export type RetentionReport = Partial<
+  Record<RetentionRule, RetentionRuleReport>
+>;
+
+const BATCH_SIZE = 1000;
+
+const NOT_HUMAN_TAGGED = `NOT EXISTS (
+    SELECT 1 FROM "Tags" t
+    WHERE t."RecordingId" = r.id AND t.automatic IS NOT TRUE
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM "Tracks" tr JOIN "TrackTags" tt ON tt."TrackId" = tr.id
+    WHERE tr."RecordingId" = r.id AND tt.automatic IS NOT TRUE
+  )`;
+
+// The recordings of group :groupId that each rule applies to, given the
+// rule's number of :days.
+const RULE_CONDITIONS: Record<RetentionRule, string> = {
+  dropRawAfterProcessingDays: `r."GroupId" = :groupId
+    AND r.type = 'thermalRaw'
+    AND r."processingState" = 'FINISHED'
+    AND r."rawFileKey" IS NOT NULL
+    AND r."fileKey" IS NOT NULL
+    AND COALESCE(r."processingStartTime", r."createdAt") < now() - make_interval(days => :days)
+    AND ${NOT_HUMAN_TAGGED}`,
+  // Audio recordings never have tracks so are left alone.
+  deleteWithoutTracksAfterDays: `r."GroupId" = :groupId
+    AND r.type = 'thermalRaw'
+    AND r."processingState" = 'FINISHED'
+    AND COALESCE(r."recordingDateTime", r."createdAt") < now() - make_interval(days => :days)
+    AND NOT EXISTS (SELECT 1 FROM "Tracks" tr WHERE tr."RecordingId" = r.id)
+    AND NOT EXISTS (SELECT 1 FROM "Tags" t WHERE t."RecordingId" = r.id)
+    AND ${NOT_HUMAN_TAGGED}`
+};
+
+export const RETENTION_RULES = Object.keys(RULE_CONDITIONS) as RetentionRule[];
+
+function activeRules(group: Group): [RetentionRule, number][] {
+  const policy = group.retentionPolicy || {};
+  return RETENTION_RULES.filter((rule) => policy[rule] != null).map((rule) => [
+    rule,
+    policy[rule]
+  ]);
+}
+
+// Reports what applying the group's retention policy would remove, without
+// changing anything.
+async function reportRetention(group: Group): Promise<RetentionReport> {
+  const report: RetentionReport = {};
+  for (const [rule, days] of activeRules(group)) {
+    const [row]: any[] = await models.sequelize.query(
+      `SELECT count(*) AS recordings, COALESCE(sum(r."rawFileSize"), 0) AS "rawBytes"
+       FROM "Recordings" r
+       WHERE ${RULE_CONDITIONS[rule]}`,
+      {
+        replacements: { groupId: group.id, days },
+        type: QueryTypes.SELECT
+      }
+    );
+    report[rule] = {
+      afterDays: days,
+      recordings: Number(row.recordings),
+      rawBytes: Number(row.rawBytes)
+    };
+  }
+  return report;
+}
+
+// Applies the group's retention policy, returning the number of recordings
+// affected by each rule. Database rows are changed before their objects are
+// deleted so that a failure never leaves a recording without its files;
+// objects left behind show up as orphans in the storage audit. The visits of
+// deleted recordings are regrouped without them.
+async function applyRetention(
+  group: Group
+): Promise<Partial<Record<RetentionRule, number>>> {
+  const counts = {};
+  for (const [rule, days] of activeRules(group)) {
+    const replacements = { groupId: group.id, days, batchSize: BATCH_SIZE };
+    counts[rule] = 0;
+    for (;;) {
+      const batch =
+        rule == "dropRawAfterProcessingDays"
+          ? await dropRawFiles(RULE_CONDITIONS[rule], replacements)
+          : await deleteRecordings(RULE_CONDITIONS[rule], replacements);
+      if (batch.deleted.length > 0) {
+        await regroupRecordingVisits(batch.deleted);
+      }
+      await openStorage()
+        .deleteMany(batch.keys)
+        .catch((err) => {
+          log.warn(`Failed to delete objects for ${rule}: ${err.message}`);
+        });
+      counts[rule] += batch.recordings;
+      if (batch.recordings < BATCH_SIZE) {
+        break;
+      }
+    }
+  }
+  return counts;
+}
+
+// A batch of recordings a retention rule has been applied to.
+interface RetentionBatch {
+  recordings: number;
+  // Objects to delete.
+  keys: string[];
+  // Recordings deleted.
+  deleted: { DeviceId: DeviceId; recordingDateTime: Date | null }[];
+}
+
+async function dropRawFiles(
+  condition: string,
+  replacements
+): Promise<RetentionBatch> {
+  const rows: any[] = await models.sequelize.query(
+    `WITH batch AS (
+       SELECT r.id, r."rawFileKey" FROM "Recordings" r
+       WHERE ${condition}
+       ORDER BY r.id LIMIT :batchSize
+       FOR UPDATE
+     )
+     UPDATE "Recordings" SET "rawFileKey" = NULL
+     FROM batch WHERE "Recordings".id = batch.id
+     RETURNING batch."rawFileKey"`,
+    { replacements, type: QueryTypes.SELECT }
+  );
+  return {
+    recordings: rows.length,
+    keys: rows.map((row) => row.rawFileKey),
+    deleted: []
+  };
+}
+
+async function deleteRecordings(
+  condition: string,
+  replacements
+): Promise<RetentionBatch> {
+  // The artifacts are deleted along with their recordings, so their keys
+  // are collected by the same statement.
+  const rows: {
+    rawFileKey: string | null;
+    fileKey: string | null;
+    artifactKeys: string[];
+    DeviceId: DeviceId;
+    recordingDateTime: Date | null;
+  }[] = await models.sequelize.query(
+    `DELETE FROM "Recordings" WHERE id IN (
+       SELECT r.id FROM "Recordings" r
+       WHERE ${condition}
+       ORDER BY r.id LIMIT :batchSize
+     )
+     RETURNING "rawFileKey", "fileKey", "DeviceId", "recordingDateTime",
+       ARRAY(SELECT a."fileKey" FROM "Artifacts" a
+             WHERE a."RecordingId" = "Recordings".id) AS "artifactKeys"`,
+    { replacements, type: QueryTypes.SELECT }
+  );
+  const keys = [];
+  for (const row of rows) {
+    keys.push(...[row.rawFileKey, row.fileKey].filter((key) => key));
+    keys.push(...row.artifactKeys);
+  }
+  return {
+    recordings: rows.length,
+    keys,
+    deleted: rows.map(({ DeviceId, recordingDateTime }) => ({
+      DeviceId,
+      recordingDateTime
+    }))
+  };
+}
+
+export default {
+  reportRetention,
+  applyRetention
+};
@@ -18,13 +18,109 @@ along with this program.  If not, see <http://www.gnu.org/licenses/>.
 
 import middleware from "../middleware";
 import auth from "../auth";
-import stream from "stream";
-import config from "../../config";
 import log from "../../logging";
-import modelsUtil from "../../models/util/util";
-import responseUtil from "./responseUtil";
+import {
+  ByteRange,
+  ObjectInfo,
+  ObjectNotFoundError,
+  openStorage
+} from "../../models/util/storage";
 import { ClientError } from "../customErrors";
-import { Application } from "express";
+import { Application, Request } from "express";
+
+// Parses the Range header of a request for an object that is total bytes long.
+// Returns null when the whole object should be sent and "unsatisfiable" when
+// the requested range can't be served.
+function parseRange(
+  header: string | undefined,
+  total: number
+): ByteRange | null | "unsatisfiable" {
+  if (!header) {
+    return null;
+  }
+  const match = /^bytes=(.*)$/.exec(header.trim());
+  if (!match) {
+    // Not a byte range, ignore it.
+    return null;
+  }
+  const spec = match[1].trim();
+  if (spec.includes(",")) {
+    // Multipart responses aren't supported.
+    return "unsatisfiable";
+  }
+  const positions = /^(\d*)-(\d*)$/.exec(spec);
+  if (!positions || (positions[1] === "" && positions[2] === "")) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (positions[1] === "") {
+    // Suffix range: the last N bytes.
+    const length = parseInt(positions[2], 10);
+    if (length == 0) {
+      return "unsatisfiable";
+    }
+    start = Math.max(total - length, 0);
+    end = total - 1;
+  } else {
+    start = parseInt(positions[1], 10);
+    end = positions[2] === "" ? total - 1 : parseInt(positions[2], 10);
+    if (end < start) {
+      return null;
+    }
+    end = Math.min(end, total - 1);
+  }
+  if (start >= total) {
+    return "unsatisfiable";
+  }
+  return { start, end };
+}
+
+function etagMatches(header: string, etag: string): boolean {
+  const strip = (tag: string) => tag.trim().replace(/^W\//, "");
+  return header
+    .split(",")
+    .some((tag) => tag.trim() == "*" || strip(tag) == strip(etag));
+}
+
+// True if the If-Range header of a request still describes the object, so
+// the range can be sent. Following RFC 7233 it holds a single entity tag,
+// which must match strongly, or an HTTP date, which must match exactly.
+function ifRangeMatches(
+  header: string,
+  etag: string,
+  lastModified: Date
+): boolean {
+  const value = header.trim();
+  if (value.startsWith('"') || value.startsWith("W/")) {
+    return !etag.startsWith("W/") && value == etag;
+  }
+  const date = Date.parse(value);
+  // HTTP dates only have second precision.
+  return (
+    !isNaN(date) && Math.floor(lastModified.getTime() / 1000) * 1000 == date
+  );
+}
+
+// True if the client's cached copy (as described by the conditional request
+// headers) is still current.
+function isNotModified(
+  request: Request,
+  etag: string,
+  lastModified: Date
+): boolean {
+  const ifNoneMatch = request.headers["if-none-match"];
+  if (ifNoneMatch) {
+    return etagMatches(ifNoneMatch, etag);
+  }
+  const ifModifiedSince = Date.parse(request.headers["if-modified-since"]);
+  if (!isNaN(ifModifiedSince)) {
+    // HTTP dates only have second precision.
+    return Math.floor(lastModified.getTime() / 1000) * 1000 <= ifModifiedSince;
+  }
+  return false;
+}
 
 export default function (app: Application, baseUrl: string) {
   /**
@@ -36,6 +132,12 @@ export default function (app: Application, baseUrl: string) {
    * passed using a URL parameter or using the Authorization header
    * (as for other API endpoints).
    *
+   * The file is streamed from the object store. A single byte range may be
+   * requested using the Range header, requests for multiple ranges are
+   * rejected with a 416 response. ETag, Last-Modified and the matching
+   * conditional request headers are supported, and a HEAD request returns
+   * the headers without the file.
+   *
    * @apiParam {String} [jwt] the value of the downloadFileJWT field
    * from a successful [GetRecording](#api-Recordings-GetRecording)
    * request. Authentication using the Authorization header is also
@@ -46,6 +148,7 @@ export default function (app: Application, baseUrl: string) {
    * @apiUse V1ResponseError
    */
 
+  // NOTE: Express also routes HEAD requests here.
   app.get(
     `${baseUrl}/signedUrl`,
     [auth.signedUrl],
@@ -58,51 +161,73 @@ export default function (app: Application, baseUrl: string) {
         throw new ClientError("No key provided.");
       }
 
-      const s3 = modelsUtil.openS3();
-      const params = {
-        Bucket: config.s3.bucket,
-        Key: key
-      };
-
-      s3.getObject(params, function (err, data) {
-        if (err) {
-          log.error("Error with s3 getObject.");
-          log.error(err.stack);
-          return responseUtil.serverError(response, err);
+      const storage = openStorage();
+      let head: ObjectInfo;
+      try {
+        head = await storage.head(key);
+      } catch (err) {
+        if (err instanceof ObjectNotFoundError) {
+          throw new ClientError("File not found.", 404);
         }
+        throw err;
+      }
+      const total = head.size;
 
-        if (!request.headers.range) {
-          response.setHeader(
-            "Content-disposition",
-            "attachment; filename=" + filename
-          );
-          response.setHeader("Content-type", mimeType);
-          response.setHeader("Content-Length", data.ContentLength);
-          response.write(data.Body, "binary");
-          return response.end(null, "binary");
-        }
+      response.setHeader("Accept-Ranges", "bytes");
+      response.setHeader("ETag", head.etag);
+      response.setHeader("Last-Modified", head.lastModified.toUTCString());
+      response.setHeader(
+        "Content-disposition",
+        "attachment; filename=" + filename
+      );
+      response.setHeader("Content-type", mimeType);
+
+      if (isNotModified(request, head.etag, head.lastModified)) {
+        return response.status(304).end();
+      }
+
+      let range = parseRange(request.headers.range, total);
+      const ifRange = request.headers["if-range"];
+      if (
+        range &&
+        ifRange &&
+        !ifRangeMatches(ifRange, head.etag, head.lastModified)
+      ) {
+        // The client's partial copy is out of date, send the whole file.
+        range = null;
+      }
+      if (range === "unsatisfiable") {
+        response.setHeader("Content-Range", `bytes */${total}`);
+        return response.status(416).end();
+      }
 
-        const range = request.headers.range;
-        const positions = range.replace(/bytes=/, "").split("-");
-        const start = parseInt(positions[0], 10);
-        const total = (data.Body as Buffer).length;
-        const end = positions[1] ? parseInt(positions[1], 10) : total - 1;
-        const chunksize = end - start + 1;
-
-        const headers = {
-          "Content-Range": "bytes " + start + "-" + end + "/" + total,
-          "Content-Length": chunksize,
-          "Accept-Ranges": "bytes",
-          "Content-type": mimeType
-        };
-
-        response.writeHead(206, headers);
-
-        const bufStream = new stream.PassThrough();
-        const b2 = (data.Body as Buffer).slice(start, end + 1);
-        bufStream.end(b2);
-        bufStream.pipe(response);
+      if (range) {
+        response.status(206);
+        response.setHeader(
+          "Content-Range",
+          `bytes ${range.start}-${range.end}/${total}`
+        );
+        response.setHeader("Content-Length", range.end - range.start + 1);
+      } else {
+        response.status(200);
+        response.setHeader("Content-Length", total);
+      }
+
+      if (request.method == "HEAD" || total == 0) {
+        return response.end();
+      }
+
+      const body = storage.getStream(key, {
+        range,
+        // Make sure the object didn't change since the headers were sent.
+        ifMatch: head.etag
+      });
+      body.on("error", (err) => {
+        log.error(`Error streaming ${key} from the object store: ${err}`);
+        response.destroy(err);
       });
+      response.on("close", () => body.destroy());
+      body.pipe(response);
     })
   );
 }
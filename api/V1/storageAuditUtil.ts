@@ -0,0 +1,409 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Op, QueryTypes } from "sequelize";
+import log from "../../logging";
+import models from "../../models";
+import {
+  ObjectInfo,
+  ObjectNotFoundError,
+  ObjectStore,
+  openStorage
+} from "../../models/util/storage";
+
+// Prefixes of the object keys referred to by the Recordings, Artifacts and
+// Files tables.
+const AUDITED_PREFIXES = ["raw/", "rec/", "artifact/", "f/"];
+// Objects this new may belong to uploads that haven't been saved yet so
+// aren't reported as orphaned.
+const ORPHAN_GRACE_MINUTES = 60;
+// Orphaned keys beyond this many are only counted.
+const MAX_LISTED_KEYS = 1000;
+// Rows of each table read at a time.
+const PAGE_SIZE = 1000;
+
+export interface DanglingRecording {
+  id: number;
+  GroupId: number;
+  DeviceId: number;
+  // Columns referring to objects that don't exist.
+  missing: ("rawFileKey" | "fileKey")[];
+}
+
+export interface StorageUsage {
+  id: number;
+  name: string;
+  bytes: number;
+}
+
+export interface StorageAudit {
+  objects: { count: number; bytes: number };
+  danglingRecordings: DanglingRecording[];
+  danglingArtifacts: { id: number; RecordingId: number; fileKey: string }[];
+  danglingFiles: { id: number; fileKey: string }[];
+  orphanedObjects: { count: number; bytes: number; keys: string[] };
+  groups: (StorageUsage & { devices: StorageUsage[] })[];
+  // Bytes used by the Files table, which isn't owned by any group.
+  files: { count: number; bytes: number };
+  // Recordings whose fileMissing flag was set or cleared.
+  markedMissing: number;
+  unmarkedMissing: number;
+}
+
+// An audit run in the background for the admin API.
+export interface StorageAuditJob {
+  markMissing: boolean;
+  startedAt: Date;
+  finishedAt: Date | null;
+  audit: StorageAudit | null;
+  error: string | null;
+}
+
+// A database column referring to objects.
+type KeyColumn = "rawFileKey" | "fileKey" | "artifact" | "file";
+
+interface KeyReference {
+  column: KeyColumn;
+  key: string;
+  id: number;
+  // Only for recordings and artifacts.
+  RecordingId?: number;
+  GroupId?: number;
+  DeviceId?: number;
+  fileMissing?: boolean;
+}
+
+// Queries for each column's keys, which are read in the same order as the
+// object store lists them. Each has an index on (key COLLATE "C", id).
+const KEY_QUERIES: Record<
+  KeyColumn,
+  { key: string; id: string; sql: string }
+> = {
+  rawFileKey: {
+    key: 'r."rawFileKey"',
+    id: "r.id",
+    sql: `SELECT r."rawFileKey" AS key, r.id, r.id AS "RecordingId",
+       r."GroupId", r."DeviceId", r."fileMissing"
+     FROM "Recordings" r`
+  },
+  fileKey: {
+    key: 'r."fileKey"',
+    id: "r.id",
+    sql: `SELECT r."fileKey" AS key, r.id, r.id AS "RecordingId",
+       r."GroupId", r."DeviceId", r."fileMissing"
+     FROM "Recordings" r`
+  },
+  artifact: {
+    key: 'a."fileKey"',
+    id: "a.id",
+    sql: `SELECT a."fileKey" AS key, a.id, a."RecordingId",
+       r."GroupId", r."DeviceId"
+     FROM "Artifacts" a JOIN "Recordings" r ON r.id = a."RecordingId"`
+  },
+  file: {
+    key: 'f."fileKey"',
+    id: "f.id",
+    sql: `SELECT f."fileKey" AS key, f.id FROM "Files" f`
+  }
+};
+
+// Yields the keys in a column in order, reading a page at a time.
+async function* keyReferences(column: KeyColumn): AsyncIterable<KeyReference> {
+  const { key, id, sql } = KEY_QUERIES[column];
+  let after = { key: "", id: 0 };
+  for (;;) {
+    const page: KeyReference[] = await models.sequelize.query(
+      `${sql}
+       WHERE ${key} IS NOT NULL AND (${key} COLLATE "C", ${id}) > (:key, :id)
+       ORDER BY ${key} COLLATE "C", ${id}
+       LIMIT :pageSize`,
+      {
+        replacements: { ...after, pageSize: PAGE_SIZE },
+        type: QueryTypes.SELECT
+      }
+    );
+    for (const ref of page) {
+      yield { ...ref, column };
+    }
+    if (page.length < PAGE_SIZE) {
+      return;
+    }
+    after = { key: page[page.length - 1].key, id: page[page.length - 1].id };
+  }
+}
+
+// Yields the audited objects in key order.
+async function* listObjects(storage: ObjectStore): AsyncIterable<ObjectInfo> {
+  for (const prefix of [...AUDITED_PREFIXES].sort()) {
+    yield* storage.list(prefix);
+  }
+}
+
+// An iterator whose next value can be looked at before it is used.
+interface Cursor<T> {
+  value: T | null;
+  advance: () => Promise<void>;
+}
+
+async function openCursor<T>(iterable: AsyncIterable<T>): Promise<Cursor<T>> {
+  const iterator = iterable[Symbol.asyncIterator]();
+  const cursor: Cursor<T> = {
+    value: null,
+    advance: async () => {
+      const next = await iterator.next();
+      cursor.value = next.done ? null : next.value;
+    }
+  };
+  await cursor.advance();
+  return cursor;
+}
+
+// Compares the objects in the object store with the keys in the database,
+// reporting keys without objects, objects without keys and how many bytes
+// each group and device is using. With markMissing, recordings are flagged
+// with fileMissing to match what was found.
+//
+// The store listing and each table's keys are walked together in key order
+// so that neither has to be held in memory. Keys missing from the listing
+// are checked again before being reported, as their objects may have been
+// uploaded since it was read.
+async function auditStorage(
+  options: { markMissing?: boolean } = {}
+): Promise<StorageAudit> {
+  const storage = openStorage();
+  const objects = await openCursor(listObjects(storage));
+  const columns = await Promise.all(
+    (Object.keys(KEY_QUERIES) as KeyColumn[]).map((column) =>
+      openCursor(keyReferences(column))
+    )
+  );
+
+  const objectTotals = { count: 0, bytes: 0 };
+  const orphanedObjects = { count: 0, bytes: 0, keys: [] };
+  const graceStart = Date.now() - ORPHAN_GRACE_MINUTES * 60 * 1000;
+  // Whether anything refers to the object objects.value.
+  let referenced = false;
+  const nextObject = async () => {
+    const obj = objects.value;
+    objectTotals.count++;
+    objectTotals.bytes += obj.size;
+    if (!referenced && obj.lastModified.getTime() <= graceStart) {
+      orphanedObjects.count++;
+      orphanedObjects.bytes += obj.size;
+      if (orphanedObjects.keys.length < MAX_LISTED_KEYS) {
+        orphanedObjects.keys.push(obj.key);
+      }
+    }
+    referenced = false;
+    await objects.advance();
+  };
+
+  // Group id -> device id -> bytes, as a device's recordings stay with the
+  // group they were made in.
+  const usage = new Map<number, Map<number, number>>();
+  const addUsage = (groupId: number, deviceId: number, bytes: number) => {
+    if (!usage.has(groupId)) {
+      usage.set(groupId, new Map());
+    }
+    const devices = usage.get(groupId);
+    devices.set(deviceId, (devices.get(deviceId) || 0) + bytes);
+  };
+  const danglingRecordings = new Map<number, DanglingRecording>();
+  const danglingArtifacts = [];
+  const danglingFiles = [];
+  const files = { count: 0, bytes: 0 };
+  // Recordings that already have fileMissing set.
+  const flaggedMissing = new Set<number>();
+
+  for (;;) {
+    // Keys are compared the same way the store and database order them, as
+    // they are ASCII.
+    let next: Cursor<KeyReference> = null;
+    for (const column of columns) {
+      if (column.value && (!next || column.value.key < next.value.key)) {
+        next = column;
+      }
+    }
+    const ref = next && next.value;
+    // Objects before the next key aren't referred to by anything.
+    while (objects.value && (!ref || objects.value.key < ref.key)) {
+      await nextObject();
+    }
+    if (!ref) {
+      break;
+    }
+    await next.advance();
+
+    let obj: ObjectInfo = null;
+    if (objects.value && objects.value.key == ref.key) {
+      obj = objects.value;
+      referenced = true;
+    } else {
+      obj = await headObject(storage, ref.key);
+    }
+    if (ref.column == "file") {
+      if (obj) {
+        files.count++;
+        files.bytes += obj.size;
+      } else {
+        danglingFiles.push({ id: ref.id, fileKey: ref.key });
+      }
+      continue;
+    }
+    if (obj) {
+      addUsage(ref.GroupId, ref.DeviceId, obj.size);
+    } else if (ref.column == "artifact") {
+      danglingArtifacts.push({
+        id: ref.id,
+        RecordingId: ref.RecordingId,
+        fileKey: ref.key
+      });
+    } else {
+      if (!danglingRecordings.has(ref.id)) {
+        danglingRecordings.set(ref.id, {
+          id: ref.id,
+          GroupId: ref.GroupId,
+          DeviceId: ref.DeviceId,
+          missing: []
+        });
+      }
+      danglingRecordings.get(ref.id).missing.push(ref.column);
+    }
+    if (ref.column != "artifact" && ref.fileMissing) {
+      flaggedMissing.add(ref.id);
+    }
+  }
+
+  let [markedMissing, unmarkedMissing] = [0, 0];
+  if (options.markMissing) {
+    markedMissing = await markMissing(
+      [...danglingRecordings.keys()].filter((id) => !flaggedMissing.has(id)),
+      true
+    );
+    unmarkedMissing = await markMissing(
+      [...flaggedMissing].filter((id) => !danglingRecordings.has(id)),
+      false
+    );
+  }
+
+  return {
+    objects: objectTotals,
+    danglingRecordings: [...danglingRecordings.values()],
+    danglingArtifacts,
+    danglingFiles,
+    orphanedObjects,
+    groups: await usageByGroup(usage),
+    files,
+    markedMissing,
+    unmarkedMissing
+  };
+}
+
+// Returns the object's details, or null if it doesn't exist.
+async function headObject(
+  storage: ObjectStore,
+  key: string
+): Promise<ObjectInfo | null> {
+  try {
+    return await storage.head(key);
+  } catch (err) {
+    if (err instanceof ObjectNotFoundError) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+// Sets fileMissing to value on the given recordings.
+async function markMissing(ids: number[], value: boolean): Promise<number> {
+  if (ids.length == 0) {
+    return 0;
+  }
+  const [count] = await models.Recording.update(
+    { fileMissing: value },
+    { where: { id: { [Op.in]: ids } } }
+  );
+  log.info(`Set fileMissing to ${value} on ${count} recordings`);
+  return count;
+}
+
+async function usageByGroup(
+  usage: Map<number, Map<number, number>>
+): Promise<StorageAudit["groups"]> {
+  const [groups, devices] = await Promise.all([
+    models.Group.findAll({ attributes: ["id", "groupname"] }),
+    models.Device.findAll({ attributes: ["id", "devicename"] })
+  ]);
+  const deviceNames = new Map(devices.map((d) => [d.id, d.devicename]));
+  return groups
+    .filter((group) => usage.has(group.id))
+    .map((group) => {
+      const groupDevices = [...usage.get(group.id)].map(([id, bytes]) => ({
+        id,
+        name: deviceNames.get(id),
+        bytes
+      }));
+      return {
+        id: group.id,
+        name: group.groupname,
+        bytes: groupDevices.reduce((total, device) => total + device.bytes, 0),
+        devices: groupDevices
+      };
+    });
+}
+
+let lastJob: StorageAuditJob = null;
+
+// Starts auditing the object store in the background, unless an audit is
+// already running. Returns the new or running audit.
+function startAudit(options: { markMissing?: boolean } = {}): StorageAuditJob {
+  if (lastJob && !lastJob.finishedAt) {
+    return lastJob;
+  }
+  const job: StorageAuditJob = {
+    markMissing: Boolean(options.markMissing),
+    startedAt: new Date(),
+    finishedAt: null,
+    audit: null,
+    error: null
+  };
+  lastJob = job;
+  auditStorage(options).then(
+    (audit) => {
+      job.audit = audit;
+      job.finishedAt = new Date();
+    },
+    (err) => {
+      log.error(`Storage audit failed: ${err}`);
+      job.error = err.message;
+      job.finishedAt = new Date();
+    }
+  );
+  return job;
+}
+
+// Returns the running or most recent background audit, if any.
+function getAudit(): StorageAuditJob | null {
+  return lastJob;
+}
+
+export default {
+  auditStorage,
+  startAudit,
+  getAudit
+};
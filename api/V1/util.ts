@@ -19,17 +19,61 @@ along with this program.  If not, see <http://www.gnu.org/licenses/>.
 import moment from "moment";
 import uuidv4 from "uuid/v4";
 import multiparty from "multiparty";
+import crypto from "crypto";
+import { pipeline, Transform } from "stream";
 import log from "../../logging";
+import { ClientError } from "../customErrors";
 import responseUtil from "./responseUtil";
-import config from "../../config";
-import modelsUtil from "../../models/util/util";
+import { openStorage } from "../../models/util/storage";
+import { CptvHeaderReader } from "./cptvUtil";
 
-function multipartUpload(keyPrefix, buildRecord) {
+// Passes data through unchanged, recording its size and SHA-256 hash on the way.
+// With maxBytes, the stream fails once more than that has passed through.
+export class StreamDigest extends Transform {
+  bytes = 0;
+  private hash = crypto.createHash("sha256");
+
+  constructor(private maxBytes = Infinity) {
+    super();
+  }
+
+  _transform(chunk, encoding, callback) {
+    this.bytes += chunk.length;
+    if (this.bytes > this.maxBytes) {
+      callback(
+        new ClientError(`Data is larger than ${this.maxBytes} bytes.`, 413)
+      );
+      return;
+    }
+    this.hash.update(chunk);
+    callback(null, chunk);
+  }
+
+  digest(): string {
+    return this.hash.digest("hex");
+  }
+}
+
+function makeObjectKey(keyPrefix: string): string {
+  return keyPrefix + "/" + moment().format("YYYY/MM/DD/") + uuidv4();
+}
+
+// With readCptv, the file's CPTV header is read as it is uploaded and the
+// CptvHeaderReader is passed to buildRecord.
+function multipartUpload(
+  keyPrefix,
+  buildRecord,
+  respond = (response, dbRecord) =>
+    responseUtil.validRecordingUpload(response, dbRecord.id),
+  readCptv = false
+) {
   return (request, response) => {
-    const key = keyPrefix + "/" + moment().format("YYYY/MM/DD/") + uuidv4();
+    const key = makeObjectKey(keyPrefix);
     let data;
     let filename;
     let upload;
+    const fileDigest = new StreamDigest();
+    const cptvReader = readCptv ? new CptvHeaderReader() : null;
 
     // Note regarding multiparty: there are no guarantees about the
     // order that the field and part handlers will be called. You need
@@ -59,18 +103,24 @@ function multipartUpload(keyPrefix, buildRecord) {
       }
       filename = part.filename;
 
-      upload = modelsUtil
-        .openS3()
-        .upload({
-          Bucket: config.s3.bucket,
-          Key: key,
-          Body: part
-        })
-        .promise()
+      // pipeline() destroys the stream being uploaded if the part fails
+      // (e.g. the client disconnects) so that the upload fails too.
+      const logError = (err) => {
+        if (err) {
+          log.warn(`Upload of ${key} failed: ${err.message}`);
+        }
+      };
+      upload = openStorage()
+        .upload(
+          key,
+          cptvReader
+            ? pipeline(part, cptvReader, fileDigest, logError)
+            : pipeline(part, fileDigest, logError)
+        )
         .catch((err) => {
           return err;
         });
-      log.debug("Started streaming upload to bucket...");
+      log.debug("Started streaming upload to object store...");
     });
 
     // Handle any errors. If this is called, the close handler
@@ -111,52 +161,85 @@ function multipartUpload(keyPrefix, buildRecord) {
         data.filename = filename;
 
         // Store a record for the upload.
-        dbRecord = await buildRecord(request, data, key);
+        dbRecord = await buildRecord(
+          request,
+          data,
+          key,
+          fileDigest.digest(),
+          fileDigest.bytes,
+          cptvReader
+        );
         await dbRecord.validate();
         await dbRecord.save();
       } catch (err) {
-        responseUtil.serverError(response, err);
+        if (err instanceof ClientError) {
+          log.warn(err.toString());
+          responseUtil.send(response, {
+            statusCode: err.statusCode,
+            messages: [err.message]
+          });
+        } else {
+          responseUtil.serverError(response, err);
+        }
         return;
       }
-      responseUtil.validRecordingUpload(response, dbRecord.id);
+      respond(response, dbRecord);
     });
 
     form.parse(request);
   };
 }
 
-function getS3Object(fileKey) {
-  const s3 = modelsUtil.openS3();
-  const params = {
-    Bucket: config.s3.bucket,
-    Key: fileKey
-  };
-  return s3.headObject(params).promise();
-}
-
-async function getS3ObjectFileSize(fileKey) {
+async function getObjectFileSize(fileKey) {
   try {
-    const s3Ojb = await getS3Object(fileKey);
-    return s3Ojb.ContentLength;
+    const info = await openStorage().head(fileKey);
+    return info.size;
   } catch (err) {
     log.warn(
-      `Error retrieving S3 Object for with fileKey: ${fileKey}. Error was: ${err.message}`
+      `Error retrieving object with fileKey: ${fileKey}. Error was: ${err.message}`
     );
   }
 }
 
-async function deleteS3Object(fileKey) {
-  const s3 = modelsUtil.openS3();
-  const params = {
-    Bucket: config.s3.bucket,
-    Key: fileKey
-  };
-  return s3.deleteObject(params).promise();
+// Streams the objects at sourceKeys, in order, into a single new object and
+// returns the SHA-256 hash of the result. The result is also passed through
+// cptvReader if one is given.
+async function concatenateObjects(
+  sourceKeys: string[],
+  destKey: string,
+  cptvReader: CptvHeaderReader = null
+): Promise<string> {
+  const storage = openStorage();
+  const combined = new StreamDigest();
+  const upload = storage.upload(
+    destKey,
+    cptvReader ? cptvReader.pipe(combined) : combined
+  );
+  const input = cptvReader || combined;
+
+  try {
+    for (const key of sourceKeys) {
+      await new Promise((resolve, reject) => {
+        const part = storage.getStream(key);
+        part.on("error", reject);
+        part.on("end", resolve);
+        part.pipe(input, { end: false });
+      });
+    }
+    input.end();
+  } catch (err) {
+    if (cptvReader) {
+      cptvReader.destroy();
+    }
+    combined.destroy(err);
+  }
+  await upload;
+  return combined.digest();
 }
 
 export default {
-  getS3Object,
-  deleteS3Object,
-  getS3ObjectFileSize,
+  makeObjectKey,
+  concatenateObjects,
+  getObjectFileSize,
   multipartUpload
 };
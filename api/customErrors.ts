@@ -27,6 +27,9 @@ function errorHandler(err, request, response, next) {
   ) {
     err = new ClientError(err.message, 422); // Convert invalid JSON body error to UnprocessableEntity
   }
+  if (err instanceof QuotaExceededError) {
+    response.set("Retry-After", err.retryAfter.toString());
+  }
   if (err instanceof CustomError) {
     log.warn(err.toString());
     return response.status(err.statusCode).json(err.toJson());
@@ -108,10 +111,39 @@ export class ClientError extends CustomError {
   }
 }
 
+// An upload quota has been reached.  retryAfter is the number of seconds
+// until the quota resets.
+export class QuotaExceededError extends CustomError {
+  quota: string;
+  limit: number;
+  retryAfter: number;
+  constructor(
+    message: string,
+    quota: string,
+    limit: number,
+    retryAfter: number
+  ) {
+    super(message, 429);
+    this.quota = quota;
+    this.limit = limit;
+    this.retryAfter = retryAfter;
+  }
+
+  toJson() {
+    return {
+      ...super.toJson(),
+      quota: this.quota,
+      limit: this.limit,
+      retryAfter: this.retryAfter
+    };
+  }
+}
+
 export default {
   ValidationError,
   AuthenticationError,
   AuthorizationError,
   ClientError,
+  QuotaExceededError,
   errorHandler
 };
@@ -4,6 +4,8 @@ import log from "../../logging";
 import { body, param } from "express-validator/check";
 import models from "../../models";
 import recordingUtil from "../V1/recordingUtil";
+import util from "../V1/util";
+import { updateVisits } from "../V1/Visits";
 import { Response, Request, Application } from "express";
 
 export default function (app: Application) {
@@ -105,6 +107,8 @@ export default function (app: Application) {
       }
 
       await recording.save();
+      // Tracks and their tags may have changed.
+      await updateVisits(recording);
       return response.status(200).json({ messages: ["Processing finished."] });
     } else {
       recording.set("processingState", recording.processingState + ".failed");
@@ -309,6 +313,48 @@ export default function (app: Application) {
     })
   );
 
+  /**
+   * @api {post} /api/fileProcessing/:id/artifacts Add a preview image to a recording
+   * @apiName PostArtifact
+   * @apiGroup FileProcessing
+   *
+   * @apiDescription Uploads an image derived from the recording, such as a
+   * poster frame or a thumbnail of a track, for clients to show instead of
+   * downloading the recording. Recording queries return these with a
+   * downloadJWT for /api/v1/signedUrl. Uploading an artifact of the same
+   * type (and track) again replaces it.
+   *
+   * @apiParam {JSON} data Metadata about the image in JSON format:
+   * <ul>
+   * <li>type: "poster" or "trackThumbnail"</li>
+   * <li>trackId: the track a thumbnail is of</li>
+   * <li>(Optional) mimeType: worked out from the file name if not given</li>
+   * <li>(Optional) width and height: in pixels</li>
+   * </ul>
+   * @apiParam {File} file The image.
+   *
+   * @apiUse V1ResponseSuccess
+   * @apiSuccess {int} artifactId Id of the artifact.
+   *
+   * @apiUse V1ResponseError
+   */
+  app.post(
+    `${apiUrl}/:id/artifacts`,
+    [param("id").isInt().toInt()],
+    middleware.requestWrapper(
+      util.multipartUpload(
+        "artifact",
+        recordingUtil.buildArtifactFromUpload,
+        (response, artifact) =>
+          responseUtil.send(response, {
+            statusCode: 200,
+            messages: ["Artifact added."],
+            artifactId: artifact.id
+          })
+      )
+    )
+  );
+
   /**
    * @api {post} /algorithm Finds matching existing algorithm definition or adds a new one to the database
    * @apiName Algorithm
@@ -27,6 +27,13 @@ import models, { ModelStaticCommon } from "../models";
 import { format } from "util";
 import log from "../logging";
 import customErrors from "./customErrors";
+import { validateArea } from "../models/util/area";
+import {
+  FilterField,
+  RECORDING_FILTER_FIELDS,
+  TRACK_FILTER_FIELDS,
+  translateFilter
+} from "../models/util/filter";
 import { RequestHandler, Response } from "express";
 
 const getModelById = function <T>(
@@ -203,6 +210,18 @@ function getRecordingById(checkFunc: ValidationChainBuilder): ValidationChain {
   return getModelById(models.Recording, "id", checkFunc);
 }
 
+function getUploadSessionById(
+  checkFunc: ValidationChainBuilder
+): ValidationChain {
+  return getModelById(models.UploadSession, "uploadId", checkFunc);
+}
+
+function getSavedSearchById(
+  checkFunc: ValidationChainBuilder
+): ValidationChain {
+  return getModelById(models.SavedSearch, "id", checkFunc);
+}
+
 const checkNewName = function (field: string): ValidationChain {
   return body(field, "Invalid " + field)
     .isLength({ min: 3 })
@@ -246,6 +265,60 @@ const parseJSON = function (
   });
 };
 
+/**
+ * Extract and decode an area to filter by (see models/util/area.ts) from a
+ * JSON field.
+ */
+const parseArea = function (
+  field: string,
+  checkFunc: ValidationChainBuilder
+): ValidationChain {
+  return parseJSON(field, checkFunc).custom((value, { req, location, path }) =>
+    validateArea(req[location][path])
+  );
+};
+
+function parseFilter(
+  field: string,
+  checkFunc: ValidationChainBuilder,
+  fields: Readonly<Record<string, FilterField>>
+): ValidationChain {
+  return parseJSON(field, checkFunc).custom(
+    (value, { req, location, path }) => {
+      req[location][path] = translateFilter(
+        req[location][path],
+        fields,
+        req["user"].hasGlobalRead(),
+        path
+      );
+      return true;
+    }
+  );
+}
+
+/**
+ * Extract and decode a recordings filter (see models/util/filter.ts) from a
+ * JSON field, replacing it with the Sequelize where object it translates
+ * to. Must come after the user is authenticated.
+ */
+const parseRecordingFilter = function (
+  field: string,
+  checkFunc: ValidationChainBuilder
+): ValidationChain {
+  return parseFilter(field, checkFunc, RECORDING_FILTER_FIELDS);
+};
+
+/**
+ * As parseRecordingFilter, but for a filter on recordings' tracks and their
+ * tags.
+ */
+const parseTrackFilter = function (
+  field: string,
+  checkFunc: ValidationChainBuilder
+): ValidationChain {
+  return parseFilter(field, checkFunc, TRACK_FILTER_FIELDS);
+};
+
 /**
  * Extract and decode an array from the request object.
  * If the entry is a string, it will be converted to a proper array,
@@ -326,9 +399,14 @@ export default {
   getDetailSnapshotById,
   getFileById,
   getRecordingById,
+  getUploadSessionById,
+  getSavedSearchById,
   checkNewName,
   checkNewPassword,
   parseJSON,
+  parseArea,
+  parseRecordingFilter,
+  parseTrackFilter,
   parseArray,
   parseBool,
   requestWrapper,
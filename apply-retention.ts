@@ -0,0 +1,47 @@
+/*
+Applies each group's retention policy: dropping raw files of processed
+recordings and deleting recordings without tracks once they are old enough.
+Without --delete it only reports what would be removed.
+*/
+
+import process from "process";
+import { Op } from "sequelize";
+import log from "./logging";
+import models from "./models";
+import retentionUtil from "./api/V1/retentionUtil";
+const args = require("commander");
+
+async function main() {
+  args
+    .option("--config <path>", "Configuration file", "./config/app.js")
+    .option(
+      "--delete",
+      "Actually remove recordings and files (dry run by default)"
+    )
+    .parse(process.argv);
+
+  if (!args.delete) {
+    log.info("NOTE: nothing will be removed without --delete");
+  }
+
+  const groups = await models.Group.findAll({
+    where: { retentionPolicy: { [Op.ne]: null } }
+  });
+  log.info(`${groups.length} groups have retention policies`);
+
+  for (const group of groups) {
+    if (args.delete) {
+      const counts = await retentionUtil.applyRetention(group);
+      log.info(`${group.groupname}: ${JSON.stringify(counts)}`);
+    } else {
+      const report = await retentionUtil.reportRetention(group);
+      log.info(`${group.groupname} (dry run): ${JSON.stringify(report)}`);
+    }
+  }
+}
+
+main()
+  .catch(log.error)
+  .then(() => {
+    process.exit(0);
+  });
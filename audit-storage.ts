@@ -0,0 +1,66 @@
+/*
+Checks the object store against the database: recordings and files whose
+objects are missing, objects nothing refers to, and the bytes used by each
+group and device. With --mark-missing, recordings whose files are missing
+are flagged with fileMissing (and the flag is cleared from any that have
+been fixed).
+*/
+
+import process from "process";
+import log from "./logging";
+import storageAuditUtil from "./api/V1/storageAuditUtil";
+const args = require("commander");
+
+async function main() {
+  args
+    .option("--config <path>", "Configuration file", "./config/app.js")
+    .option("--mark-missing", "Flag recordings whose files are missing")
+    .option("--json", "Print the full report as JSON")
+    .parse(process.argv);
+
+  const audit = await storageAuditUtil.auditStorage({
+    markMissing: Boolean(args.markMissing)
+  });
+
+  if (args.json) {
+    console.log(JSON.stringify(audit, null, 2));
+    return;
+  }
+  log.info(`${audit.objects.count} objects using ${audit.objects.bytes} bytes`);
+  for (const group of audit.groups) {
+    log.info(`group ${group.name}: ${group.bytes} bytes`);
+    for (const device of group.devices) {
+      log.info(`  device ${device.name}: ${device.bytes} bytes`);
+    }
+  }
+  log.info(`files: ${audit.files.bytes} bytes`);
+  for (const rec of audit.danglingRecordings) {
+    log.info(`recording ${rec.id} is missing ${rec.missing.join(", ")}`);
+  }
+  for (const artifact of audit.danglingArtifacts) {
+    log.info(`artifact ${artifact.id} is missing ${artifact.fileKey}`);
+  }
+  for (const file of audit.danglingFiles) {
+    log.info(`file ${file.id} is missing ${file.fileKey}`);
+  }
+  for (const key of audit.orphanedObjects.keys) {
+    log.info(`orphaned object ${key}`);
+  }
+  log.info(
+    `${audit.danglingRecordings.length} recordings and ${audit.danglingFiles.length} files with missing objects`
+  );
+  log.info(
+    `${audit.orphanedObjects.count} orphaned objects using ${audit.orphanedObjects.bytes} bytes`
+  );
+  if (args.markMissing) {
+    log.info(
+      `fileMissing set on ${audit.markedMissing} recordings and cleared from ${audit.unmarkedMissing}`
+    );
+  }
+}
+
+main()
+  .catch(log.error)
+  .then(() => {
+    process.exit(0);
+  });
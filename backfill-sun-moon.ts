@@ -0,0 +1,65 @@
+/*
+Fills in when recordings uploaded before they were calculated on upload
+were made relative to sunrise and sunset, and the moon's phase and
+illumination then.
+*/
+
+import process from "process";
+import { Op } from "sequelize";
+import log from "./logging";
+import models from "./models";
+const args = require("commander");
+
+async function main() {
+  args
+    .option("--config <path>", "Configuration file", "./config/app.js")
+    .option("--batch-size <n>", "Recordings updated at a time", "1000")
+    .parse(process.argv);
+
+  const batchSize = Number(args.batchSize);
+  let lastId = 0;
+  let updated = 0;
+  for (;;) {
+    const recordings = await models.Recording.findAll({
+      where: {
+        id: { [Op.gt]: lastId },
+        recordingDateTime: { [Op.ne]: null },
+        moonPhase: null
+      },
+      attributes: [
+        "id",
+        "recordingDateTime",
+        "location",
+        "relativeToDawn",
+        "relativeToDusk"
+      ],
+      order: [["id", "ASC"]],
+      limit: batchSize
+    });
+    if (recordings.length == 0) {
+      break;
+    }
+    for (const recording of recordings) {
+      recording.calculateSunAndMoon();
+      await recording.save({
+        fields: [
+          "relativeToDawn",
+          "relativeToDusk",
+          "moonPhase",
+          "moonIllumination"
+        ],
+        silent: true
+      });
+    }
+    lastId = recordings[recordings.length - 1].id;
+    updated += recordings.length;
+    log.info(`updated ${updated} recordings`);
+  }
+  log.info(`done, ${updated} recordings updated`);
+}
+
+main()
+  .catch(log.error)
+  .then(() => {
+    process.exit(0);
+  });
@@ -0,0 +1,78 @@
+/*
+Groups the tracks of recordings made before visits were stored into
+visits, a device and a few days at a time. Also used to regroup a group's older
+visits after its visit rules are changed.
+*/
+
+import process from "process";
+import moment from "moment";
+import { Op } from "sequelize";
+import log from "./logging";
+import models from "./models";
+import { regroupVisits } from "./api/V1/Visits";
+const args = require("commander");
+
+async function main() {
+  args
+    .option("--config <path>", "Configuration file", "./config/app.js")
+    .option("--days <n>", "Days of recordings grouped at a time", "7")
+    .option("--group <name>", "Only group the visits of this group's devices")
+    .parse(process.argv);
+
+  const days = Number(args.days);
+  const where: any = {};
+  if (args.group) {
+    const group = await models.Group.findOne({
+      where: { groupname: args.group }
+    });
+    if (!group) {
+      log.error(`no group named ${args.group}`);
+      return;
+    }
+    where.GroupId = group.id;
+  }
+  const devices = await models.Device.findAll({
+    where,
+    attributes: ["id", "devicename"],
+    order: [["id", "ASC"]]
+  });
+  for (const device of devices) {
+    const where = {
+      DeviceId: device.id,
+      recordingDateTime: { [Op.ne]: null }
+    };
+    const first = await models.Recording.findOne({
+      where,
+      attributes: ["recordingDateTime"],
+      order: [["recordingDateTime", "ASC"]]
+    });
+    const last = await models.Recording.findOne({
+      where,
+      attributes: ["recordingDateTime"],
+      order: [["recordingDateTime", "DESC"]]
+    });
+    if (!first) {
+      continue;
+    }
+    const end = moment(last.recordingDateTime);
+    for (
+      let from = moment(first.recordingDateTime);
+      from <= end;
+      from.add(days, "days")
+    ) {
+      await regroupVisits(
+        device.id,
+        from.clone(),
+        from.clone().add(days, "days")
+      );
+    }
+    log.info(`grouped visits for ${device.devicename}`);
+  }
+  log.info(`done, ${devices.length} devices grouped`);
+}
+
+main()
+  .catch(log.error)
+  .then(() => {
+    process.exit(0);
+  });
@@ -24,8 +24,16 @@ const database = {
   dialect: "postgres"
 };
 
+const storage = {
+  // Where audio & video recordings and other files are stored. Either "s3"
+  // to use the s3 settings below, or "local" to store them in localPath on
+  // this server's disk.
+  driver: "s3",
+  localPath: "/var/lib/cacophony-api/objects"
+};
+
 const s3 = {
-  // Used for storing audio & video recordings.
+  // Used for storing audio & video recordings when the storage driver is "s3".
   publicKey: "", // REQUIRED, String:
   privateKey: "", // REQUIRED, String
   bucket: "cacophony", // REQUIRED, String
@@ -49,6 +57,7 @@ exports.smtpDetails = smtpDetails;
 exports.server = server;
 exports.fileProcessing = fileProcessing;
 exports.database = database;
+exports.storage = storage;
 exports.s3 = s3;
 
 // This is needed because Sequelize looks for development by default when using db:migrate
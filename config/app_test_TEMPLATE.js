@@ -10,8 +10,15 @@ const server = {
   }
 };
 
+const storage = {
+  // "local" keeps recordings on disk so tests don't need minio. Use "s3" to
+  // test against the s3 settings below.
+  driver: "local",
+  localPath: "/tmp/cacophony-objects"
+};
+
 const s3 = {
-  // Used for storing audio & video recordings.
+  // Used for storing audio & video recordings when the storage driver is "s3".
   publicKey: "REQUIRED", // obtain from S3 server.
   privateKey: "REQUIRED", // obtain from S3 server
   bucket: "cacophony",
@@ -41,6 +48,7 @@ const smtpDetails = {
 
 exports.smtpDetails = smtpDetails;
 exports.server = server;
+exports.storage = storage;
 exports.s3 = s3;
 exports.fileProcessing = fileProcessing;
 exports.database = database;
@@ -9,6 +9,10 @@ exports.server = {
   },
   recording_url_base: "http://test.site/recording"
 };
+exports.storage = {
+  driver: "local",
+  localPath: "/tmp/cacophony-objects"
+};
 exports.s3 = {
   publicKey: "minio",
   privateKey: "miniostorage",
@@ -40,6 +44,7 @@ exports.development = exports.database;
 exports.default = {
   smtpDetails: exports.smtpDetails,
   server: exports.server,
+  storage: exports.storage,
   s3: exports.s3,
   fileProcessing: exports.fileProcessing,
   database: exports.database
@@ -10,7 +10,7 @@ const { Client } = require("pg");
 const moment = require("moment");
 const uuidv4 = require("uuid/v4");
 const winston = require("winston");
-const modelsUtil = require("./models/util/util");
+const { openStorage } = require("./models/util/storage");
 
 // Define the types of object keys that will be considered for pruning.
 const keyTypes = Object.freeze([
@@ -33,7 +33,7 @@ async function main() {
   };
 
   const pgClient = await pgConnect();
-  const s3 = modelsUtil.openS3();
+  const storage = openStorage();
 
   for (const kt of keyTypes) {
     const rows = await loadDBKeys(pgClient, kt.table, kt.column);
@@ -43,9 +43,9 @@ async function main() {
         const newKey = makeKey(kt.prefix, dt);
         logger.info(`${kt.table}[${id}]: ${kt.column} "${key}" => "${newKey}"`);
         try {
-          await copyObject(s3, Config.s3.bucket, key, newKey);
+          await storage.copy(key, newKey);
           await updateDBKey(pgClient, kt.table, id, kt.column, newKey);
-          await deleteObject(s3, Config.s3.bucket, key);
+          await storage.delete(key);
         } catch (e) {
           logger.error(e.message);
         }
@@ -86,23 +86,6 @@ async function updateDBKey(client, table, id, column, newKey) {
   });
 }
 
-async function copyObject(s3, bucket, srcKey, dstKey) {
-  const params = {
-    CopySource: bucket + "/" + srcKey,
-    Bucket: bucket,
-    Key: dstKey
-  };
-  await s3.copyObject(params).promise();
-}
-
-async function deleteObject(s3, bucket, key) {
-  const params = {
-    Bucket: bucket,
-    Key: key
-  };
-  await s3.deleteObject(params).promise();
-}
-
 const logger = new winston.Logger({
   transports: [
     new winston.transports.Console({
@@ -0,0 +1,54 @@
+"use strict";
+const util = require("./util/util");
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    await queryInterface.createTable("UploadSessions", {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      data: {
+        allowNull: false,
+        type: Sequelize.JSONB
+      },
+      chunks: {
+        allowNull: false,
+        type: Sequelize.JSONB,
+        defaultValue: {}
+      },
+      expiresAt: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      createdAt: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updatedAt: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+
+    await util.migrationAddBelongsTo(
+      queryInterface,
+      "UploadSessions",
+      "Devices",
+      "strict"
+    );
+    await util.migrationAddBelongsTo(queryInterface, "UploadSessions", "Users");
+    await util.migrationAddBelongsTo(
+      queryInterface,
+      "UploadSessions",
+      "Recordings"
+    );
+    await queryInterface.addIndex("UploadSessions", ["expiresAt"]);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable("UploadSessions");
+  }
+};
@@ -0,0 +1,19 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    await queryInterface.addColumn("Recordings", "rawFileHash", {
+      type: Sequelize.STRING
+    });
+    // A device can only upload a given file once.
+    await queryInterface.addIndex("Recordings", ["DeviceId", "rawFileHash"], {
+      unique: true,
+      where: { rawFileHash: { [Sequelize.Op.ne]: null } }
+    });
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeIndex("Recordings", ["DeviceId", "rawFileHash"]);
+    await queryInterface.removeColumn("Recordings", "rawFileHash");
+  }
+};
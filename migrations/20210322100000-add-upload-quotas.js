@@ -0,0 +1,30 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    for (const table of ["Groups", "Devices"]) {
+      await queryInterface.addColumn(table, "recordingsPerDayQuota", {
+        type: Sequelize.INTEGER
+      });
+      await queryInterface.addColumn(table, "bytesPerMonthQuota", {
+        type: Sequelize.BIGINT
+      });
+    }
+    await queryInterface.addColumn("Recordings", "rawFileSize", {
+      type: Sequelize.BIGINT
+    });
+    // Usage against quotas is counted by upload time.
+    await queryInterface.addIndex("Recordings", ["DeviceId", "createdAt"]);
+    await queryInterface.addIndex("Recordings", ["GroupId", "createdAt"]);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeIndex("Recordings", ["GroupId", "createdAt"]);
+    await queryInterface.removeIndex("Recordings", ["DeviceId", "createdAt"]);
+    await queryInterface.removeColumn("Recordings", "rawFileSize");
+    for (const table of ["Groups", "Devices"]) {
+      await queryInterface.removeColumn(table, "bytesPerMonthQuota");
+      await queryInterface.removeColumn(table, "recordingsPerDayQuota");
+    }
+  }
+};
@@ -0,0 +1,13 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    await queryInterface.addColumn("Groups", "retentionPolicy", {
+      type: Sequelize.JSONB
+    });
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeColumn("Groups", "retentionPolicy");
+  }
+};
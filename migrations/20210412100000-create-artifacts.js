@@ -0,0 +1,52 @@
+"use strict";
+const util = require("./util/util");
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    await queryInterface.createTable("Artifacts", {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      type: {
+        allowNull: false,
+        type: Sequelize.STRING
+      },
+      fileKey: {
+        allowNull: false,
+        type: Sequelize.STRING
+      },
+      mimeType: {
+        allowNull: false,
+        type: Sequelize.STRING
+      },
+      width: Sequelize.INTEGER,
+      height: Sequelize.INTEGER,
+      createdAt: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updatedAt: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+
+    await util.migrationAddBelongsTo(
+      queryInterface,
+      "Artifacts",
+      "Recordings",
+      "strict"
+    );
+    await util.migrationAddBelongsTo(queryInterface, "Artifacts", "Tracks", {
+      cascade: true
+    });
+    await queryInterface.addIndex("Artifacts", ["RecordingId"]);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable("Artifacts");
+  }
+};
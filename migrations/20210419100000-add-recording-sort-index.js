@@ -0,0 +1,15 @@
+"use strict";
+
+// Matches the default order of recording queries so pages can be fetched
+// from a cursor without scanning the recordings before it.
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(
+      `CREATE INDEX "Recordings_sort_key" ON "Recordings" ((COALESCE("recordingDateTime", '1970-01-01'::timestamptz)), id)`
+    );
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.sequelize.query(`DROP INDEX "Recordings_sort_key"`);
+  }
+};
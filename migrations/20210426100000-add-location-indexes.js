@@ -0,0 +1,23 @@
+"use strict";
+
+// Area filters compare locations as WGS 84 points (see models/util/area.ts)
+// so index that rather than the stored [latitude, longitude] points.
+const tables = ["Recordings", "Stations"];
+
+module.exports = {
+  up: async (queryInterface) => {
+    for (const table of tables) {
+      await queryInterface.sequelize.query(
+        `CREATE INDEX "${table}_location_wgs84" ON "${table}" USING GIST ((ST_SetSRID(ST_FlipCoordinates(location), 4326)))`
+      );
+    }
+  },
+
+  down: async (queryInterface) => {
+    for (const table of tables) {
+      await queryInterface.sequelize.query(
+        `DROP INDEX "${table}_location_wgs84"`
+      );
+    }
+  }
+};
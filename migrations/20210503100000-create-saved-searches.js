@@ -0,0 +1,51 @@
+"use strict";
+const util = require("./util/util");
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    await queryInterface.createTable("SavedSearches", {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      name: {
+        allowNull: false,
+        type: Sequelize.STRING
+      },
+      query: {
+        allowNull: false,
+        type: Sequelize.JSONB
+      },
+      lastRuns: {
+        allowNull: false,
+        type: Sequelize.JSONB,
+        defaultValue: {}
+      },
+      createdAt: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updatedAt: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+
+    await util.migrationAddBelongsTo(
+      queryInterface,
+      "SavedSearches",
+      "Users",
+      "strict"
+    );
+    // Searches stop being shared when their group is deleted.
+    await util.migrationAddBelongsTo(queryInterface, "SavedSearches", "Groups");
+    await queryInterface.addIndex("SavedSearches", ["UserId"]);
+    await queryInterface.addIndex("SavedSearches", ["GroupId"]);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable("SavedSearches");
+  }
+};
@@ -0,0 +1,27 @@
+"use strict";
+
+// Text search (see models/util/textSearch.ts) matches these expressions so
+// they must stay the same as the ones it uses.
+const indexes = [
+  { table: "Recordings", column: "comment" },
+  { table: "Tags", column: "detail" },
+  { table: "TrackTags", column: "data" }
+];
+
+module.exports = {
+  up: async (queryInterface) => {
+    for (const { table, column } of indexes) {
+      await queryInterface.sequelize.query(
+        `CREATE INDEX "${table}_${column}_text" ON "${table}" USING GIN ((to_tsvector('english', "${column}")))`
+      );
+    }
+  },
+
+  down: async (queryInterface) => {
+    for (const { table, column } of indexes) {
+      await queryInterface.sequelize.query(
+        `DROP INDEX "${table}_${column}_text"`
+      );
+    }
+  }
+};
@@ -0,0 +1,17 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    await queryInterface.addColumn("Recordings", "moonPhase", {
+      type: Sequelize.FLOAT
+    });
+    await queryInterface.addColumn("Recordings", "moonIllumination", {
+      type: Sequelize.FLOAT
+    });
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeColumn("Recordings", "moonPhase");
+    await queryInterface.removeColumn("Recordings", "moonIllumination");
+  }
+};
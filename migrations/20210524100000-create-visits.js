@@ -0,0 +1,104 @@
+"use strict";
+const util = require("./util/util");
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    await queryInterface.createTable("Visits", {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      start: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      end: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      what: Sequelize.STRING,
+      createdAt: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updatedAt: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+    await util.migrationAddBelongsTo(
+      queryInterface,
+      "Visits",
+      "Devices",
+      "strict"
+    );
+    await util.migrationAddBelongsTo(
+      queryInterface,
+      "Visits",
+      "Groups",
+      "strict"
+    );
+    // Visits are read newest first and updated around a device's
+    // recordings.
+    await queryInterface.addIndex("Visits", ["start", "id"]);
+    await queryInterface.addIndex("Visits", ["DeviceId", "start"]);
+
+    await queryInterface.createTable("VisitEvents", {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      start: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      end: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      what: Sequelize.STRING,
+      confidence: Sequelize.FLOAT,
+      createdAt: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updatedAt: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+    await util.migrationAddBelongsTo(
+      queryInterface,
+      "VisitEvents",
+      "Visits",
+      "strict"
+    );
+    await util.migrationAddBelongsTo(
+      queryInterface,
+      "VisitEvents",
+      "Recordings",
+      "strict"
+    );
+    await util.migrationAddBelongsTo(
+      queryInterface,
+      "VisitEvents",
+      "Tracks",
+      "strict"
+    );
+    await queryInterface.addIndex("VisitEvents", ["VisitId"]);
+    await queryInterface.addIndex("VisitEvents", ["RecordingId"]);
+    // A track is only ever part of one visit.
+    await queryInterface.addIndex("VisitEvents", ["TrackId"], {
+      unique: true
+    });
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable("VisitEvents");
+    await queryInterface.dropTable("Visits");
+  }
+};
@@ -0,0 +1,17 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    await queryInterface.addColumn("Groups", "visitRules", {
+      type: Sequelize.JSONB
+    });
+    await queryInterface.addColumn("Visits", "rules", {
+      type: Sequelize.JSONB
+    });
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeColumn("Groups", "visitRules");
+    await queryInterface.removeColumn("Visits", "rules");
+  }
+};
@@ -0,0 +1,13 @@
+"use strict";
+const util = require("./util/util");
+
+module.exports = {
+  up: async (queryInterface) => {
+    await util.migrationAddBelongsTo(queryInterface, "Visits", "Stations");
+    await queryInterface.addIndex("Visits", ["StationId", "start"]);
+  },
+
+  down: async (queryInterface) => {
+    await util.migrationRemoveBelongsTo(queryInterface, "Visits", "Stations");
+  }
+};
@@ -0,0 +1,28 @@
+"use strict";
+
+// The storage audit (see api/V1/storageAuditUtil.ts) reads each of these
+// columns in the order the object store lists keys.
+const indexes = [
+  { table: "Recordings", column: "rawFileKey" },
+  { table: "Recordings", column: "fileKey" },
+  { table: "Artifacts", column: "fileKey" },
+  { table: "Files", column: "fileKey" }
+];
+
+module.exports = {
+  up: async (queryInterface) => {
+    for (const { table, column } of indexes) {
+      await queryInterface.sequelize.query(
+        `CREATE INDEX "${table}_${column}_key_order" ON "${table}" ("${column}" COLLATE "C", id)`
+      );
+    }
+  },
+
+  down: async (queryInterface) => {
+    for (const { table, column } of indexes) {
+      await queryInterface.sequelize.query(
+        `DROP INDEX "${table}_${column}_key_order"`
+      );
+    }
+  }
+};
@@ -0,0 +1,32 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    // Visits are grouped by device or, across devices, by station.
+    await queryInterface.addColumn("Visits", "groupedBy", {
+      type: Sequelize.STRING,
+      allowNull: false,
+      defaultValue: "device"
+    });
+    await queryInterface.sequelize.query(
+      'ALTER TABLE "Visits" ALTER COLUMN "DeviceId" DROP NOT NULL'
+    );
+    // A track is now part of a device visit and a station visit.
+    await queryInterface.removeIndex("VisitEvents", ["TrackId"]);
+    await queryInterface.addIndex("VisitEvents", ["TrackId"]);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.sequelize.query(
+      `DELETE FROM "Visits" WHERE "groupedBy" = 'station'`
+    );
+    await queryInterface.removeIndex("VisitEvents", ["TrackId"]);
+    await queryInterface.addIndex("VisitEvents", ["TrackId"], {
+      unique: true
+    });
+    await queryInterface.sequelize.query(
+      'ALTER TABLE "Visits" ALTER COLUMN "DeviceId" SET NOT NULL'
+    );
+    await queryInterface.removeColumn("Visits", "groupedBy");
+  }
+};
@@ -0,0 +1,14 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    // Set while a session is being finalised so it is only finalised once.
+    await queryInterface.addColumn("UploadSessions", "finalisingAt", {
+      type: Sequelize.DATE
+    });
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeColumn("UploadSessions", "finalisingAt");
+  }
+};
@@ -0,0 +1,125 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import log from "../logging";
+import Sequelize, { BuildOptions } from "sequelize";
+import { openStorage } from "./util/storage";
+import { ModelCommon, ModelStaticCommon } from "./index";
+import { RecordingId } from "./Recording";
+import { TrackId } from "./Track";
+
+export type ArtifactId = number;
+
+// Images derived from a recording by the file processing, so clients can
+// show a recording without downloading it. A poster belongs to the whole
+// recording and a thumbnail to one of its tracks.
+export type ArtifactType = "poster" | "trackThumbnail";
+
+export const ARTIFACT_TYPES: readonly ArtifactType[] = Object.freeze([
+  "poster",
+  "trackThumbnail"
+]);
+
+export interface Artifact extends Sequelize.Model, ModelCommon<Artifact> {
+  id: ArtifactId;
+  type: ArtifactType;
+  fileKey: string;
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+  RecordingId: RecordingId;
+  TrackId: TrackId | null;
+}
+
+export interface ArtifactStatic extends ModelStaticCommon<Artifact> {
+  new (values?: object, options?: BuildOptions): Artifact;
+}
+
+export default function (
+  sequelize: Sequelize.Sequelize,
+  DataTypes
+): ArtifactStatic {
+  const name = "Artifact";
+
+  const attributes = {
+    type: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        isIn: [[...ARTIFACT_TYPES]]
+      }
+    },
+    fileKey: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    mimeType: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    width: DataTypes.INTEGER,
+    height: DataTypes.INTEGER
+  };
+
+  const options = {
+    hooks: {
+      afterUpdate: afterUpdate
+    }
+  };
+
+  const Artifact = (sequelize.define(
+    name,
+    attributes,
+    options
+  ) as unknown) as ArtifactStatic;
+
+  Artifact.apiSettableFields = [];
+
+  // The fileKey is only handed out inside a download JWT.
+  Artifact.userGetAttributes = [
+    "id",
+    "type",
+    "mimeType",
+    "width",
+    "height",
+    "TrackId",
+    "fileKey"
+  ];
+
+  //---------------
+  // CLASS METHODS
+  //---------------
+
+  Artifact.addAssociations = function (models) {
+    models.Artifact.belongsTo(models.Recording);
+    models.Artifact.belongsTo(models.Track);
+  };
+
+  return Artifact;
+}
+
+// An upload of an artifact that already exists replaces its image, so the
+// object it replaced is no longer referred to.
+function afterUpdate(artifact: Artifact) {
+  const previousKey = artifact.previous("fileKey");
+  if (previousKey && previousKey != artifact.fileKey) {
+    openStorage()
+      .delete(previousKey)
+      .catch((err) => log.warn(err));
+  }
+}
@@ -19,11 +19,13 @@ import { format } from "util";
 import Sequelize, { FindOptions } from "sequelize";
 import { ModelCommon, ModelStaticCommon } from "./index";
 import { User, UserId } from "./User";
-import { Group, GroupStatic } from "./Group";
+import { Group, GroupId, GroupStatic } from "./Group";
 import { GroupUsersStatic } from "./GroupUsers";
 import { DeviceUsersStatic } from "./DeviceUsers";
 import { ScheduleId } from "./Schedule";
 import { Event } from "./Event";
+import { RecordingStatic } from "./Recording";
+import { Area, areaSql, locationSql } from "./util/area";
 
 const Op = Sequelize.Op;
 export type DeviceId = number;
@@ -38,6 +40,10 @@ export interface Device extends Sequelize.Model, ModelCommon<Device> {
   addUser: (userId: UserId, options: any) => any;
   devicename: string;
   groupname: string;
+  GroupId: GroupId;
+  public: boolean;
+  recordingsPerDayQuota: number | null;
+  bytesPerMonthQuota: string | null;
   password?: string;
   comparePassword: (password: string) => Promise<boolean>;
   reregister: (
@@ -56,7 +62,7 @@ export interface DeviceStatic extends ModelStaticCommon<Device> {
     userToAdd: User,
     admin: boolean
   ) => Promise<boolean>;
-  allForUser: (user: User, onlyActive: boolean) => Promise<{ rows: Device[]; count: number }>;
+  allForUser: (user: User, onlyActive: boolean, area?: Area) => Promise<{ rows: Device[]; count: number }>;
   removeUserFromDevice: (
     authUser: User,
     device: Device,
@@ -142,6 +148,13 @@ export default function (
       type: DataTypes.BOOLEAN,
       defaultValue: true,
       allowNull: false
+    },
+    // Upload limits for the device, null for no limit.
+    recordingsPerDayQuota: {
+      type: DataTypes.INTEGER
+    },
+    bytesPerMonthQuota: {
+      type: DataTypes.BIGINT
     }
   };
 
@@ -259,18 +272,50 @@ export default function (
     });
   };
 
-  Device.allForUser = async function (user, onlyActive: boolean) {
+  Device.allForUser = async function (
+    user,
+    onlyActive: boolean,
+    area?: Area
+  ) {
     const includeData = [
       {
         model: models.User,
         attributes: ["id", "username"]
       }
     ];
-    const includeOnlyActiveDevices = onlyActive ? { active: true } : null;
+    const conditions = [];
+    if (onlyActive) {
+      conditions.push({ active: true });
+    }
+    if (area) {
+      conditions.push(Sequelize.literal(lastLocationInArea(user, area)));
+    }
 
-    return this.onlyUsersDevicesMatching(user, includeOnlyActiveDevices, includeData);
+    return this.onlyUsersDevicesMatching(
+      user,
+      conditions.length ? { [Op.and]: conditions } : null,
+      includeData
+    );
   };
 
+  // Devices don't store where they are, so they are located by their most
+  // recent recording that has a location. Users without global write access
+  // only see reduced precision locations so are matched against those.
+  function lastLocationInArea(user: User, area: Area): string {
+    const precision = user.hasGlobalWrite()
+      ? null
+      : (models.Recording as RecordingStatic).makeFilterOptions(user)
+          .latLongPrec;
+    return `EXISTS (
+      SELECT 1 FROM (
+        SELECT r.location FROM "Recordings" r
+        WHERE r."DeviceId" = "Device".id AND r.location IS NOT NULL
+        ORDER BY r."recordingDateTime" DESC NULLS LAST LIMIT 1
+      ) last
+      WHERE ${areaSql(area, locationSql("last.location", precision))}
+    )`;
+  }
+
   Device.newUserPermissions = function (enabled) {
     return {
       canListUsers: enabled,
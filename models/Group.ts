@@ -26,11 +26,43 @@ import {
   MIN_STATION_SEPARATION_METERS,
   tryToMatchRecordingToStation
 } from "../api/V1/recordingUtil";
+import {regroupRecordingVisits} from "../api/V1/Visits";
 import {AuthorizationError} from "../api/customErrors";
 import {Device} from "./Device";
 
 export type GroupId = number;
 
+// How long a group's recordings are kept for. Unset rules are not applied.
+// Recordings tagged by a person are always kept in full.
+export interface RetentionPolicy {
+  // Delete the raw file of a processed thermal recording this many days
+  // after it was processed, keeping the mp4.
+  dropRawAfterProcessingDays?: number | null;
+  // Delete processed recordings with no tracks or tags this many days after
+  // they were recorded.
+  deleteWithoutTracksAfterDays?: number | null;
+}
+
+// How a group's tracks are grouped into visits. Unset values fall back to
+// the species' override, then the group's value, then the defaults in
+// api/V1/Visits.ts.
+export interface VisitRules {
+  // Longest gap between the tracks of a visit.
+  eventGapSeconds?: number;
+  // How long before a visit starts that audio bait played counts as
+  // attracting it.
+  audioBaitSeconds?: number;
+  // Tracks tagged as one of these are left out of visits.
+  ignoreTags?: string[];
+  // Overrides for visits of a species, keyed by what they are tagged as.
+  species?: Record<string, VisitSpeciesRules>;
+}
+
+export interface VisitSpeciesRules {
+  eventGapSeconds?: number;
+  audioBaitSeconds?: number;
+}
+
 const retireMissingStations = (
   existingStations: Station[],
   newStationsByName: Record<string, CreateStationData>,
@@ -167,6 +199,11 @@ const updateExistingRecordingsForGroupWithMatchingStationsFromDate = async (
 
 export interface Group extends Sequelize.Model, ModelCommon<Group> {
   id: GroupId;
+  groupname: string;
+  recordingsPerDayQuota: number | null;
+  bytesPerMonthQuota: string | null;
+  retentionPolicy: RetentionPolicy | null;
+  visitRules: VisitRules | null;
   addUser: (userToAdd: User, through: any) => Promise<void>;
   addStation: (stationToAdd: CreateStationData) => Promise<void>;
   getUsers: (options?: { where?: any, attributes?: string[] }) => Promise<User[]>;
@@ -212,6 +249,19 @@ export default function (sequelize, DataTypes): GroupStatic {
     groupname: {
       type: DataTypes.STRING,
       unique: true
+    },
+    // Upload limits for the group's devices combined, null for no limit.
+    recordingsPerDayQuota: {
+      type: DataTypes.INTEGER
+    },
+    bytesPerMonthQuota: {
+      type: DataTypes.BIGINT
+    },
+    retentionPolicy: {
+      type: DataTypes.JSONB
+    },
+    visitRules: {
+      type: DataTypes.JSONB
     }
   };
 
@@ -382,6 +432,9 @@ export default function (sequelize, DataTypes): GroupStatic {
         allStations
       );
       updatedRecordings = await Promise.all(updatedRecordings);
+      // The station visits of the matched recordings, and the stations of their
+      // device visits, may change.
+      await regroupRecordingVisits(updatedRecordings.map(({ recording }) => recording));
     }
     const result: {
       stationIdsAddedOrUpdated: StationId[],
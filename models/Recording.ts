@@ -18,12 +18,19 @@ along with this program.  If not, see <http://www.gnu.org/licenses/>.
 import log from "../logging";
 import mime from "mime";
 import moment from "moment-timezone";
-import Sequelize, { FindOptions, Includeable, Order } from "sequelize";
+import Sequelize, {
+  FindOptions,
+  Includeable,
+  Order,
+  QueryTypes,
+  WhereOptions
+} from "sequelize";
 import assert from "assert";
 import uuidv4 from "uuid/v4";
 import config from "../config";
 import util from "./util/util";
 import validation from "./util/validation";
+import { openStorage } from "./util/storage";
 import { AuthorizationError } from "../api/customErrors";
 import _ from "lodash";
 import { User } from "./User";
@@ -40,6 +47,10 @@ import { Track, TrackId } from "./Track";
 import jsonwebtoken from "jsonwebtoken";
 import { TrackTag } from "./TrackTag";
 import { CreateStationData, Station, StationId } from "./Station";
+import { Artifact, ArtifactStatic } from "./Artifact";
+import { Area, areaSql, locationSql } from "./util/area";
+import { textMatchSql, textQuerySql, textRankSql } from "./util/textSearch";
+import { moonIllumination, relativeToSun } from "./util/sunMoon";
 import {
   latLngApproxDistance,
   MAX_DISTANCE_FROM_STATION_FOR_RECORDING,
@@ -104,6 +115,11 @@ interface RecordingQueryBuilder {
     order?: Order
   ) => Promise<RecordingQueryBuilderInstance>;
   handleTagMode: (tagMode: TagMode, tagWhatsIn: string[]) => SqlString;
+  encodeCursor: (recording: {
+    id: RecordingId;
+    recordingDateTime: Date | string | null;
+  }) => string;
+  decodeCursor: (cursor: string) => RecordingCursor | null;
   recordingTaggedWith: (tagModes: string[], any) => SqlString;
   trackTaggedWith: (tags: string[], sql: SqlString) => SqlString;
   notTagOfType: (tags: string[], sql: SqlString) => SqlString;
@@ -115,16 +131,30 @@ interface RecordingQueryBuilder {
   ) => any;
 }
 
-interface RecordingQueryBuilderInstance {
+export interface RecordingQueryBuilderInstance {
   addAudioEvents: (
     before?: string,
     after?: string
   ) => RecordingQueryBuilderInstance;
   get: () => FindOptions;
   addColumn: (name: string) => RecordingQueryBuilderInstance;
+  addCursor: (cursor: string) => RecordingQueryBuilderInstance;
+  addArea: (area: Area, precision?: number) => RecordingQueryBuilderInstance;
+  addTrackFilter: (filter: WhereOptions) => RecordingQueryBuilderInstance;
+  addTextSearch: (text: string, rank: boolean) => RecordingQueryBuilderInstance;
+  whereSql: () => string;
+  count: () => Promise<number>;
+  estimateCount: () => Promise<number>;
   query: any;
 }
 
+// Where a page of query results in the default order ended. Recordings
+// without a recordingDateTime sort as if they were made in 1970.
+export interface RecordingCursor {
+  recordingDateTime: string;
+  id: RecordingId;
+}
+
 export interface SpeciesClassification {
   end_s: number;
   begin_s: number;
@@ -190,6 +220,13 @@ export interface RecordingProcessingMetadata {
   // Only set during recording processing?
 }
 
+// The value uploaded with a recording and the value read from its file, for
+// each field where they disagree.
+export type MetadataDiscrepancies = Record<
+  string,
+  { declared: any; file: any }
+>;
+
 // TODO(jon): Express audio and video recordings differently.  Recording<Audio>, Recording<Video>
 export interface Recording extends Sequelize.Model, ModelCommon<Recording> {
   // Recording columns.
@@ -200,12 +237,19 @@ export interface Recording extends Sequelize.Model, ModelCommon<Recording> {
   location?: { coordinates: [number, number] };
   relativeToDawn: number;
   relativeToDusk: number;
+  moonPhase: number | null;
+  moonIllumination: number | null;
   version: string;
   additionalMetadata: AudioRecordingMetadata | VideoRecordingMetadata;
+  metadataDiscrepancies: MetadataDiscrepancies | null;
   comment: string;
   public: boolean;
   rawFileKey: string;
+  rawFileHash: string | null;
+  rawFileSize: number | null;
   rawMimeType: string;
+  // Set by the storage audit when one of the recording's files can't be found.
+  fileMissing: boolean;
   fileKey: string;
   fileMimeType: string;
   processingStartTime: string;
@@ -222,6 +266,11 @@ export interface Recording extends Sequelize.Model, ModelCommon<Recording> {
   StationId: StationId;
   // Recording columns end
 
+  // NOTE: Included when a recording is looked up for a user, which leaves
+  //  out DeviceId.
+  Device?: Device;
+  Artifacts?: Artifact[];
+
   getFileBaseName: () => string;
   getRawFileName: () => string;
   getFileName: () => string;
@@ -236,6 +285,7 @@ export interface Recording extends Sequelize.Model, ModelCommon<Recording> {
   reprocess: (user: User) => Promise<Recording>;
   mergeUpdate: (updates: any) => Promise<void>;
   filterData: (options: any) => void;
+  calculateSunAndMoon: () => void;
   // NOTE: Implicitly created by sequelize associations (along with other
   //  potentially undocumented extension methods).
   getTrack: (id: TrackId) => Promise<Track | null>;
@@ -317,6 +367,25 @@ export interface RecordingStatic extends ModelStaticCommon<Recording> {
 }
 
 const Op = Sequelize.Op;
+
+// The parts of Sequelize's query generator used to turn where options into
+// SQL. Sequelize has no public API for this, but raw queries that filter
+// recordings the same way as a find need it, so the internal generator is
+// used. It isn't in the typings, so only what's needed is declared here.
+interface WhereQueryGenerator {
+  whereQuery(
+    where: WhereOptions,
+    options?: { model?: Sequelize.ModelCtor<any>; prefix?: string }
+  ): string;
+  whereItemsQuery(where: WhereOptions): string;
+}
+
+function whereQueryGenerator(
+  sequelize: Sequelize.Sequelize
+): WhereQueryGenerator {
+  return (sequelize.getQueryInterface() as any).QueryGenerator;
+}
+
 export default function (
   sequelize: Sequelize.Sequelize,
   DataTypes
@@ -335,10 +404,16 @@ export default function (
         isLatLon: validation.isLatLon
       }
     },
+    // Seconds after the nearest sunrise and sunset, negative if before.
     relativeToDawn: DataTypes.INTEGER,
     relativeToDusk: DataTypes.INTEGER,
+    // See models/util/sunMoon.ts.
+    moonPhase: DataTypes.FLOAT,
+    moonIllumination: DataTypes.FLOAT,
     version: DataTypes.STRING,
     additionalMetadata: DataTypes.JSONB,
+    // Where the metadata uploaded with the recording disagrees with its file.
+    metadataDiscrepancies: DataTypes.JSONB,
     comment: DataTypes.STRING,
     public: {
       type: DataTypes.BOOLEAN,
@@ -347,7 +422,14 @@ export default function (
 
     // Raw file data.
     rawFileKey: DataTypes.STRING,
+    rawFileHash: DataTypes.STRING,
+    rawFileSize: DataTypes.BIGINT,
     rawMimeType: DataTypes.STRING,
+    // Set by audit-storage when the raw or processed file can't be found.
+    fileMissing: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false
+    },
 
     // Processing fields. Fields set by and for the processing.
     fileKey: DataTypes.STRING,
@@ -386,6 +468,7 @@ export default function (
     models.Recording.belongsTo(models.Station);
     models.Recording.hasMany(models.Tag);
     models.Recording.hasMany(models.Track);
+    models.Recording.hasMany(models.Artifact);
   };
 
   Recording.isValidTagMode = function (mode: TagMode) {
@@ -703,17 +786,11 @@ from (
     // the JWT token for it.
     let ContentLength = 0;
     try {
-      const s3 = util.openS3();
-      const s3Data = await s3
-        .headObject({
-          Bucket: config.s3.bucket,
-          Key: flattenedResult.fileKey
-        })
-        .promise();
-      ContentLength = s3Data.ContentLength;
+      const info = await openStorage().head(flattenedResult.fileKey);
+      ContentLength = info.size;
     } catch (err) {
       log.warn(
-        "Error retrieving S3 Object for recording",
+        "Error retrieving object for recording",
         err.message,
         flattenedResult.fileKey
       );
@@ -868,6 +945,28 @@ from (
     return "";
   };
 
+  // Works out when the recording was made relative to sunrise and sunset,
+  // unless the device said, and the moon's phase and illumination then.
+  Recording.prototype.calculateSunAndMoon = function () {
+    if (!this.recordingDateTime) {
+      return;
+    }
+    const time = new Date(this.recordingDateTime);
+    const moon = moonIllumination(time);
+    this.moonPhase = moon.phase;
+    this.moonIllumination = moon.fraction;
+    if (
+      this.location &&
+      this.relativeToDawn == null &&
+      this.relativeToDusk == null
+    ) {
+      const [lat, lng] = this.location.coordinates;
+      const { relativeToDawn, relativeToDusk } = relativeToSun(time, lat, lng);
+      this.relativeToDawn = relativeToDawn;
+      this.relativeToDusk = relativeToDusk;
+    }
+  };
+
   Recording.prototype.filterData = function (options: { latLongPrec: any }) {
     if (this.location) {
       this.location.coordinates = reduceLatLonPrecision(
@@ -1079,6 +1178,12 @@ from (
         model: models.Device,
         where: {},
         attributes: ["devicename", "id"]
+      },
+      {
+        model: models.Artifact,
+        attributes: [...(models.Artifact as ArtifactStatic).userGetAttributes],
+        // Fetched separately as joining them with the tracks multiplies rows.
+        separate: true
       }
     ];
   }
@@ -1267,10 +1372,135 @@ from (
     return parts.join(" OR ");
   };
 
+  const NO_RECORDING_DATE_TIME = "1970-01-01T00:00:00.000Z";
+
+  // Cursors are opaque to clients so the sort key can change without
+  // breaking them.
+  Recording.queryBuilder.encodeCursor = (recording) => {
+    const recordingDateTime = recording.recordingDateTime
+      ? new Date(recording.recordingDateTime).toISOString()
+      : NO_RECORDING_DATE_TIME;
+    return Buffer.from(JSON.stringify([recordingDateTime, recording.id]))
+      .toString("base64")
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_")
+      .replace(/=+$/, "");
+  };
+
+  Recording.queryBuilder.decodeCursor = (cursor) => {
+    try {
+      const [recordingDateTime, id] = JSON.parse(
+        Buffer.from(cursor, "base64").toString()
+      );
+      if (isNaN(Date.parse(recordingDateTime)) || !Number.isInteger(id)) {
+        return null;
+      }
+      return { recordingDateTime, id };
+    } catch (e) {
+      return null;
+    }
+  };
+
+  // Only include recordings that come after the cursor in the default
+  // order. The cursor's recording is looked up so that recordingDateTimes
+  // more precise than the cursor's are compared exactly, falling back to
+  // the cursor's copy if the recording has since been deleted.
+  Recording.queryBuilder.prototype.addCursor = function (cursor: string) {
+    const { recordingDateTime, id } = Recording.queryBuilder.decodeCursor(
+      cursor
+    );
+    const sortKey = `COALESCE("recordingDateTime", '1970-01-01')`;
+    const cursorId = sequelize.escape(id);
+    const cursorTime = `COALESCE(
+      (SELECT ${sortKey} FROM "Recordings" WHERE id = ${cursorId}),
+      ${sequelize.escape(recordingDateTime)}
+    )`;
+    this.query.where[Op.and].push(
+      Sequelize.literal(
+        `(${sortKey}, "Recording"."id") < (${cursorTime}, ${cursorId})`
+      )
+    );
+    this.query.offset = 0;
+    return this;
+  };
+
+  // Only include recordings made within area. Non-admin users see locations
+  // at a reduced precision so are filtered by those too.
+  Recording.queryBuilder.prototype.addArea = function (
+    area: Area,
+    precision?: number
+  ) {
+    const location = locationSql('"Recording"."location"', precision);
+    this.query.where[Op.and].push(Sequelize.literal(areaSql(area, location)));
+    return this;
+  };
+
+  // Only matches recordings with a track that, with one of its tags if
+  // it has any, matches filter. See TRACK_FILTER_FIELDS.
+  Recording.queryBuilder.prototype.addTrackFilter = function (
+    filter: WhereOptions
+  ) {
+    const conditions = whereQueryGenerator(sequelize).whereItemsQuery(filter);
+    this.query.where[Op.and].push(
+      Sequelize.literal(`EXISTS (
+        SELECT 1 FROM "Tracks" AS "Track"
+        LEFT JOIN "TrackTags" AS "TrackTag" ON "TrackTag"."TrackId" = "Track".id
+        LEFT JOIN "DetailSnapshots" AS "Algorithm" ON "Algorithm".id = "Track"."AlgorithmId"
+        WHERE "Track"."RecordingId" = "Recording".id AND "Track"."archivedAt" IS NULL
+          ${conditions ? `AND (${conditions})` : ""}
+      )`)
+    );
+    return this;
+  };
+
+  // Only include recordings with text matching text (see
+  // models/util/textSearch.ts), in order of how well they match if rank.
+  Recording.queryBuilder.prototype.addTextSearch = function (
+    text: string,
+    rank: boolean
+  ) {
+    const query = textQuerySql(sequelize.escape(text));
+    this.query.where[Op.and].push(
+      Sequelize.literal(textMatchSql('"Recording"."id"', query))
+    );
+    if (rank) {
+      this.query.order = [
+        [Sequelize.literal(textRankSql('"Recording"."id"', query)), "DESC"],
+        ["id", "DESC"]
+      ];
+    }
+    return this;
+  };
+
   Recording.queryBuilder.prototype.get = function () {
     return this.query;
   };
 
+  // The conditions of a query only refer to the recording itself and its
+  // includes are all outer joins, so they can be left out when counting.
+  Recording.queryBuilder.prototype.count = async function () {
+    return Recording.count({ where: this.query.where });
+  };
+
+  // The WHERE clause of the query, for raw SQL that selects from
+  // "Recordings" AS "Recording".
+  Recording.queryBuilder.prototype.whereSql = function (): string {
+    return whereQueryGenerator(sequelize).whereQuery(this.query.where, {
+      model: Recording,
+      prefix: "Recording"
+    });
+  };
+
+  // The query planner's estimate of how many recordings match, which is
+  // much faster than counting them when there are many.
+  Recording.queryBuilder.prototype.estimateCount = async function () {
+    const sql = `EXPLAIN (FORMAT JSON) SELECT 1 FROM "Recordings" AS "Recording" ${this.whereSql()}`;
+    const [row]: any[] = await sequelize.query(sql, {
+      type: QueryTypes.SELECT
+    });
+    return Math.round(row["QUERY PLAN"][0].Plan["Plan Rows"]);
+  };
+
   Recording.queryBuilder.prototype.addColumn = function (name: string) {
     this.query.attributes.push(name);
     return this;
@@ -1340,6 +1570,7 @@ from (
     "duration",
     "location",
     "batteryLevel",
+    "fileMissing",
     "DeviceId",
     "GroupId",
     "StationId"
@@ -1355,6 +1586,8 @@ from (
     "recordingDateTime",
     "relativeToDawn",
     "relativeToDusk",
+    "moonPhase",
+    "moonIllumination",
     "location",
     "version",
     "batteryLevel",
@@ -1362,6 +1595,8 @@ from (
     "airplaneModeOn",
     "type",
     "additionalMetadata",
+    "metadataDiscrepancies",
+    "fileMissing",
     "GroupId",
     "StationId",
     "fileKey",
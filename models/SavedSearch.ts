@@ -0,0 +1,190 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import Sequelize, { BuildOptions, Op } from "sequelize";
+import { ModelCommon, ModelStaticCommon } from "./index";
+import { User, UserId } from "./User";
+import { GroupId } from "./Group";
+import { TagMode } from "./Recording";
+import { Area } from "./util/area";
+
+export type SavedSearchId = number;
+
+// The parameters of a recordings query, as given to
+// GET /api/v1/recordings, that a search reruns.
+export interface SavedQuery {
+  where?: any;
+  tagMode?: TagMode;
+  tags?: string[];
+  order?: any[];
+  area?: Area;
+  trackWhere?: any;
+  text?: string;
+  filterOptions?: any;
+}
+
+export const SAVED_QUERY_FIELDS: readonly (keyof SavedQuery)[] = Object.freeze([
+  "where",
+  "tagMode",
+  "tags",
+  "order",
+  "area",
+  "trackWhere",
+  "text",
+  "filterOptions"
+]);
+
+export function isSavedQueryField(field: string): field is keyof SavedQuery {
+  return (SAVED_QUERY_FIELDS as readonly string[]).includes(field);
+}
+
+// The columns of a saved search, as returned by get({ plain: true }).
+export interface SavedSearchAttributes {
+  id: SavedSearchId;
+  name: string;
+  query: SavedQuery;
+  // User id -> when that user last ran the search.
+  lastRuns: Record<string, string>;
+  UserId: UserId;
+  GroupId: GroupId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SavedSearch
+  extends Sequelize.Model,
+    ModelCommon<SavedSearch>,
+    SavedSearchAttributes {
+  userCanView: (user: User) => Promise<boolean>;
+  userCanEdit: (user: User) => boolean;
+  lastRunBy: (user: User) => Date | null;
+  ranBy: (user: User, at: Date) => Promise<void>;
+}
+
+export interface SavedSearchStatic extends ModelStaticCommon<SavedSearch> {
+  new (values?: object, options?: BuildOptions): SavedSearch;
+  allForUser: (user: User) => Promise<SavedSearch[]>;
+}
+
+export default function (
+  sequelize: Sequelize.Sequelize,
+  DataTypes
+): SavedSearchStatic {
+  const name = "SavedSearch";
+
+  const attributes = {
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    query: {
+      type: DataTypes.JSONB,
+      allowNull: false
+    },
+    lastRuns: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {}
+    }
+  };
+
+  const SavedSearch = (sequelize.define(
+    name,
+    attributes
+  ) as unknown) as SavedSearchStatic;
+
+  SavedSearch.apiSettableFields = [];
+
+  SavedSearch.userGetAttributes = [
+    "id",
+    "name",
+    "query",
+    "UserId",
+    "GroupId",
+    "createdAt",
+    "updatedAt"
+  ];
+
+  //---------------
+  // CLASS METHODS
+  //---------------
+  const models = sequelize.models;
+
+  SavedSearch.addAssociations = function (models) {
+    models.SavedSearch.belongsTo(models.User);
+    models.SavedSearch.belongsTo(models.Group);
+  };
+
+  // The user's own searches and those shared with their groups.
+  SavedSearch.allForUser = async function (user: User) {
+    return this.findAll({
+      where: {
+        [Op.or]: [
+          { UserId: user.id },
+          { GroupId: { [Op.in]: await user.getGroupsIds() } }
+        ]
+      },
+      attributes: SavedSearch.userGetAttributes.concat(["lastRuns"]),
+      include: [
+        { model: models.User, attributes: ["id", "username"] },
+        { model: models.Group, attributes: ["id", "groupname"] }
+      ],
+      order: ["name", "id"]
+    });
+  };
+
+  //------------------
+  // INSTANCE METHODS
+  //------------------
+
+  SavedSearch.prototype.userCanView = async function (user: User) {
+    return (
+      this.userCanEdit(user) ||
+      user.hasGlobalRead() ||
+      (this.GroupId !== null && (await user.isInGroup(this.GroupId)))
+    );
+  };
+
+  // Only the user who saved a search can change it.
+  SavedSearch.prototype.userCanEdit = function (user: User) {
+    return this.UserId == user.id || user.hasGlobalWrite();
+  };
+
+  SavedSearch.prototype.lastRunBy = function (user: User): Date | null {
+    const lastRun = this.lastRuns[user.id];
+    return lastRun ? new Date(lastRun) : null;
+  };
+
+  SavedSearch.prototype.ranBy = async function (user: User, at: Date) {
+    // Updated in the database so that users running a shared search at the
+    // same time don't lose each other's times.
+    await SavedSearch.update(
+      {
+        lastRuns: Sequelize.fn(
+          "jsonb_set",
+          Sequelize.col("lastRuns"),
+          Sequelize.literal(`'{${user.id}}'`),
+          Sequelize.fn("to_jsonb", Sequelize.cast(at.toISOString(), "text"))
+        )
+      },
+      { where: { id: this.id } }
+    );
+  };
+
+  return SavedSearch;
+}
@@ -16,19 +16,30 @@ You should have received a copy of the GNU Affero General Public License
 along with this program.  If not, see <http://www.gnu.org/licenses/>.
 */
 
-import Sequelize from "sequelize";
+import log from "../logging";
+import Sequelize, { Transaction } from "sequelize";
 import { ModelCommon, ModelStaticCommon } from "./index";
+import { openStorage } from "./util/storage";
 import { TrackTag, TrackTagId } from "./TrackTag";
 import { User } from "./User";
 import { Recording } from "./Recording";
 import { AlertStatic } from "./Alert";
+import { ArtifactStatic } from "./Artifact";
 
 export type TrackId = number;
+
+// What replacing a track's tag changed: whether the tag was added, and the
+// user's tags that it replaced.
+export interface TagReplacement {
+  added: boolean;
+  replaced: TrackTag[];
+}
 export interface Track extends Sequelize.Model, ModelCommon<Track> {
   getTrackTag: (trackTagId: TrackTagId) => Promise<TrackTag>;
   id: TrackId;
   AlgorithmId: number | null;
   data: any;
+  archivedAt: Date | null;
   addTag: (
     what: string,
     confidence: number,
@@ -40,7 +51,11 @@ export interface Track extends Sequelize.Model, ModelCommon<Track> {
   getRecording: () => Promise<Recording>;
 }
 export interface TrackStatic extends ModelStaticCommon<Track> {
-  replaceTag: (id: TrackId, tag: TrackTag) => Promise<any>;
+  replaceTag: (
+    id: TrackId,
+    tag: TrackTag,
+    transaction?: Transaction
+  ) => Promise<TagReplacement>;
 }
 
 export default function (
@@ -49,10 +64,41 @@ export default function (
 ): TrackStatic {
   const { ClientError } = require("../api/customErrors");
 
-  const Track = (sequelize.define("Track", {
-    data: DataTypes.JSONB,
-    archivedAt: DataTypes.DATE
-  }) as unknown) as TrackStatic;
+  // The thumbnails of a track are deleted along with it by the database, so
+  // the keys of their objects are found first and the objects deleted after.
+  const artifactKeys = new WeakMap<Track, string[]>();
+  const options = {
+    hooks: {
+      beforeDestroy: async (track: Track, { transaction }) => {
+        const artifacts = await (models.Artifact as ArtifactStatic).findAll({
+          where: { TrackId: track.id },
+          attributes: ["fileKey"],
+          transaction
+        });
+        artifactKeys.set(
+          track,
+          artifacts.map((artifact) => artifact.fileKey)
+        );
+      },
+      afterDestroy: (track: Track) => {
+        const keys = artifactKeys.get(track) || [];
+        if (keys.length > 0) {
+          openStorage()
+            .deleteMany(keys)
+            .catch((err) => log.warn(err));
+        }
+      }
+    }
+  };
+
+  const Track = (sequelize.define(
+    "Track",
+    {
+      data: DataTypes.JSONB,
+      archivedAt: DataTypes.DATE
+    },
+    options
+  ) as unknown) as TrackStatic;
 
   //---------------
   // CLASS
@@ -64,6 +110,7 @@ export default function (
       foreignKey: "AlgorithmId"
     });
     models.Track.hasMany(models.TrackTag);
+    models.Track.hasMany(models.Artifact);
   };
 
   const models = sequelize.models;
@@ -75,13 +122,17 @@ export default function (
   );
 
   //add or replace a tag, such that this track only has 1 animal tag by this user
-  //and no duplicate tags
-  Track.replaceTag = async function (trackId, tag: TrackTag) {
-    const track = await Track.findByPk(trackId);
+  //and no duplicate tags. Done in transaction if given, otherwise in a new one.
+  Track.replaceTag = async function (
+    trackId,
+    tag: TrackTag,
+    transaction: Transaction = null
+  ): Promise<TagReplacement> {
+    const track = await Track.findByPk(trackId, { transaction });
     if (!track) {
       throw new ClientError("No track found for " + trackId);
     }
-    return sequelize.transaction(async function (t) {
+    const replace = async function (t: Transaction) {
       const trackTags = await models.TrackTag.findAll({
         where: {
           UserId: tag.UserId,
@@ -94,19 +145,22 @@ export default function (
       const existingTag = trackTags.find(function (uTag) {
         return uTag.what == tag.what;
       });
+      let existingAnimalTags = [];
       if (existingTag) {
-        return;
+        return { added: false, replaced: [] };
       } else if (trackTags.length > 0 && !tag.isAdditionalTag()) {
-        const existingAnimalTags = trackTags.filter(function (uTag) {
+        existingAnimalTags = trackTags.filter(function (uTag) {
           return !uTag.isAdditionalTag();
         });
 
         for (let i = 0; i < existingAnimalTags.length; i++) {
-          await existingAnimalTags[i].destroy();
+          await existingAnimalTags[i].destroy({ transaction: t });
         }
       }
-      await tag.save();
-    });
+      await tag.save({ transaction: t });
+      return { added: true, replaced: existingAnimalTags };
+    };
+    return transaction ? replace(transaction) : sequelize.transaction(replace);
   };
 
   //---------------
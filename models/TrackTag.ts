@@ -19,6 +19,7 @@ along with this program.  If not, see <http://www.gnu.org/licenses/>.
 import Sequelize from "sequelize";
 import { ModelCommon, ModelStaticCommon } from "./index";
 import { UserId as UserIdAlias } from "./User";
+import { TrackId } from "./Track";
 
 export type TrackTagId = number;
 export interface TrackTag extends Sequelize.Model, ModelCommon<TrackTag> {
@@ -27,6 +28,7 @@ export interface TrackTag extends Sequelize.Model, ModelCommon<TrackTag> {
   what: string;
   automatic: boolean;
   UserId: UserIdAlias;
+  TrackId: TrackId;
   confidence: number;
   data: any;
 }
@@ -0,0 +1,241 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import Sequelize, { BuildOptions } from "sequelize";
+import { ModelCommon, ModelStaticCommon } from "./index";
+import { DeviceId } from "./Device";
+import { UserId } from "./User";
+import { RecordingId } from "./Recording";
+
+export type UploadSessionId = number;
+
+// How long an upload session stays open after its last chunk was received.
+export const UPLOAD_SESSION_EXPIRY_HOURS = 24;
+
+// The most chunks a recording can be uploaded in, and the largest a chunk
+// can be, which together limit how much a session can store.
+export const MAX_UPLOAD_CHUNKS = 256;
+export const MAX_CHUNK_BYTES = 16 * 1024 * 1024;
+
+// How long a session is left to the request finalising it before another
+// request may finalise it instead, in case the first one died.
+const FINALISE_TIMEOUT_MINUTES = 30;
+
+// Matches sessions that chunks can still be added to or that can be
+// finalised: those that haven't been finalised and aren't being finalised.
+const OPEN_SQL = `"RecordingId" IS NULL
+  AND ("finalisingAt" IS NULL
+       OR "finalisingAt" < now() - (:timeoutMinutes || ' minutes')::interval)`;
+
+// Chunk number -> size in bytes of the chunk held in the object store.
+export type ReceivedChunks = Record<string, number>;
+
+export interface UploadSession
+  extends Sequelize.Model,
+    ModelCommon<UploadSession> {
+  id: UploadSessionId;
+  data: any;
+  chunks: ReceivedChunks;
+  expiresAt: Date;
+  DeviceId: DeviceId;
+  UserId: UserId | null;
+  RecordingId: RecordingId | null;
+  finalisingAt: Date | null;
+
+  chunkKey: (chunkNumber: number) => string;
+  chunkKeys: () => string[];
+  receivedChunkNumbers: () => number[];
+  missingChunks: (totalChunks: number, limit: number) => number[];
+  hasExpired: () => boolean;
+  isBeingFinalised: () => boolean;
+  addChunk: (chunkNumber: number, size: number) => Promise<boolean>;
+  claimForFinalising: () => Promise<boolean>;
+  releaseFinalisingClaim: () => Promise<void>;
+}
+
+export interface UploadSessionStatic extends ModelStaticCommon<UploadSession> {
+  new (values?: object, options?: BuildOptions): UploadSession;
+  getFromId: (id: UploadSessionId) => Promise<UploadSession | null>;
+  getExpired: () => Promise<UploadSession[]>;
+}
+
+export default function (
+  sequelize: Sequelize.Sequelize,
+  DataTypes
+): UploadSessionStatic {
+  const name = "UploadSession";
+
+  const attributes = {
+    data: {
+      type: DataTypes.JSONB,
+      allowNull: false
+    },
+    chunks: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {}
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    finalisingAt: DataTypes.DATE
+  };
+
+  const UploadSession = (sequelize.define(
+    name,
+    attributes
+  ) as unknown) as UploadSessionStatic;
+
+  UploadSession.apiSettableFields = [];
+
+  //---------------
+  // CLASS METHODS
+  //---------------
+
+  UploadSession.addAssociations = function (models) {
+    models.UploadSession.belongsTo(models.Device);
+    models.UploadSession.belongsTo(models.User);
+    models.UploadSession.belongsTo(models.Recording);
+  };
+
+  UploadSession.getFromId = async function (id) {
+    return this.findByPk(id);
+  };
+
+  UploadSession.getExpired = async function () {
+    return this.findAll({
+      where: { expiresAt: { [Sequelize.Op.lt]: new Date() } }
+    });
+  };
+
+  //------------------
+  // INSTANCE METHODS
+  //------------------
+
+  UploadSession.prototype.chunkKey = function (chunkNumber: number): string {
+    return `upload/${this.id}/${chunkNumber}`;
+  };
+
+  UploadSession.prototype.chunkKeys = function (): string[] {
+    return this.receivedChunkNumbers().map((n) => this.chunkKey(n));
+  };
+
+  UploadSession.prototype.receivedChunkNumbers = function (): number[] {
+    return Object.keys(this.chunks)
+      .map((n) => parseInt(n))
+      .sort((a, b) => a - b);
+  };
+
+  // Up to limit of the chunks numbered below totalChunks that haven't been
+  // received, in order. Found from the received chunks so that the work
+  // doesn't depend on totalChunks.
+  UploadSession.prototype.missingChunks = function (
+    totalChunks: number,
+    limit: number
+  ): number[] {
+    const received = this.receivedChunkNumbers().filter((n) => n < totalChunks);
+    const missing = [];
+    let next = 0;
+    for (const n of [...received, totalChunks]) {
+      while (next < n && missing.length < limit) {
+        missing.push(next++);
+      }
+      if (missing.length == limit) {
+        break;
+      }
+      next = n + 1;
+    }
+    return missing;
+  };
+
+  UploadSession.prototype.hasExpired = function (): boolean {
+    return this.expiresAt.getTime() < Date.now();
+  };
+
+  UploadSession.prototype.isBeingFinalised = function (): boolean {
+    return (
+      this.finalisingAt != null &&
+      this.finalisingAt.getTime() >
+        Date.now() - FINALISE_TIMEOUT_MINUTES * 60 * 1000
+    );
+  };
+
+  // Chunks can arrive concurrently so the chunk list is merged in the
+  // database rather than read, modified and written back. Receiving a chunk
+  // also keeps the session alive. Returns false, without adding the chunk,
+  // if the session has been or is being finalised.
+  UploadSession.prototype.addChunk = async function (
+    chunkNumber: number,
+    size: number
+  ): Promise<boolean> {
+    const [rows] = await sequelize.query(
+      `UPDATE "UploadSessions"
+       SET "chunks" = "chunks" || jsonb_build_object(:chunkNumber::text, :size::bigint),
+           "expiresAt" = now() + (:expiryHours || ' hours')::interval,
+           "updatedAt" = now()
+       WHERE id = :id AND ${OPEN_SQL}
+       RETURNING "chunks", "expiresAt"`,
+      {
+        replacements: {
+          id: this.id,
+          chunkNumber,
+          size,
+          expiryHours: UPLOAD_SESSION_EXPIRY_HOURS,
+          timeoutMinutes: FINALISE_TIMEOUT_MINUTES
+        }
+      }
+    );
+    if (rows.length == 0) {
+      return false;
+    }
+    this.chunks = rows[0].chunks;
+    this.expiresAt = rows[0].expiresAt;
+    return true;
+  };
+
+  // Marks the session as being finalised, returning false if it has already
+  // been finalised or another request is finalising it. Concurrent requests
+  // could otherwise each create a recording from the same chunks.
+  UploadSession.prototype.claimForFinalising = async function () {
+    const [rows] = await sequelize.query(
+      `UPDATE "UploadSessions"
+       SET "finalisingAt" = now(), "updatedAt" = now()
+       WHERE id = :id AND ${OPEN_SQL}
+       RETURNING "finalisingAt"`,
+      {
+        replacements: {
+          id: this.id,
+          timeoutMinutes: FINALISE_TIMEOUT_MINUTES
+        }
+      }
+    );
+    if (rows.length == 0) {
+      return false;
+    }
+    this.finalisingAt = rows[0].finalisingAt;
+    return true;
+  };
+
+  // Lets the session be finalised again after finalising it failed.
+  UploadSession.prototype.releaseFinalisingClaim = async function () {
+    await this.update({ finalisingAt: null });
+  };
+
+  return UploadSession;
+}
@@ -0,0 +1,120 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import Sequelize, { BuildOptions } from "sequelize";
+import { ModelCommon, ModelStaticCommon } from "./index";
+import { Device, DeviceId } from "./Device";
+import { Group, GroupId } from "./Group";
+import { Station, StationId } from "./Station";
+import { VisitEvent } from "./VisitEvent";
+
+export type VisitId = number;
+
+// Whether a visit groups the tracks seen by one device, or those seen by all
+// the devices at a station.
+export type VisitGrouping = "device" | "station";
+export const VISIT_GROUPINGS: readonly VisitGrouping[] = ["device", "station"];
+
+// The grouping rules a visit was made with, named "default", "group" or
+// "species:<what>" after where they came from.
+export interface AppliedVisitRules {
+  name: string;
+  eventGapSeconds: number;
+  audioBaitSeconds: number;
+}
+
+// A group of tracks seen by a device, or at a station, close together in
+// time, which are assumed to be the same animal visiting. They are kept up
+// to date as recordings are uploaded and tagged (see api/V1/Visits.ts).
+export interface Visit extends Sequelize.Model, ModelCommon<Visit> {
+  id: VisitId;
+  start: Date;
+  end: Date;
+  what: string | null;
+  rules: AppliedVisitRules | null;
+  groupedBy: VisitGrouping;
+  // Null for station visits.
+  DeviceId: DeviceId | null;
+  GroupId: GroupId;
+  // Null for device visits recorded away from any of the group's stations,
+  // or at more than one.
+  StationId: StationId | null;
+  // NOTE: Included by visit queries.
+  Device?: Device;
+  Group?: Group;
+  Station?: Station | null;
+  VisitEvents?: VisitEvent[];
+}
+
+export interface VisitStatic extends ModelStaticCommon<Visit> {
+  new (values?: object, options?: BuildOptions): Visit;
+}
+
+export default function (
+  sequelize: Sequelize.Sequelize,
+  DataTypes
+): VisitStatic {
+  const name = "Visit";
+
+  const attributes = {
+    start: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    end: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    what: DataTypes.STRING,
+    rules: DataTypes.JSONB,
+    groupedBy: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: "device"
+    }
+  };
+
+  const Visit = (sequelize.define(name, attributes) as unknown) as VisitStatic;
+
+  Visit.apiSettableFields = [];
+
+  Visit.userGetAttributes = [
+    "id",
+    "start",
+    "end",
+    "what",
+    "rules",
+    "groupedBy",
+    "DeviceId",
+    "GroupId",
+    "StationId"
+  ];
+
+  //---------------
+  // CLASS METHODS
+  //---------------
+
+  Visit.addAssociations = function (models) {
+    models.Visit.belongsTo(models.Device);
+    models.Visit.belongsTo(models.Group);
+    models.Visit.belongsTo(models.Station);
+    models.Visit.hasMany(models.VisitEvent);
+  };
+
+  return Visit;
+}
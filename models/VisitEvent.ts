@@ -0,0 +1,94 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import Sequelize, { BuildOptions } from "sequelize";
+import { ModelCommon, ModelStaticCommon } from "./index";
+import { VisitId } from "./Visit";
+import { Recording, RecordingId } from "./Recording";
+import { Track, TrackId } from "./Track";
+
+export type VisitEventId = number;
+
+// A track that is part of a visit, with what it was tagged as when the
+// visit was last updated.
+export interface VisitEvent extends Sequelize.Model, ModelCommon<VisitEvent> {
+  id: VisitEventId;
+  start: Date;
+  end: Date;
+  what: string | null;
+  confidence: number | null;
+  VisitId: VisitId;
+  RecordingId: RecordingId;
+  TrackId: TrackId;
+  // NOTE: Included by visit queries.
+  Recording?: Recording;
+  Track?: Track;
+}
+
+export interface VisitEventStatic extends ModelStaticCommon<VisitEvent> {
+  new (values?: object, options?: BuildOptions): VisitEvent;
+}
+
+export default function (
+  sequelize: Sequelize.Sequelize,
+  DataTypes
+): VisitEventStatic {
+  const name = "VisitEvent";
+
+  const attributes = {
+    start: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    end: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    what: DataTypes.STRING,
+    confidence: DataTypes.FLOAT
+  };
+
+  const VisitEvent = (sequelize.define(
+    name,
+    attributes
+  ) as unknown) as VisitEventStatic;
+
+  VisitEvent.apiSettableFields = [];
+
+  VisitEvent.userGetAttributes = [
+    "id",
+    "start",
+    "end",
+    "what",
+    "confidence",
+    "RecordingId",
+    "TrackId"
+  ];
+
+  //---------------
+  // CLASS METHODS
+  //---------------
+
+  VisitEvent.addAssociations = function (models) {
+    models.VisitEvent.belongsTo(models.Visit);
+    models.VisitEvent.belongsTo(models.Recording);
+    models.VisitEvent.belongsTo(models.Track);
+  };
+
+  return VisitEvent;
+}
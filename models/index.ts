@@ -35,6 +35,11 @@ import { GroupUsersStatic } from "./GroupUsers";
 import { DeviceUsersStatic } from "./DeviceUsers";
 import { ScheduleStatic } from "./Schedule";
 import { StationStatic } from "./Station";
+import { UploadSessionStatic } from "./UploadSession";
+import { ArtifactStatic } from "./Artifact";
+import { SavedSearchStatic } from "./SavedSearch";
+import { VisitStatic } from "./Visit";
+import { VisitEventStatic } from "./VisitEvent";
 
 const basename = path.basename(module.filename);
 const dbConfig = config.database;
@@ -133,6 +138,11 @@ const AllModels = {
   DeviceUsers: db.DeviceUsers as DeviceUsersStatic,
   Schedule: db.Schedule as ScheduleStatic,
   Alert: db.Alert as AlertStatic,
+  UploadSession: db.UploadSession as UploadSessionStatic,
+  Artifact: db.Artifact as ArtifactStatic,
+  SavedSearch: db.SavedSearch as SavedSearchStatic,
+  Visit: db.Visit as VisitStatic,
+  VisitEvent: db.VisitEvent as VisitEventStatic,
   sequelize,
   Sequelize
 };
@@ -0,0 +1,163 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+// Areas that recordings, devices and stations can be filtered by. Bounding
+// boxes and circles are given in latitude and longitude like the rest of
+// the API, but polygons are GeoJSON so are [longitude, latitude].
+export interface BoundingBox {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+export interface Circle {
+  lat: number;
+  lng: number;
+  // Meters
+  radius: number;
+}
+
+export interface GeoJSONPolygon {
+  type: "Polygon" | "MultiPolygon";
+  coordinates: any[];
+}
+
+export type Area =
+  | { bbox: BoundingBox }
+  | { near: Circle }
+  | { polygon: GeoJSONPolygon };
+
+const MAX_RADIUS_METERS = 1000000;
+const MAX_POLYGON_POINTS = 10000;
+
+function checkLatLng(lat, lng) {
+  if (typeof lat !== "number" || !(lat >= -90 && lat <= 90)) {
+    throw new Error("Latitudes must be between -90 and 90.");
+  }
+  if (typeof lng !== "number" || !(lng >= -180 && lng <= 180)) {
+    throw new Error("Longitudes must be between -180 and 180.");
+  }
+}
+
+function checkRing(ring): number {
+  if (!Array.isArray(ring) || ring.length < 4) {
+    throw new Error("Polygon rings must have at least 4 positions.");
+  }
+  for (const position of ring) {
+    if (!Array.isArray(position) || position.length != 2) {
+      throw new Error("Polygon positions must be [longitude, latitude].");
+    }
+    checkLatLng(position[1], position[0]);
+  }
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (first[0] != last[0] || first[1] != last[1]) {
+    throw new Error("Polygon rings must end where they start.");
+  }
+  return ring.length;
+}
+
+function checkPolygon(polygon): number {
+  if (!Array.isArray(polygon) || polygon.length == 0) {
+    throw new Error("Polygons must have at least one ring.");
+  }
+  return polygon.reduce((points, ring) => points + checkRing(ring), 0);
+}
+
+// Throws an Error describing what is wrong if area isn't a valid Area.
+export function validateArea(area: any): area is Area {
+  const kinds = Object.keys(area || {});
+  if (kinds.length != 1) {
+    throw new Error("An area must have exactly one of bbox, near or polygon.");
+  }
+  if ("bbox" in area) {
+    const { minLat, minLng, maxLat, maxLng } = area.bbox || ({} as any);
+    checkLatLng(minLat, minLng);
+    checkLatLng(maxLat, maxLng);
+    if (minLat > maxLat || minLng > maxLng) {
+      throw new Error("A bbox's minimums must not be more than its maximums.");
+    }
+  } else if ("near" in area) {
+    const { lat, lng, radius } = area.near || ({} as any);
+    checkLatLng(lat, lng);
+    if (
+      typeof radius !== "number" ||
+      !(radius > 0 && radius <= MAX_RADIUS_METERS)
+    ) {
+      throw new Error(
+        `A radius must be more than 0 and at most ${MAX_RADIUS_METERS} meters.`
+      );
+    }
+  } else if ("polygon" in area) {
+    const { type, coordinates } = area.polygon || ({} as any);
+    let points;
+    if (type == "Polygon") {
+      points = checkPolygon(coordinates);
+    } else if (type == "MultiPolygon" && Array.isArray(coordinates)) {
+      points = coordinates.reduce((n, polygon) => n + checkPolygon(polygon), 0);
+    } else {
+      throw new Error("A polygon must be a GeoJSON Polygon or MultiPolygon.");
+    }
+    if (points > MAX_POLYGON_POINTS) {
+      throw new Error(
+        `Polygons can have at most ${MAX_POLYGON_POINTS} positions.`
+      );
+    }
+  } else {
+    throw new Error(`Unknown area '${kinds[0]}'.`);
+  }
+  return true;
+}
+
+// Locations are stored as points of [latitude, longitude] without an SRID,
+// so are flipped into proper WGS 84 points for PostGIS. With a precision
+// (in meters) the point is first snapped to a grid the same way
+// Recording.filterData() reduces the precision of locations it returns, so
+// users can't get more precise locations by searching than by looking.
+export function locationSql(column: string, precision?: number): string {
+  if (!precision) {
+    return `ST_SetSRID(ST_FlipCoordinates(${column}), 4326)`;
+  }
+  const resolution = (precision * 360) / 40000000;
+  const snap = (value: string) => `(CASE
+    WHEN trunc(${value} / ${resolution}) * ${resolution} > 0
+    THEN trunc(${value} / ${resolution}) * ${resolution} + ${resolution / 2}
+    ELSE trunc(${value} / ${resolution}) * ${resolution} - ${resolution / 2}
+  END)`;
+  return `ST_SetSRID(ST_MakePoint(${snap(`ST_Y(${column})`)}, ${snap(
+    `ST_X(${column})`
+  )}), 4326)`;
+}
+
+// SQL which is true when location, as given by locationSql(), is in area.
+// The area must have passed validateArea() so is only made up of numbers.
+export function areaSql(area: Area, location: string): string {
+  if ("bbox" in area) {
+    const { minLat, minLng, maxLat, maxLng } = area.bbox;
+    return `ST_Intersects(${location}, ST_MakeEnvelope(${minLng}, ${minLat}, ${maxLng}, ${maxLat}, 4326))`;
+  }
+  if ("near" in area) {
+    const { lat, lng, radius } = area.near;
+    return `ST_DWithin(${location}::geography, ST_SetSRID(ST_MakePoint(${lng}, ${lat}), 4326)::geography, ${radius})`;
+  }
+  const geoJSON = JSON.stringify({
+    type: area.polygon.type,
+    coordinates: area.polygon.coordinates
+  });
+  return `ST_Intersects(${location}, ST_SetSRID(ST_GeomFromGeoJSON('${geoJSON}'), 4326))`;
+}
@@ -0,0 +1,366 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import Sequelize, { Op, WhereOptions } from "sequelize";
+
+// The filters clients can give to select recordings. They look like the
+// Sequelize where objects previously passed straight through, so existing
+// queries keep working, but only the fields and operators listed here are
+// allowed and values are checked and converted to the field's type before
+// they reach the database.
+//
+//   filter    := { clause, ... }              all clauses must match
+//   clause    := "$and": [filter, ...]
+//              | "$or": [filter, ...]
+//              | "$not": filter
+//              | field: value                 equal, or null for no value
+//              | field: [value, ...]          equal to one of the values
+//              | field: { operator: value, ... }
+export type FilterFieldType =
+  | "integer"
+  | "number"
+  | "date"
+  | "string"
+  | "boolean"
+  | "json";
+
+export interface FilterField {
+  type: FilterFieldType;
+  // Internal details only users with global read access can filter by.
+  adminOnly?: boolean;
+  // The SQL for fields that aren't columns of the model being filtered.
+  // A field named "prefix.*" matches any "prefix.<name>" and is given the
+  // name, which is a word that is safe to quote.
+  sql?: (name?: string) => string;
+}
+
+export const RECORDING_FILTER_FIELDS: Readonly<Record<
+  string,
+  FilterField
+>> = Object.freeze({
+  id: { type: "integer" },
+  type: { type: "string" },
+  duration: { type: "number" },
+  recordingDateTime: { type: "date" },
+  relativeToDawn: { type: "integer" },
+  relativeToDusk: { type: "integer" },
+  moonPhase: { type: "number" },
+  moonIllumination: { type: "number" },
+  version: { type: "string" },
+  comment: { type: "string" },
+  batteryLevel: { type: "number" },
+  batteryCharging: { type: "string" },
+  airplaneModeOn: { type: "boolean" },
+  processingState: { type: "string" },
+  metadataDiscrepancies: { type: "json" },
+  additionalMetadata: { type: "json" },
+  DeviceId: { type: "integer" },
+  GroupId: { type: "integer" },
+  StationId: { type: "integer" },
+  createdAt: { type: "date" },
+  updatedAt: { type: "date" },
+  fileKey: { type: "string", adminOnly: true },
+  rawFileKey: { type: "string", adminOnly: true },
+  fileMissing: { type: "boolean", adminOnly: true },
+  processingStartTime: { type: "date", adminOnly: true }
+});
+
+function quote(name: string): string {
+  return `'${name}'`;
+}
+
+// The number in the JSON value at key of json, or null if there isn't one.
+function jsonNumber(json: string, key: string): string {
+  const value = `${json}->${quote(key)}`;
+  return `CASE WHEN jsonb_typeof(${value}) = 'number' THEN (${value} #>> '{}')::double precision END`;
+}
+
+const trackData = (key: string) => () => jsonNumber(`"Track"."data"`, key);
+
+// Track filters match a track together with one of its tags, so
+// {"automatic": true, "confidence": {"$lt": 0.6}} finds tracks the
+// classifier isn't sure of. They are used in SQL that selects from
+// "Tracks" AS "Track" outer joined to "TrackTags" AS "TrackTag" and the
+// track's "DetailSnapshots" AS "Algorithm".
+export const TRACK_FILTER_FIELDS: Readonly<Record<
+  string,
+  FilterField
+>> = Object.freeze({
+  start_s: { type: "number", sql: trackData("start_s") },
+  end_s: { type: "number", sql: trackData("end_s") },
+  duration: {
+    type: "number",
+    sql: () => `(${trackData("end_s")()} - ${trackData("start_s")()})`
+  },
+  num_frames: { type: "integer", sql: trackData("num_frames") },
+  AlgorithmId: { type: "integer", sql: () => `"Track"."AlgorithmId"` },
+  model: { type: "string", sql: () => `"Algorithm"."details"->>'model_name'` },
+  what: { type: "string", sql: () => `"TrackTag"."what"` },
+  confidence: { type: "number", sql: () => `"TrackTag"."confidence"` },
+  automatic: { type: "boolean", sql: () => `"TrackTag"."automatic"` },
+  "all_class_confidences.*": {
+    type: "number",
+    sql: (name) =>
+      jsonNumber(`("TrackTag"."data"->'all_class_confidences')`, name)
+  }
+});
+
+const OPERATORS = {
+  $eq: Op.eq,
+  $ne: Op.ne,
+  $gt: Op.gt,
+  $gte: Op.gte,
+  $lt: Op.lt,
+  $lte: Op.lte,
+  $in: Op.in,
+  $notIn: Op.notIn,
+  $between: Op.between,
+  $like: Op.like,
+  $notLike: Op.notLike,
+  $iLike: Op.iLike,
+  $notILike: Op.notILike
+};
+
+const ORDERED = ["$eq", "$ne", "$gt", "$gte", "$lt", "$lte", "$in", "$notIn"];
+
+const TYPE_OPERATORS: Record<FilterFieldType, string[]> = {
+  integer: [...ORDERED, "$between"],
+  number: [...ORDERED, "$between"],
+  date: [...ORDERED, "$between"],
+  string: [
+    "$eq",
+    "$ne",
+    "$in",
+    "$notIn",
+    "$like",
+    "$notLike",
+    "$iLike",
+    "$notILike"
+  ],
+  boolean: ["$eq", "$ne"],
+  // JSON fields can only be checked for having a value.
+  json: ["$eq", "$ne"]
+};
+
+const MAX_DEPTH = 8;
+
+const NAME = /^[\w -]+$/;
+
+// The field key refers to, if any, and the name it gives a "prefix.*"
+// field.
+function lookupField(
+  fields: Readonly<Record<string, FilterField>>,
+  key: string
+): [FilterField, string] | null {
+  if (fields.hasOwnProperty(key) && !key.endsWith(".*")) {
+    return [fields[key], null];
+  }
+  const dot = key.indexOf(".");
+  const prefix = `${key.slice(0, dot)}.*`;
+  const name = key.slice(dot + 1);
+  if (dot != -1 && fields.hasOwnProperty(prefix) && NAME.test(name)) {
+    return [fields[prefix], name];
+  }
+  return null;
+}
+
+function isPlainObject(value): boolean {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Converts value to the field's type, throwing an Error if it can't be.
+function coerce(type: FilterFieldType, value: any, path: string): any {
+  const shown = JSON.stringify(value);
+  switch (type) {
+    case "integer":
+    case "number": {
+      const number =
+        typeof value === "string" && value.trim() != "" ? Number(value) : value;
+      if (
+        typeof number !== "number" ||
+        !isFinite(number) ||
+        (type == "integer" && !Number.isInteger(number))
+      ) {
+        const expected = type == "integer" ? "an integer" : "a number";
+        throw new Error(`${path}: ${shown} is not ${expected}.`);
+      }
+      return number;
+    }
+    case "date": {
+      const date =
+        typeof value === "string" || typeof value === "number"
+          ? new Date(value)
+          : null;
+      if (!date || isNaN(date.getTime())) {
+        throw new Error(`${path}: ${shown} is not a date.`);
+      }
+      return date;
+    }
+    case "string":
+      if (typeof value !== "string") {
+        throw new Error(`${path}: ${shown} is not a string.`);
+      }
+      return value;
+    case "boolean":
+      if (value === true || value === "true") {
+        return true;
+      }
+      if (value === false || value === "false") {
+        return false;
+      }
+      throw new Error(`${path}: ${shown} is not true or false.`);
+    case "json":
+      throw new Error(`${path}: can only be compared with null.`);
+  }
+}
+
+function coerceList(type: FilterFieldType, value: any, path: string): any[] {
+  if (!Array.isArray(value) || value.length == 0) {
+    throw new Error(`${path}: must be a non-empty list of values.`);
+  }
+  return value.map((item, i) => coerce(type, item, `${path}[${i}]`));
+}
+
+function fieldCondition(field: FilterField, value: any, path: string) {
+  if (value === null) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return { [Op.in]: coerceList(field.type, value, path) };
+  }
+  if (!isPlainObject(value)) {
+    return coerce(field.type, value, path);
+  }
+  const operators = Object.keys(value);
+  if (operators.length == 0) {
+    throw new Error(`${path}: must have at least one operator.`);
+  }
+  const condition = {};
+  for (const operator of operators) {
+    const operand = value[operator];
+    const operandPath = `${path}.${operator}`;
+    if (!(operator in OPERATORS)) {
+      throw new Error(`${path}: unknown operator '${operator}'.`);
+    }
+    if (!TYPE_OPERATORS[field.type].includes(operator)) {
+      throw new Error(
+        `${path}: '${operator}' can't be used with ${
+          field.type
+        } fields, use one of ${TYPE_OPERATORS[field.type].join(", ")}.`
+      );
+    }
+    if (operator == "$in" || operator == "$notIn") {
+      condition[OPERATORS[operator]] = coerceList(
+        field.type,
+        operand,
+        operandPath
+      );
+    } else if (operator == "$between") {
+      if (!Array.isArray(operand) || operand.length != 2) {
+        throw new Error(`${operandPath}: must be a list of two values.`);
+      }
+      condition[OPERATORS[operator]] = coerceList(
+        field.type,
+        operand,
+        operandPath
+      );
+    } else if (operand === null && (operator == "$eq" || operator == "$ne")) {
+      condition[OPERATORS[operator]] = null;
+    } else {
+      condition[OPERATORS[operator]] = coerce(field.type, operand, operandPath);
+    }
+  }
+  return condition;
+}
+
+function translate(
+  filter: any,
+  fields: Readonly<Record<string, FilterField>>,
+  canSeeAdminFields: boolean,
+  path: string,
+  depth: number
+): WhereOptions {
+  if (!isPlainObject(filter)) {
+    throw new Error(`${path}: must be an object.`);
+  }
+  if (depth > MAX_DEPTH) {
+    throw new Error(
+      `${path}: filters can be nested at most ${MAX_DEPTH} deep.`
+    );
+  }
+  const where = {};
+  const sqlConditions = [];
+  for (const [key, value] of Object.entries(filter)) {
+    const keyPath = `${path}.${key}`;
+    if (key == "$and" || key == "$or") {
+      if (!Array.isArray(value) || value.length == 0) {
+        throw new Error(`${keyPath}: must be a non-empty list of filters.`);
+      }
+      where[key == "$and" ? Op.and : Op.or] = value.map((item, i) =>
+        translate(
+          item,
+          fields,
+          canSeeAdminFields,
+          `${keyPath}[${i}]`,
+          depth + 1
+        )
+      );
+    } else if (key == "$not") {
+      where[Op.not] = translate(
+        value,
+        fields,
+        canSeeAdminFields,
+        keyPath,
+        depth + 1
+      );
+    } else if (key == "_tagged") {
+      // Legacy tag mode selector, replaced by tagMode.
+      continue;
+    } else {
+      const [field, name] = lookupField(fields, key) || [null, null];
+      if (!field || (field.adminOnly && !canSeeAdminFields)) {
+        throw new Error(`${path}: unknown field '${key}'.`);
+      }
+      const condition = fieldCondition(field, value, keyPath);
+      if (field.sql) {
+        sqlConditions.push(
+          Sequelize.where(Sequelize.literal(field.sql(name)), condition)
+        );
+      } else {
+        where[key] = condition;
+      }
+    }
+  }
+  if (sqlConditions.length > 0) {
+    // Kept in a list, as Sequelize drops a $not of a single condition.
+    where[Op.and] = [...(where[Op.and] || []), ...sqlConditions];
+  }
+  return where;
+}
+
+// Checks filter follows the grammar above and translates it into a
+// Sequelize where object, throwing an Error naming the part of the filter
+// at fault if it doesn't. path names the filter in error messages.
+export function translateFilter(
+  filter: any,
+  fields: Readonly<Record<string, FilterField>>,
+  canSeeAdminFields: boolean,
+  path: string = "where"
+): WhereOptions {
+  return translate(filter, fields, canSeeAdminFields, path, 0);
+}
@@ -0,0 +1,375 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import AWS from "aws-sdk";
+import fs from "fs";
+import path from "path";
+import { PassThrough, pipeline, Readable } from "stream";
+import { promisify } from "util";
+import uuidv4 from "uuid/v4";
+import config from "../../config";
+
+const pipelineAsync = promisify(pipeline);
+
+export interface ObjectInfo {
+  key: string;
+  size: number;
+  etag: string;
+  lastModified: Date;
+}
+
+// An inclusive range of bytes within an object.
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface GetOptions {
+  range?: ByteRange;
+  // Fail if the object no longer has this ETag.
+  ifMatch?: string;
+}
+
+export class ObjectNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Object ${key} does not exist.`);
+    this.name = "ObjectNotFoundError";
+  }
+}
+
+export class ObjectChangedError extends Error {
+  constructor(key: string) {
+    super(`Object ${key} has changed.`);
+    this.name = "ObjectChangedError";
+  }
+}
+
+// Where recordings and other files are kept. Objects are identified by keys
+// such as "raw/2021/03/01/<uuid>".
+export interface ObjectStore {
+  readonly description: string;
+  checkConnection(): Promise<void>;
+  upload(key: string, body: Readable | Buffer): Promise<void>;
+  head(key: string): Promise<ObjectInfo>;
+  getStream(key: string, options?: GetOptions): Readable;
+  copy(srcKey: string, dstKey: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  deleteMany(keys: string[]): Promise<void>;
+  // Lists the objects whose keys start with prefix, in key order.
+  list(prefix: string): AsyncIterable<ObjectInfo>;
+}
+
+class S3ObjectStore implements ObjectStore {
+  readonly description: string;
+  private s3: AWS.S3;
+  private bucket: string;
+
+  constructor(s3Config) {
+    this.s3 = new AWS.S3({
+      endpoint: s3Config.endpoint,
+      accessKeyId: s3Config.publicKey,
+      secretAccessKey: s3Config.privateKey,
+      s3ForcePathStyle: true // needed for minio
+    });
+    this.bucket = s3Config.bucket;
+    this.description = `S3 bucket ${s3Config.bucket} at ${s3Config.endpoint}`;
+  }
+
+  async checkConnection() {
+    await this.s3.headBucket({ Bucket: this.bucket }).promise();
+  }
+
+  async upload(key, body) {
+    await this.s3
+      .upload({ Bucket: this.bucket, Key: key, Body: body })
+      .promise();
+  }
+
+  async head(key) {
+    try {
+      const data = await this.s3
+        .headObject({ Bucket: this.bucket, Key: key })
+        .promise();
+      return {
+        key,
+        size: data.ContentLength,
+        etag: data.ETag,
+        lastModified: data.LastModified
+      };
+    } catch (err) {
+      if (err.code === "NotFound") {
+        throw new ObjectNotFoundError(key);
+      }
+      throw err;
+    }
+  }
+
+  getStream(key, options: GetOptions = {}) {
+    const { range, ifMatch } = options;
+    return this.s3
+      .getObject({
+        Bucket: this.bucket,
+        Key: key,
+        IfMatch: ifMatch,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined
+      })
+      .createReadStream();
+  }
+
+  async copy(srcKey, dstKey) {
+    await this.s3
+      .copyObject({
+        CopySource: `${this.bucket}/${srcKey}`,
+        Bucket: this.bucket,
+        Key: dstKey
+      })
+      .promise();
+  }
+
+  async delete(key) {
+    await this.s3.deleteObject({ Bucket: this.bucket, Key: key }).promise();
+  }
+
+  async deleteMany(keys) {
+    // deleteObjects accepts at most 1000 keys per request.
+    for (let i = 0; i < keys.length; i += 1000) {
+      await this.s3
+        .deleteObjects({
+          Bucket: this.bucket,
+          Delete: {
+            Objects: keys.slice(i, i + 1000).map((Key) => ({ Key })),
+            Quiet: true
+          }
+        })
+        .promise();
+    }
+  }
+
+  async *list(prefix) {
+    const params: AWS.S3.ListObjectsRequest = {
+      Bucket: this.bucket,
+      Prefix: prefix
+    };
+    for (;;) {
+      const data = await this.s3.listObjects(params).promise();
+      for (const obj of data.Contents) {
+        yield {
+          key: obj.Key,
+          size: obj.Size,
+          etag: obj.ETag,
+          lastModified: obj.LastModified
+        };
+      }
+      if (!data.IsTruncated) {
+        break;
+      }
+      params.Marker =
+        data.NextMarker || data.Contents[data.Contents.length - 1].Key;
+    }
+  }
+}
+
+// Stores objects as files under a directory on the local disk, for small
+// deployments and testing.
+class LocalObjectStore implements ObjectStore {
+  readonly description: string;
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+    this.description = `local directory ${this.root}`;
+  }
+
+  private pathFor(key: string): string {
+    const segments = key.split("/");
+    if (key.startsWith("/") || segments.some((s) => s == ".." || s == ".")) {
+      throw new Error(`Invalid object key ${key}.`);
+    }
+    return path.join(this.root, ...segments);
+  }
+
+  private static infoFor(key: string, stats: fs.Stats): ObjectInfo {
+    return {
+      key,
+      size: stats.size,
+      etag: `"${stats.size.toString(16)}-${stats.mtimeMs.toString(16)}"`,
+      lastModified: stats.mtime
+    };
+  }
+
+  async checkConnection() {
+    await fs.promises.mkdir(this.root, { recursive: true });
+    await fs.promises.access(this.root, fs.constants.W_OK);
+  }
+
+  async upload(key, body) {
+    const filePath = this.pathFor(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    // Write to a temporary file first so readers never see a partial object.
+    const tmpPath = `${filePath}.${uuidv4()}.tmp`;
+    try {
+      if (Buffer.isBuffer(body)) {
+        await fs.promises.writeFile(tmpPath, body);
+      } else {
+        await pipelineAsync(body, fs.createWriteStream(tmpPath));
+      }
+      await fs.promises.rename(tmpPath, filePath);
+    } catch (err) {
+      await fs.promises.unlink(tmpPath).catch(() => {});
+      throw err;
+    }
+  }
+
+  async head(key) {
+    try {
+      return LocalObjectStore.infoFor(
+        key,
+        await fs.promises.stat(this.pathFor(key))
+      );
+    } catch (err) {
+      if (err.code === "ENOENT") {
+        throw new ObjectNotFoundError(key);
+      }
+      throw err;
+    }
+  }
+
+  // Errors, including an invalid key, are emitted by the returned stream as
+  // they are by the S3 driver.
+  getStream(key, options: GetOptions = {}) {
+    const { range, ifMatch } = options;
+    const output = new PassThrough();
+    const fail = (err: Error) => output.destroy(err);
+    let filePath: string;
+    try {
+      filePath = this.pathFor(key);
+    } catch (err) {
+      process.nextTick(fail, err);
+      return output;
+    }
+    fs.open(filePath, "r", (err, fd) => {
+      if (err) {
+        fail(err.code === "ENOENT" ? new ObjectNotFoundError(key) : err);
+        return;
+      }
+      // The open file is checked as an upload replaces the file rather than
+      // changing it, so it is what will be read.
+      fs.fstat(fd, (err, stats) => {
+        if (
+          !err &&
+          ifMatch &&
+          LocalObjectStore.infoFor(key, stats).etag !== ifMatch
+        ) {
+          err = new ObjectChangedError(key);
+        }
+        if (err) {
+          fs.close(fd, () => fail(err));
+          return;
+        }
+        const input = fs.createReadStream(filePath, {
+          fd,
+          ...(range ? { start: range.start, end: range.end } : {})
+        });
+        // Errors are passed on to output.
+        pipeline(input, output, () => {});
+      });
+    });
+    return output;
+  }
+
+  async copy(srcKey, dstKey) {
+    const dstPath = this.pathFor(dstKey);
+    await fs.promises.mkdir(path.dirname(dstPath), { recursive: true });
+    await fs.promises.copyFile(this.pathFor(srcKey), dstPath);
+  }
+
+  async delete(key) {
+    try {
+      await fs.promises.unlink(this.pathFor(key));
+    } catch (err) {
+      // Like S3, deleting an object that doesn't exist isn't an error.
+      if (err.code !== "ENOENT") {
+        throw err;
+      }
+    }
+  }
+
+  async deleteMany(keys) {
+    for (const key of keys) {
+      await this.delete(key);
+    }
+  }
+
+  async *list(prefix) {
+    // Only walk the directory the prefix is in.
+    const slash = prefix.lastIndexOf("/");
+    const dirKey = slash == -1 ? "" : prefix.substring(0, slash);
+    yield* this.walk(dirKey, prefix);
+  }
+
+  private async *walk(dirKey: string, prefix: string) {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(
+        dirKey ? this.pathFor(dirKey) : this.root,
+        { withFileTypes: true }
+      );
+    } catch (err) {
+      if (err.code === "ENOENT") {
+        return;
+      }
+      throw err;
+    }
+    // Sorted as the keys they hold would be, so "a/b" comes after "a-b".
+    const sortName = (entry: fs.Dirent) =>
+      entry.isDirectory() ? `${entry.name}/` : entry.name;
+    entries.sort((a, b) => (sortName(a) < sortName(b) ? -1 : 1));
+    for (const entry of entries) {
+      const key = dirKey ? `${dirKey}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (key.startsWith(prefix) || prefix.startsWith(key + "/")) {
+          yield* this.walk(key, prefix);
+        }
+      } else if (key.startsWith(prefix) && !entry.name.endsWith(".tmp")) {
+        const stats = await fs.promises.stat(this.pathFor(key));
+        yield LocalObjectStore.infoFor(key, stats);
+      }
+    }
+  }
+}
+
+let store: ObjectStore = null;
+
+// Returns the object store configured in the "storage" section of the config,
+// which defaults to the S3 settings in the "s3" section.
+export function openStorage(): ObjectStore {
+  if (!store) {
+    const storageConfig = config.storage || { driver: "s3" };
+    switch (storageConfig.driver) {
+      case "s3":
+        store = new S3ObjectStore(config.s3);
+        break;
+      case "local":
+        store = new LocalObjectStore(storageConfig.localPath);
+        break;
+      default:
+        throw new Error(`Unknown storage driver '${storageConfig.driver}'.`);
+    }
+  }
+  return store;
+}
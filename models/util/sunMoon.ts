@@ -0,0 +1,207 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+// Where the sun and moon are, worked out from the standard low precision
+// formulas (good to a minute or so) so that nothing needs looking up.
+// Angles are in radians and days are counted from the J2000 epoch.
+
+const RAD = Math.PI / 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const OBLIQUITY = RAD * 23.4397;
+// The sun's centre is this far below the horizon at sunrise and sunset,
+// allowing for refraction and the size of the sun.
+const SUNRISE_ALTITUDE = RAD * -0.833;
+const J0 = 0.0009;
+const SUN_DISTANCE_KM = 149598000;
+
+function toDays(date: Date): number {
+  return date.getTime() / DAY_MS - 0.5 + J1970 - J2000;
+}
+
+function fromJulian(julian: number): Date {
+  return new Date((julian + 0.5 - J1970) * DAY_MS);
+}
+
+function declination(longitude: number, latitude: number): number {
+  return Math.asin(
+    Math.sin(latitude) * Math.cos(OBLIQUITY) +
+      Math.cos(latitude) * Math.sin(OBLIQUITY) * Math.sin(longitude)
+  );
+}
+
+function rightAscension(longitude: number, latitude: number): number {
+  return Math.atan2(
+    Math.sin(longitude) * Math.cos(OBLIQUITY) -
+      Math.tan(latitude) * Math.sin(OBLIQUITY),
+    Math.cos(longitude)
+  );
+}
+
+function solarMeanAnomaly(days: number): number {
+  return RAD * (357.5291 + 0.98560028 * days);
+}
+
+function eclipticLongitude(meanAnomaly: number): number {
+  const centre =
+    RAD *
+    (1.9148 * Math.sin(meanAnomaly) +
+      0.02 * Math.sin(2 * meanAnomaly) +
+      0.0003 * Math.sin(3 * meanAnomaly));
+  const perihelion = RAD * 102.9372;
+  return meanAnomaly + centre + perihelion + Math.PI;
+}
+
+function sunCoords(days: number) {
+  const longitude = eclipticLongitude(solarMeanAnomaly(days));
+  return {
+    dec: declination(longitude, 0),
+    ra: rightAscension(longitude, 0)
+  };
+}
+
+function moonCoords(days: number) {
+  const longitude = RAD * (218.316 + 13.176396 * days);
+  const meanAnomaly = RAD * (134.963 + 13.064993 * days);
+  const meanDistance = RAD * (93.272 + 13.22935 * days);
+  const l = longitude + RAD * 6.289 * Math.sin(meanAnomaly);
+  const b = RAD * 5.128 * Math.sin(meanDistance);
+  return {
+    dec: declination(l, b),
+    ra: rightAscension(l, b),
+    distanceKm: 385001 - 20905 * Math.cos(meanAnomaly)
+  };
+}
+
+function solarTransit(days: number, meanAnomaly: number, longitude: number) {
+  return (
+    J2000 +
+    days +
+    0.0053 * Math.sin(meanAnomaly) -
+    0.0069 * Math.sin(2 * longitude)
+  );
+}
+
+export interface SunTimes {
+  // Null when the sun doesn't rise or set that day.
+  sunrise: Date | null;
+  sunset: Date | null;
+}
+
+// The sunrise and sunset at lat, lng (in degrees) on the solar day nearest
+// to date.
+export function sunTimes(date: Date, lat: number, lng: number): SunTimes {
+  const west = RAD * -lng;
+  const phi = RAD * lat;
+  const cycle = Math.round(toDays(date) - J0 - west / (2 * Math.PI));
+  const transitDays = J0 + west / (2 * Math.PI) + cycle;
+  const meanAnomaly = solarMeanAnomaly(transitDays);
+  const longitude = eclipticLongitude(meanAnomaly);
+  const dec = declination(longitude, 0);
+  const noon = solarTransit(transitDays, meanAnomaly, longitude);
+
+  const cosHourAngle =
+    (Math.sin(SUNRISE_ALTITUDE) - Math.sin(phi) * Math.sin(dec)) /
+    (Math.cos(phi) * Math.cos(dec));
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return { sunrise: null, sunset: null };
+  }
+  const hourAngle = Math.acos(cosHourAngle);
+  const set = solarTransit(
+    J0 + (hourAngle + west) / (2 * Math.PI) + cycle,
+    meanAnomaly,
+    longitude
+  );
+  return {
+    sunrise: fromJulian(noon - (set - noon)),
+    sunset: fromJulian(set)
+  };
+}
+
+export interface MoonIllumination {
+  // 0 is a new moon, 0.25 first quarter, 0.5 full and 0.75 last quarter.
+  phase: number;
+  // How much of the moon is lit, from 0 to 1.
+  fraction: number;
+}
+
+export function moonIllumination(date: Date): MoonIllumination {
+  const days = toDays(date);
+  const sun = sunCoords(days);
+  const moon = moonCoords(days);
+  const elongation = Math.acos(
+    Math.sin(sun.dec) * Math.sin(moon.dec) +
+      Math.cos(sun.dec) * Math.cos(moon.dec) * Math.cos(sun.ra - moon.ra)
+  );
+  const incidence = Math.atan2(
+    SUN_DISTANCE_KM * Math.sin(elongation),
+    moon.distanceKm - SUN_DISTANCE_KM * Math.cos(elongation)
+  );
+  const angle = Math.atan2(
+    Math.cos(sun.dec) * Math.sin(sun.ra - moon.ra),
+    Math.sin(sun.dec) * Math.cos(moon.dec) -
+      Math.cos(sun.dec) * Math.sin(moon.dec) * Math.cos(sun.ra - moon.ra)
+  );
+  return {
+    phase: 0.5 + (0.5 * incidence * (angle < 0 ? -1 : 1)) / Math.PI,
+    fraction: (1 + Math.cos(incidence)) / 2
+  };
+}
+
+// The number of seconds date is after the nearest of the times, negative
+// if it is before it, or null if there are none.
+function secondsFromNearest(date: Date, times: Date[]): number | null {
+  let nearest = null;
+  for (const time of times) {
+    const seconds = Math.round((date.getTime() - time.getTime()) / 1000);
+    if (nearest === null || Math.abs(seconds) < Math.abs(nearest)) {
+      nearest = seconds;
+    }
+  }
+  return nearest;
+}
+
+export interface RelativeToSun {
+  // Seconds after the nearest sunrise and sunset, negative if before, or
+  // null if the sun isn't rising or setting around then.
+  relativeToDawn: number | null;
+  relativeToDusk: number | null;
+}
+
+// When date is relative to sunrise and sunset at lat, lng (in degrees).
+export function relativeToSun(
+  date: Date,
+  lat: number,
+  lng: number
+): RelativeToSun {
+  // The nearest sunrise or sunset can be on the day before or after.
+  const days = [-1, 0, 1].map((offset) =>
+    sunTimes(new Date(date.getTime() + offset * DAY_MS), lat, lng)
+  );
+  return {
+    relativeToDawn: secondsFromNearest(
+      date,
+      days.map((day) => day.sunrise).filter((time) => time !== null)
+    ),
+    relativeToDusk: secondsFromNearest(
+      date,
+      days.map((day) => day.sunset).filter((time) => time !== null)
+    )
+  };
+}
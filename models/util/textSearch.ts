@@ -0,0 +1,94 @@
+/*
+cacophony-api: The Cacophony Project API server
+Copyright (C) 2021  The Cacophony Project
+
+This program is free software: you can redistribute it and/or modify
+it under the terms of the GNU Affero General Public License as published
+by the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+This program is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Affero General Public License for more details.
+
+You should have received a copy of the GNU Affero General Public License
+along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+// Full-text search over the free text users attach to recordings: the
+// recording's comment, the details of its tags and the data of its tracks'
+// tags. Each is matched through an expression index (see the
+// add-text-search-indexes migration) so the expressions here must stay the
+// same as the indexed ones.
+const TEXT_SEARCH_CONFIG = "english";
+
+const MAX_TEXT_LENGTH = 200;
+
+// The text search query for text, which is an SQL string literal.
+export function textQuerySql(text: string): string {
+  return `plainto_tsquery('${TEXT_SEARCH_CONFIG}', ${text})`;
+}
+
+function document(column: string): string {
+  return `to_tsvector('${TEXT_SEARCH_CONFIG}', ${column})`;
+}
+
+// Where each kind of text is kept, with the id of the recording it belongs
+// to and any condition on which rows count.
+const SOURCES = [
+  { from: `FROM "Recordings" r`, recording: "r.id", column: "r.comment" },
+  {
+    from: `FROM "Tags" tag`,
+    recording: 'tag."RecordingId"',
+    column: "tag.detail"
+  },
+  {
+    from: `FROM "Tracks" track JOIN "TrackTags" tt ON tt."TrackId" = track.id`,
+    recording: 'track."RecordingId"',
+    column: "tt.data",
+    condition: 'track."archivedAt" IS NULL'
+  }
+];
+
+function where(...conditions: string[]): string {
+  return `WHERE ${conditions.filter((c) => c).join(" AND ")}`;
+}
+
+// A condition that the recording with recordingId has some text matching
+// query. The subqueries don't refer to the recording so that each is run
+// once, using its text search index, rather than once per recording.
+export function textMatchSql(recordingId: string, query: string): string {
+  const matches = SOURCES.map(
+    ({ from, recording, column, condition }) =>
+      `${recordingId} IN (SELECT ${recording} ${from} ${where(
+        condition,
+        `${document(column)} @@ ${query}`
+      )})`
+  );
+  return `(${matches.join(" OR ")})`;
+}
+
+// How well the text of the recording with recordingId matches query,
+// higher is better.
+export function textRankSql(recordingId: string, query: string): string {
+  const ranks = SOURCES.map(({ from, recording, column, condition }) => {
+    const rank = `ts_rank(${document(column)}, ${query})`;
+    const rows = `${from} ${where(condition, `${recording} = ${recordingId}`)}`;
+    // The best rank of the matching rows.
+    return `COALESCE((SELECT max(${rank}) ${rows}), 0)`;
+  });
+  return `(${ranks.join(" + ")})`;
+}
+
+export function validateText(text: any) {
+  if (typeof text !== "string" || text.trim() == "") {
+    throw new Error("Search text must be a non-empty string.");
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new Error(
+      `Search text can be at most ${MAX_TEXT_LENGTH} characters long.`
+    );
+  }
+  return true;
+}
@@ -16,11 +16,10 @@ You should have received a copy of the GNU Affero General Public License
 along with this program.  If not, see <http://www.gnu.org/licenses/>.
 */
 
-import AWS from "aws-sdk";
 import log from "../../logging";
 import fs from "fs";
 import mime from "mime";
-import config from "../../config";
+import { openStorage } from "./storage";
 import Sequelize from "sequelize";
 import { User } from "../User";
 import { ModelStaticCommon } from "../index";
@@ -135,13 +134,17 @@ export function getFileName(model) {
   return fileName;
 }
 
-export function geometrySetter(val) {
+// Takes [latitude, longitude], or a point with those coordinates.
+export function geometrySetter(
+  val: [number, number] | { coordinates: [number, number] } | string
+) {
   // Put here so old apps that send location in a string still work.
   // TODO remove this when nobody is using the old app that sends a string.
   if (typeof val === "string") {
     return;
   }
-  this.setDataValue("location", { type: "Point", coordinates: val });
+  const coordinates = val && !Array.isArray(val) ? val.coordinates : val;
+  this.setDataValue("location", { type: "Point", coordinates });
 }
 
 export function getFromId(id: number, user: User, attributes) {
@@ -212,15 +215,6 @@ export function userCanEdit(id, user) {
   });
 }
 
-export function openS3() {
-  return new AWS.S3({
-    endpoint: config.s3.endpoint,
-    accessKeyId: config.s3.publicKey,
-    secretAccessKey: config.s3.privateKey,
-    s3ForcePathStyle: true // needed for minio
-  });
-}
-
 export function saveFile(file /* model.File */) {
   const model = this;
   return new Promise(function (resolve, reject) {
@@ -236,21 +230,12 @@ export function saveFile(file /* model.File */) {
       .replace(/:/g, "")}_${Math.random().toString(36).substr(2)}`;
 
     // Save file with key.
-    const s3 = openS3();
     fs.readFile(file.path, function (err, data) {
-      const params = {
-        Bucket: config.s3.bucket,
-        Key: key,
-        Body: data
-      };
-      s3.upload(params, function (err) {
-        if (err) {
-          log.error("Error with saving to S3.");
-          log.error(err);
-          return reject(err);
-        } else {
+      openStorage()
+        .upload(key, data)
+        .then(() => {
           fs.unlinkSync(file.path); // Delete local file.
-          log.info("Successful saving to S3.");
+          log.info("Successful saving to object store.");
           file.key = key;
 
           model.setDataValue("filename", file.name);
@@ -258,27 +243,18 @@ export function saveFile(file /* model.File */) {
           model.setDataValue("size", file.size);
           model.setDataValue("fileKey", file.key);
           return resolve(model.save());
-        }
-      });
+        })
+        .catch((err) => {
+          log.error("Error with saving to object store.");
+          log.error(err);
+          return reject(err);
+        });
     });
   });
 }
 
 export function deleteFile(fileKey) {
-  return new Promise((resolve, reject) => {
-    const s3 = openS3();
-    const params = {
-      Bucket: config.s3.bucket,
-      Key: fileKey
-    };
-    s3.deleteObject(params, function (err, data) {
-      if (err) {
-        return reject(err);
-      } else {
-        return resolve(data);
-      }
-    });
-  });
+  return openStorage().delete(fileKey);
 }
 
 export default {
@@ -288,6 +264,5 @@ export default {
   getFromId,
   deleteModelInstance,
   userCanEdit,
-  openS3,
   saveFile
 };
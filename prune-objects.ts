@@ -2,14 +2,15 @@ import process from "process";
 const args = require("commander");
 const { Client } = require("pg");
 const config = require("./config");
-const modelsUtil = require("./models/util/util");
+const { openStorage } = require("./models/util/storage");
 
 let Config;
 // Define the types of object keys that will be considered for pruning.
 const keyTypes = Object.freeze([
   { prefix: "f", table: "Files", column: "fileKey" },
   { prefix: "raw", table: "Recordings", column: "rawFileKey" },
-  { prefix: "rec", table: "Recordings", column: "fileKey" }
+  { prefix: "rec", table: "Recordings", column: "fileKey" },
+  { prefix: "artifact", table: "Artifacts", column: "fileKey" }
 ]);
 
 async function main() {
@@ -28,14 +29,14 @@ async function main() {
   }
 
   const pgClient = await pgConnect();
-  const s3 = modelsUtil.openS3();
+  const storage = openStorage();
 
-  const bucketKeys = await loadAllBucketKeys(
-    s3,
+  const storeKeys = await loadAllStoreKeys(
+    storage,
     keyTypes.map((x) => x.prefix)
   );
 
-  console.log(`loaded ${bucketKeys.size} keys from the object store`);
+  console.log(`loaded ${storeKeys.size} keys from the object store`);
 
   console.log(
     "waiting 20 minutes before getting keys from database to give uploading recordings time to finish"
@@ -45,43 +46,28 @@ async function main() {
   const dbKeys = await loadAllDBKeys(pgClient, keyTypes);
   console.log(`${dbKeys.size} keys loaded from the database`);
 
-  const toDelete = new Set([...bucketKeys].filter((x) => !dbKeys.has(x)));
+  const toDelete = new Set([...storeKeys].filter((x) => !dbKeys.has(x)));
   console.log(`${toDelete.size} keys to delete`);
 
   if (toDelete.size > 0 && args.delete) {
-    await deleteObjects(s3, Config.s3.bucket, toDelete);
+    await deleteObjects(storage, toDelete);
     console.log(`objects deleted`);
   }
 }
 
-async function loadAllBucketKeys(s3, prefixes) {
+async function loadAllStoreKeys(storage, prefixes) {
   const p = [];
   for (const prefix of prefixes) {
-    p.push(loadBucketKeys(s3, Config.s3.bucket, prefix));
+    p.push(loadStoreKeys(storage, prefix));
   }
   return collectKeys(p);
 }
 
-async function loadBucketKeys(s3, bucket, prefix) {
-  const params: any = {
-    Bucket: bucket,
-    Prefix: prefix
-  };
-
+async function loadStoreKeys(storage, prefix) {
   const keys = new Set();
-  for (;;) {
-    const data = await s3.listObjects(params).promise();
-
-    data.Contents.forEach((elem) => {
-      keys.add(elem.Key);
-    });
-
-    if (!data.IsTruncated) {
-      break;
-    }
-    params.Marker = data.NextMarker;
+  for await (const obj of storage.list(prefix)) {
+    keys.add(obj.key);
   }
-
   return keys;
 }
 
@@ -129,14 +115,9 @@ async function collectKeys(promises) {
   return allKeys;
 }
 
-async function deleteObjects(s3, bucket, keys) {
-  const params: any = {
-    Bucket: bucket
-  };
-
+async function deleteObjects(storage, keys) {
   for (const key of keys) {
-    params.Key = key;
-    await s3.deleteObject(params).promise();
+    await storage.delete(key);
   }
 }
 
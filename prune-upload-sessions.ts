@@ -0,0 +1,25 @@
+/*
+Removes resumable upload sessions that have expired, along with any chunks
+they still hold in the object store.
+*/
+
+import process from "process";
+import log from "./logging";
+import models from "./models";
+import { openStorage } from "./models/util/storage";
+
+async function main() {
+  const sessions = await models.UploadSession.getExpired();
+  log.info(`${sessions.length} expired upload sessions to remove`);
+
+  for (const session of sessions) {
+    await openStorage().deleteMany(session.chunkKeys());
+    await session.destroy();
+  }
+}
+
+main()
+  .catch(log.error)
+  .then(() => {
+    process.exit(0);
+  });
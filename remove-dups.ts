@@ -1,3 +1,8 @@
+/*
+Recording uploads are deduplicated by content hash when they arrive. This
+script is kept for cleaning up duplicates that were uploaded before that.
+*/
+
 import config from "./config";
 
 const args = require("commander");
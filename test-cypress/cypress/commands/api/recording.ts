@@ -17,7 +17,7 @@ Cypress.Commands.add(
       { camera: cameraName, requestData: data }
     );
 
-    const fileName = "invalid.cptv";
+    const fileName = "small.cptv";
     const url = v1ApiPath("recordings");
     const fileType = "application/cptv";
 
@@ -30,6 +30,28 @@ export function sendMultipartMessage(
   return cy.wait(waitOn);
 }
 
+// The server treats a device uploading the same file twice as a retry and
+// returns the original recording, so every uploaded file must differ.
+function makeUnique(fileBinary: string): string {
+  const random = () => String.fromCharCode(Math.floor(Math.random() * 256));
+  if (fileBinary.startsWith("\x1f\x8b")) {
+    // gzip compressed (eg. CPTV): change the modification time in the header.
+    return (
+      fileBinary.slice(0, 4) +
+      random() +
+      random() +
+      random() +
+      random() +
+      fileBinary.slice(8)
+    );
+  }
+  let suffix = "";
+  for (let i = 0; i < 8; i++) {
+    suffix += random();
+  }
+  return fileBinary + suffix;
+}
+
 // Uploads a file and data in a multipart message
 // the file must be in the fixtures folder
 export function uploadFile(
@@ -45,7 +67,10 @@ export function uploadFile(
   // Get file from fixtures as binary
   return cy.fixture(fileName, "binary").then((fileBinary) => {
     // File in binary format gets converted to blob so it can be sent as Form data
-    const blob = Cypress.Blob.binaryStringToBlob(fileBinary, fileType);
+    const blob = Cypress.Blob.binaryStringToBlob(
+      makeUnique(fileBinary),
+      fileType
+    );
 
     // Build up the form
     const formData = new FormData();
@@ -84,6 +84,11 @@ class APIBase:
         raise_specific_exception(response)
         yield from response.iter_content(chunk_size=4096)
 
+    def request_signed(self, token, method="GET", headers=None):
+        return requests.request(
+            method, urljoin(self._baseurl, "/api/v1/signedUrl"), params={"jwt": token}, headers=headers
+        )
+
     def get_file(self, file_id):
         url = urljoin(self._baseurl, "/api/v1/files/{}".format(file_id))
         response = requests.get(url, headers=self._auth_header)
@@ -1,3 +1,4 @@
+import json
 from urllib.parse import urljoin
 from datetime import datetime
 
@@ -28,6 +29,33 @@ class DeviceAPI(APIBase):
             props = {}
         return self._upload("/api/v1/audiorecordings", filename, props)
 
+    def start_upload_session(self, props, filename=None):
+        url = urljoin(self._baseurl, "/api/v1/recordings/uploads")
+        data = {"data": json.dumps(props)}
+        if filename:
+            data["filename"] = filename
+        response = requests.post(url, headers=self._auth_header, data=data)
+        return self._check_response(response)["uploadId"]
+
+    def get_upload_session(self, upload_id):
+        url = urljoin(self._baseurl, "/api/v1/recordings/uploads/{}".format(upload_id))
+        response = requests.get(url, headers=self._auth_header)
+        return self._check_response(response)
+
+    def upload_chunk(self, upload_id, chunk_number, content):
+        url = urljoin(
+            self._baseurl, "/api/v1/recordings/uploads/{}/chunks/{}".format(upload_id, chunk_number)
+        )
+        headers = self._auth_header.copy()
+        headers["Content-Type"] = "application/octet-stream"
+        response = requests.put(url, headers=headers, data=content)
+        self._check_response(response)
+
+    def finalise_upload_session(self, upload_id, chunks):
+        url = urljoin(self._baseurl, "/api/v1/recordings/uploads/{}/finalise".format(upload_id))
+        response = requests.post(url, headers=self._auth_header, data={"chunks": chunks})
+        return self._check_response(response)["recordingId"]
+
     def record_event(self, type_, details, times=None):
         data = {"description": {"type": type_, "details": details}}
         return self.record_event_data(data, times)
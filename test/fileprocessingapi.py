@@ -59,6 +59,14 @@ class FileProcessingAPI:
         r = requests.delete(self._url + "/{}/tracks".format(recording.id_))
         raise_specific_exception(r)
 
+    def add_artifact(self, recording, artifact_type, content, filename="artifact.png", **data):
+        url = self._url + "/{}/artifacts".format(recording.id_)
+        data["type"] = artifact_type
+        r = requests.post(url, data={"data": json.dumps(data)}, files={"file": (filename, content)})
+        if r.status_code == 200:
+            return r.json()["artifactId"]
+        raise_specific_exception(r)
+
     def add_track_tag(self, track, tag):
         url = self._url + "/{}/tracks/{}/tags".format(track.recording.id_, track.id_)
         post_data = {"what": tag.what, "confidence": tag.confidence, "data": json.dumps(tag.data)}
@@ -1,3 +1,13 @@
+import os
+import random
+import tempfile
+
+# Details from the header of files/small.cptv.
+SMALL_CPTV_TIMESTAMP = "2020-11-27T13:03:50.368Z"
+SMALL_CPTV_LOCATION = [-43.65536, 172.63158]
+SMALL_CPTV_DURATION = 18
+
+
 class Recording:
     def __init__(self, id_, props, content_filename, recording_name=""):
         self.id_ = id_
@@ -49,3 +59,21 @@ def slurp(filename):
         return None
     with open(filename, "rb") as f:
         return f.read()
+
+
+def unique_copy(filename):
+    """
+    Returns the name of a copy of the file with content that no other upload has.
+    The server treats a device uploading the same file twice as a retry and
+    returns the original recording, so each test recording must differ.
+    """
+    content = bytearray(slurp(filename))
+    if content[:2] == b"\x1f\x8b":
+        # gzip compressed (eg. CPTV): change the modification time in the header.
+        content[4:8] = random.getrandbits(32).to_bytes(4, "little")
+    else:
+        content += random.getrandbits(64).to_bytes(8, "little")
+    fd, path = tempfile.mkstemp(suffix=os.path.splitext(filename)[1])
+    with os.fdopen(fd, "wb") as f:
+        f.write(content)
+    return path
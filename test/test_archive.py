@@ -0,0 +1,57 @@
+import pytest
+
+from .testexception import AuthenticationError
+
+
+def find_file(files, recording, suffix):
+    names = [name for name in files if name.endswith("-{}{}".format(recording.id_, suffix))]
+    assert len(names) == 1, "expected one '{}' file for {}, found {}".format(suffix, recording, names)
+    return files[names[0]]
+
+
+class TestArchive:
+    def test_archive(self, helper):
+        user, device = helper.given_new_user_with_device(self, "archiver")
+        device.location = [-43.5321, 172.6362]
+        rec0 = device.upload_recording()
+        rec1 = device.upload_recording()
+
+        track = user.can_add_track_to_recording(rec1)
+        user.can_tag_track(track, what="possum", automatic=False)
+
+        print("When the user downloads an archive of their recordings")
+        files = user.get_archive(deviceIds=[device.get_id()])
+
+        print("Then it should contain each raw file and its details")
+        assert len(files) == 4
+        assert find_file(files, rec0, ".cptv") == rec0.content
+        assert find_file(files, rec1, ".cptv") == rec1.content
+
+        details = find_file(files, rec1, ".json")
+        assert details["id"] == rec1.id_
+        assert "rawFileKey" not in details
+        assert [t["what"] for t in details["Tracks"][0]["TrackTags"]] == ["possum"]
+
+        print("And locations should have reduced precision")
+        lat, lng = find_file(files, rec0, ".json")["location"]["coordinates"]
+        assert lat != -43.5321 and lng != 172.6362
+        assert lat == pytest.approx(-43.5321, abs=0.001)
+
+    def test_archive_respects_permissions(self, helper):
+        _, device = helper.given_new_user_with_device(self, "archive_owner")
+        other, _ = helper.given_new_user_with_device(self, "archive_other")
+        device.upload_recording()
+
+        print("A user should not get recordings from devices they can't see")
+        assert other.get_archive(deviceIds=[device.get_id()]) == {}
+
+    def test_archive_jwt_arg(self, helper):
+        user, device = helper.given_new_user_with_device(self, "archive_jwt")
+        rec = device.upload_recording()
+
+        token = user.new_token()
+        files = user.get_archive(deviceIds=[device.get_id()], jwt=token)
+        assert find_file(files, rec, ".cptv") == rec.content
+
+        with pytest.raises(AuthenticationError):
+            user.get_archive(jwt="not-a-token")
@@ -0,0 +1,116 @@
+import math
+
+import pytest
+
+from .testexception import UnprocessableError
+
+CHRISTCHURCH = [-43.52345, 172.63456]
+DUNEDIN = [-45.87412, 170.50362]
+
+
+def reduced_precision(location, precision=100):
+    # Matches how the API reduces the precision of locations for users
+    # without global write access.
+    resolution = precision * 360 / 40000000
+    out = []
+    for value in location:
+        value = value - math.fmod(value, resolution)
+        out.append(value + resolution / 2 if value > 0 else value - resolution / 2)
+    return out
+
+
+def near(location, radius):
+    return {"near": {"lat": location[0], "lng": location[1], "radius": radius}}
+
+
+class TestAreaFilters:
+    def test_recordings_in_area(self, helper):
+        user, device = helper.given_new_user_with_device(self, "mapper")
+        chch = device.upload_recording({"location": CHRISTCHURCH})
+        dunedin = device.upload_recording({"location": DUNEDIN})
+        device.upload_recording()
+
+        def ids(area, **options):
+            rows = user.query_recordings(deviceIds=[device.get_id()], area=area, **options)
+            return {row["id"] for row in rows}
+
+        print("A bounding box should only match recordings inside it")
+        bbox = {"bbox": {"minLat": -44, "minLng": 172, "maxLat": -43, "maxLng": 173}}
+        assert ids(bbox) == {chch.id_}
+
+        print("A point and radius should only match recordings close enough to it")
+        assert ids(near([-43.5, 172.6], 10000)) == {chch.id_}
+        assert ids(near([-44.7, 171.6], 200000)) == {chch.id_, dunedin.id_}
+
+        print("A polygon should only match recordings inside it, given as GeoJSON [lng, lat]")
+        polygon = {
+            "polygon": {
+                "type": "Polygon",
+                "coordinates": [[[170, -46], [171, -46], [171, -45], [170, -45], [170, -46]]],
+            }
+        }
+        assert ids(polygon) == {dunedin.id_}
+
+        print("Area filters should combine with tags")
+        chch.is_tagged_as(what="interesting").by(user)
+        dunedin.is_tagged_as(what="interesting").by(user)
+        assert ids(bbox, tagmode="tagged", tags=["interesting"]) == {chch.id_}
+        assert ids(polygon, tagmode="no-human") == set()
+
+    def test_area_uses_reduced_precision(self, helper):
+        user, device = helper.given_new_user_with_device(self, "imprecise")
+        recording = device.upload_recording({"location": CHRISTCHURCH})
+
+        def ids(user, area):
+            return {row["id"] for row in user.query_recordings(deviceIds=[device.get_id()], area=area)}
+
+        print("Users should find recordings where they are shown to be, not where they are")
+        assert ids(user, near(reduced_precision(CHRISTCHURCH), 1)) == {recording.id_}
+        assert ids(user, near(CHRISTCHURCH, 1)) == set()
+
+        print("Admins should find recordings where they are")
+        assert ids(helper.admin_user(), near(CHRISTCHURCH, 1)) == {recording.id_}
+
+    def test_devices_in_area(self, helper):
+        user, device = helper.given_new_user_with_device(self, "wanderer")
+        device.upload_recording({"location": DUNEDIN, "recordingDateTime": "2021-01-01T10:00:00Z"})
+
+        print("Devices should be found by the location of their latest recording")
+        assert device.get_id() in user.get_devices_in_area(near(DUNEDIN, 1000))
+        assert device.get_id() not in user.get_devices_in_area(near(CHRISTCHURCH, 1000))
+
+        device.upload_recording({"location": CHRISTCHURCH, "recordingDateTime": "2021-01-02T10:00:00Z"})
+        assert device.get_id() not in user.get_devices_in_area(near(DUNEDIN, 1000))
+        assert device.get_id() in user.get_devices_in_area(near(CHRISTCHURCH, 1000))
+
+    def test_stations_in_area(self, helper):
+        user = helper.given_new_user(self, "surveyor")
+        group = helper.make_unique_group_name(self, "surveyors")
+        user.create_group(group)
+        user.add_stations_to_group(
+            group,
+            '[{"name": "chch", "lat": %f, "lng": %f}, {"name": "dunedin", "lat": %f, "lng": %f}]'
+            % (*CHRISTCHURCH, *DUNEDIN),
+        )
+
+        stations = user.get_stations_for_group(group, near(DUNEDIN, 1000))["stations"]
+        assert [station["name"] for station in stations] == ["dunedin"]
+
+    def test_invalid_areas(self, helper):
+        user = helper.given_new_user(self, "lost")
+        invalid = [
+            {},
+            {"bbox": {"minLat": -44, "minLng": 172, "maxLat": -43}},
+            {"bbox": {"minLat": -43, "minLng": 172, "maxLat": -44, "maxLng": 173}},
+            near([-95, 172], 100),
+            near([-43, 172], 0),
+            {"near": {"lat": -43, "lng": 172, "radius": "far"}},
+            {"polygon": {"type": "Polygon", "coordinates": [[[170, -46], [171, -46], [171, -45]]]}},
+            {"polygon": {"type": "Point", "coordinates": [170, -46]}},
+            {"bbox": {"minLat": -44, "minLng": 172, "maxLat": -43, "maxLng": 173}, "near": {}},
+        ]
+        for area in invalid:
+            with pytest.raises(UnprocessableError):
+                user.query_recordings(area=area)
+        with pytest.raises(UnprocessableError):
+            user.get_devices_in_area({"circle": {}})
@@ -0,0 +1,46 @@
+import pytest
+
+from .testexception import UnprocessableError
+
+POSTER = b"\x89PNG\r\n\x1a\n poster"
+THUMBNAIL = b"\x89PNG\r\n\x1a\n thumbnail"
+
+
+class TestArtifacts:
+    def test_artifacts_in_query_results(self, helper, file_processing):
+        user, device = helper.given_new_user_with_device(self, "previewed")
+        recording = device.upload_recording()
+        track = user.can_add_track_to_recording(recording)
+
+        print("When file processing adds a poster and a track thumbnail")
+        file_processing.add_artifact(recording, "poster", b"old poster", width=160, height=120)
+        file_processing.add_artifact(recording, "poster", POSTER, width=160, height=120)
+        file_processing.add_artifact(recording, "trackThumbnail", THUMBNAIL, trackId=track.id_)
+
+        print("Then the recording should have just the latest poster and the thumbnail")
+        [result] = user.query_recordings(deviceIds=[device.get_id()])
+        artifacts = {a["type"]: a for a in result["Artifacts"]}
+        assert set(artifacts) == {"poster", "trackThumbnail"}
+        assert artifacts["poster"]["width"] == 160
+        assert artifacts["poster"]["mimeType"] == "image/png"
+        assert artifacts["poster"]["TrackId"] is None
+        assert artifacts["trackThumbnail"]["TrackId"] == track.id_
+        assert "fileKey" not in artifacts["poster"]
+
+        print("And each can be downloaded with its JWT")
+        assert user.download_artifact(artifacts["poster"]) == POSTER
+        assert user.download_artifact(artifacts["trackThumbnail"]) == THUMBNAIL
+
+        print("And they are also returned with the recording")
+        artifacts = user.get_recording(recording)["Artifacts"]
+        assert len(artifacts) == 2
+
+    def test_invalid_artifacts(self, helper, file_processing):
+        recording = helper.given_a_recording(self)
+
+        with pytest.raises(UnprocessableError):
+            file_processing.add_artifact(recording, "movie", POSTER)
+        with pytest.raises(UnprocessableError):
+            file_processing.add_artifact(recording, "trackThumbnail", THUMBNAIL)
+        with pytest.raises(UnprocessableError):
+            file_processing.add_artifact(recording, "poster", b"text", filename="poster.txt")
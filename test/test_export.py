@@ -0,0 +1,63 @@
+import pytest
+
+from .testexception import UnprocessableError
+
+CHRISTCHURCH = [-43.52345, 172.63456]
+
+
+class TestExport:
+    def test_camtrap_dp_export(self, helper):
+        user, device = helper.given_new_user_with_device(self, "exporter")
+        possum = device.upload_recording({"location": CHRISTCHURCH})
+        track = user.can_add_track_to_recording(possum)
+        user.tag_track(track, "possum")
+        user.tag_track_as_AI(track, "cat")
+        nothing = device.upload_audio_recording({"location": CHRISTCHURCH})
+
+        package = user.get_camtrap_dp(deviceIds=[device.get_id()])
+        assert sorted(package) == ["datapackage.json", "deployments.csv", "media.csv", "observations.csv"]
+        assert [r["path"] for r in package["datapackage.json"]["resources"]] == [
+            "deployments.csv",
+            "media.csv",
+            "observations.csv",
+        ]
+
+        print("The device should be a deployment, at the precision the user can see")
+        [deployment] = package["deployments.csv"]
+        assert deployment["deploymentID"] == str(device.get_id())
+        assert float(deployment["latitude"]) != CHRISTCHURCH[0]
+        assert abs(float(deployment["latitude"]) - CHRISTCHURCH[0]) < 0.01
+        assert deployment["coordinateUncertainty"] == "100"
+
+        print("Each recording should be a media file")
+        media = {row["mediaID"]: row for row in package["media.csv"]}
+        assert set(media) == {str(possum.id_), str(nothing.id_)}
+        assert media[str(possum.id_)]["captureMethod"] == "motion detection"
+        assert media[str(nothing.id_)]["captureMethod"] == "time lapse"
+
+        print("Only tags people gave tracks should be observations")
+        [observation] = package["observations.csv"]
+        assert observation["mediaID"] == str(possum.id_)
+        assert observation["observationType"] == "animal"
+        assert observation["scientificName"] == "Trichosurus vulpecula"
+        assert observation["classificationMethod"] == "human"
+
+    def test_darwin_core_export(self, helper):
+        user, device = helper.given_new_user_with_device(self, "dwc_exporter")
+        recording = device.upload_recording({"location": CHRISTCHURCH})
+        track = user.can_add_track_to_recording(recording)
+        user.tag_track(track, "possum")
+        user.tag_track(user.can_add_track_to_recording(recording), "false-positive")
+
+        print("Occurrences should only be given for animals")
+        [occurrence] = user.get_darwin_core(deviceIds=[device.get_id()])
+        assert occurrence["scientificName"] == "Trichosurus vulpecula"
+        assert occurrence["vernacularName"] == "possum"
+        assert occurrence["basisOfRecord"] == "MachineObservation"
+        assert occurrence["eventID"] == str(recording.id_)
+        assert float(occurrence["decimalLongitude"]) != CHRISTCHURCH[1]
+
+    def test_invalid_export_format(self, helper):
+        user = helper.given_new_user(self, "bad_exporter")
+        with pytest.raises(UnprocessableError):
+            user.export_recordings(format="eml")
@@ -0,0 +1,81 @@
+import pytest
+
+from .testexception import AuthorizationError, QuotaExceededError
+
+
+class TestQuotas:
+    def test_device_recordings_per_day_quota(self, helper):
+        admin = helper.admin_user()
+        user, device = helper.given_new_user_with_device(self, "busy_camera")
+
+        print("When an admin limits the device to two recordings a day")
+        admin.set_device_quotas(device, recordingsPerDayQuota=2)
+        device.upload_recording()
+        device.upload_recording()
+
+        print("Then its next upload should be refused")
+        with pytest.raises(QuotaExceededError):
+            device.upload_recording()
+        with pytest.raises(QuotaExceededError):
+            device.upload_recording()
+
+        print("And the first refusal of the day should be logged as an event")
+        events = user.can_see_events(device=device, type="quotaExceeded")
+        assert len(events) == 1
+        assert events[0]["EventDetail"]["details"] == {
+            "level": "device",
+            "quota": "recordingsPerDay",
+            "limit": 2,
+        }
+
+        print("And the admin should see the device's usage against its quota")
+        usage = admin.get_group_quota_usage(user.get_own_group())
+        [device_usage] = usage["devices"]
+        assert device_usage["recordingsToday"] == 2
+        assert device_usage["recordingsPerDayQuota"] == 2
+        assert usage["group"]["recordingsPerDayQuota"] is None
+
+        print("And removing the quota should allow uploads again")
+        admin.set_device_quotas(device, recordingsPerDayQuota=None)
+        device.upload_recording()
+
+    def test_group_bytes_per_month_quota(self, helper):
+        admin = helper.admin_user()
+        user, device = helper.given_new_user_with_device(self, "big_files")
+        group = user.get_own_group()
+
+        print("When an admin limits the group to a single byte a month")
+        admin.set_group_quotas(group, bytesPerMonthQuota=1)
+
+        print("Then a device in the group can upload until the quota is used up")
+        recording = device.upload_recording()
+        with pytest.raises(QuotaExceededError):
+            device.upload_recording()
+        with pytest.raises(QuotaExceededError):
+            device.start_chunked_upload(256 * 1024)
+
+        usage = admin.get_group_quota_usage(group)
+        assert usage["group"]["bytesThisMonth"] == len(recording.content)
+        assert usage["group"]["bytesPerMonthQuota"] == 1
+
+    def test_quota_used_up_during_chunked_upload(self, helper):
+        admin = helper.admin_user()
+        _, device = helper.given_new_user_with_device(self, "slow_uploader")
+
+        print("When a device starts a chunked upload while it is under its quota")
+        admin.set_device_quotas(device, recordingsPerDayQuota=1)
+        upload = device.start_chunked_upload(256 * 1024)
+        for chunk_number in range(len(upload.chunks)):
+            upload.send_chunk(chunk_number)
+
+        print("And uses up the quota with another upload before finalising")
+        device.upload_recording()
+
+        print("Then finalising the chunked upload should be refused")
+        with pytest.raises(QuotaExceededError):
+            upload.finalise()
+
+    def test_only_admins_can_set_quotas(self, helper):
+        user, device = helper.given_new_user_with_device(self, "sneaky")
+        with pytest.raises(AuthorizationError):
+            user.set_device_quotas(device, recordingsPerDayQuota=1000000)
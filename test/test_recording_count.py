@@ -0,0 +1,29 @@
+class TestRecordingCount:
+    def test_count_matches_query(self, helper):
+        owner, device = helper.given_new_user_with_device(self, "counted")
+        device.upload_recording()
+        tagged = device.upload_recording()
+        tagged.is_tagged_as(what="interesting").by(owner)
+        device.upload_audio_recording()
+
+        print("A user given access to just the device should count the same recordings as they can query")
+        viewer = helper.given_new_user(self, "device_viewer")
+        owner.add_to_device(viewer, device)
+        where = {"DeviceId": device.get_id()}
+        for user in [owner, viewer]:
+            assert user.count_recordings(where=where)["count"] == len(user.query_recordings(where=where)) == 3
+
+        print("The count should respect tagMode and tags")
+        result = viewer.count_recordings(where=where, tagmode="tagged", tags=["interesting"])
+        assert result["count"] == 1
+        assert not result["approximate"]
+        assert viewer.count_recordings(where=where, tagmode="untagged")["count"] == 2
+
+        print("Small counts should be exact even when an approximate count is asked for")
+        result = viewer.count_recordings(where=where, approximate=True)
+        assert result["count"] == 3
+        assert not result["approximate"]
+
+        print("Users without access shouldn't count the recordings")
+        outsider = helper.given_new_user(self, "count_outsider")
+        assert outsider.count_recordings(where=where)["count"] == 0
@@ -0,0 +1,51 @@
+from datetime import datetime, timedelta, timezone
+
+import pytest
+
+from .testexception import UnprocessableError
+
+
+class TestRecordingCursor:
+    def test_paging_with_cursor(self, helper):
+        user, device = helper.given_new_user_with_device(self, "pager")
+        start = datetime(2021, 3, 1, 22, 0, 0, 123456, tzinfo=timezone.utc)
+        times = [
+            start,
+            start,
+            start + timedelta(microseconds=1),
+            start - timedelta(hours=1),
+            start - timedelta(days=1),
+        ]
+        recordings = []
+        for time in times:
+            recordings.append(device.upload_recording(properties={"recordingDateTime": time.isoformat()}))
+
+        print("Paging with a cursor should return each recording once, newest first")
+        ids = []
+        cursor = None
+        for _ in range(len(times)):
+            page = user.query_recordings(
+                deviceIds=[device.get_id()], limit=2, cursor=cursor, return_json=True
+            )
+            ids.extend(row["id"] for row in page["rows"])
+            cursor = page["nextCursor"]
+            if cursor is None:
+                break
+
+            print("New uploads mid-scroll shouldn't shift later pages")
+            device.upload_recording(properties={"recordingDateTime": datetime.now(timezone.utc).isoformat()})
+
+        expected = [recordings[2], recordings[1], recordings[0], recordings[3], recordings[4]]
+        assert ids == [rec.id_ for rec in expected]
+
+    def test_invalid_cursor(self, helper):
+        user, device = helper.given_new_user_with_device(self, "bad_pager")
+        device.upload_recording()
+        device.upload_recording()
+        page = user.query_recordings(deviceIds=[device.get_id()], limit=1, return_json=True)
+        assert page["nextCursor"]
+
+        with pytest.raises(UnprocessableError):
+            user.query_recordings(cursor="not-a-cursor")
+        with pytest.raises(UnprocessableError):
+            user.query_recordings(cursor=page["nextCursor"], offset=1)
@@ -0,0 +1,55 @@
+import pytest
+
+from .testexception import UnprocessableError
+
+
+def counts(buckets):
+    return {bucket["value"]: bucket["count"] for bucket in buckets}
+
+
+class TestRecordingFacets:
+    def test_recording_facets(self, helper):
+        user, device = helper.given_new_user_with_device(self, "faceter")
+        # 11pm on a Monday and 11am on a Tuesday in New Zealand.
+        device.upload_recording({"recordingDateTime": "2021-02-01T10:00:00Z"})
+        device.upload_recording({"recordingDateTime": "2021-02-01T22:00:00Z"})
+        device.upload_audio_recording({"recordingDateTime": "2021-03-01T22:00:00Z"})
+
+        where = {"DeviceId": device.get_id()}
+        facets = user.query_facets(["type", "DeviceId", "hour", "weekday", "month"], where=where)
+
+        print("Recordings should be counted by their own values")
+        assert counts(facets["type"]) == {"thermalRaw": 2, "audio": 1}
+        assert counts(facets["DeviceId"]) == {device.get_id(): 3}
+
+        print("Times should be bucketed in New Zealand time")
+        assert counts(facets["hour"]) == {11: 2, 23: 1}
+        assert counts(facets["weekday"]) == {1: 1, 2: 2}
+        assert counts(facets["month"]) == {"2021-02": 2, "2021-03": 1}
+
+        print("Facets should only count recordings matching the query")
+        facets = user.query_facets(["type"], where={"DeviceId": device.get_id(), "type": "audio"})
+        assert counts(facets["type"]) == {"audio": 1}
+
+    def test_track_tag_facets(self, helper):
+        user, device = helper.given_new_user_with_device(self, "tag_faceter")
+        possum = device.upload_recording()
+        user.tag_track(user.can_add_track_to_recording(possum), "possum")
+        both = device.upload_recording()
+        user.tag_track_as_AI(user.can_add_track_to_recording(both), "possum")
+        user.tag_track(user.can_add_track_to_recording(both), "cat")
+        device.upload_recording()
+
+        facets = user.query_facets(["what", "tagger"], where={"DeviceId": device.get_id()})
+
+        print("Recordings should be counted once for each thing their tracks are tagged as")
+        assert facets["what"] == [{"value": "possum", "count": 2}, {"value": "cat", "count": 1}]
+
+        print("And by whether they are tagged by people, automatically or not at all")
+        assert counts(facets["tagger"]) == {"human": 2, "automatic": 1, "untagged": 1}
+
+    def test_invalid_facets(self, helper):
+        user = helper.given_new_user(self, "bad_faceter")
+        for facets in [[], ["devicename"], "type"]:
+            with pytest.raises(UnprocessableError):
+                user.query_facets(facets)
@@ -0,0 +1,55 @@
+import pytest
+
+from .testexception import UnprocessableError
+
+
+class TestRecordingWhere:
+    def test_filters(self, helper):
+        user, device = helper.given_new_user_with_device(self, "filterer")
+        short = device.upload_recording({"duration": 5, "recordingDateTime": "2021-02-01T10:00:00Z"})
+        long = device.upload_recording({"duration": 50, "recordingDateTime": "2021-02-02T10:00:00Z"})
+        audio = device.upload_audio_recording({"duration": 30, "recordingDateTime": "2021-02-03T10:00:00Z"})
+
+        def ids(where):
+            where = {"$and": [{"DeviceId": device.get_id()}, where]}
+            return {row["id"] for row in user.query_recordings(where=where)}
+
+        print("Fields can be compared with operators, values and lists of values")
+        assert ids({"duration": {"$gte": 10, "$lt": 40}}) == {audio.id_}
+        assert ids({"duration": {"$between": [1, 30]}}) == {short.id_, audio.id_}
+        assert ids({"type": "audio"}) == {audio.id_}
+        assert ids({"id": [short.id_, long.id_]}) == {short.id_, long.id_}
+        assert ids({"comment": {"$iLike": "HMM%"}, "type": "thermalRaw"}) == {short.id_, long.id_}
+
+        print("Numbers and dates should be converted from strings")
+        assert ids({"duration": "50"}) == {long.id_}
+        assert ids({"recordingDateTime": {"$gte": "2021-02-02T00:00:00Z"}}) == {long.id_, audio.id_}
+
+        print("Filters can be combined")
+        assert ids({"$or": [{"type": "audio"}, {"duration": {"$lt": 10}}]}) == {short.id_, audio.id_}
+        assert ids({"$not": {"type": "audio"}}) == {short.id_, long.id_}
+
+    def test_invalid_filters(self, helper):
+        user = helper.given_new_user(self, "bad_filterer")
+        for where in [
+            {"devicename": "camera"},
+            {"fileKey": "some_key"},
+            {"duration": {"$regexp": "5"}},
+            {"duration": {"$like": "5%"}},
+            {"duration": "long"},
+            {"id": 1.5},
+            {"recordingDateTime": {"$gte": "yesterday"}},
+            {"airplaneModeOn": "sometimes"},
+            {"metadataDiscrepancies": {"$ne": "none"}},
+            {"DeviceId": []},
+            {"duration": {"$between": [1]}},
+            {"$or": {"type": "audio"}},
+            {"$xor": [{"type": "audio"}]},
+        ]:
+            with pytest.raises(UnprocessableError):
+                user.query_recordings(where=where)
+
+        print("Errors should say which part of the filter is wrong")
+        with pytest.raises(UnprocessableError) as error:
+            user.query_recordings(where={"$or": [{"type": "audio"}, {"duration": {"$gte": "long"}}]})
+        assert "where.$or[1].duration.$gte" in str(error.value)
@@ -1,6 +1,9 @@
 from datetime import datetime, timedelta, timezone
 import dateutil.parser
 import dateutil.tz as tz
+import pytest
+
+from .recording import SMALL_CPTV_LOCATION
 
 
 class TestReport:
@@ -86,6 +89,10 @@ class ReportChecker:
         if device.location:
             assert line["Latitude"] == "{}".format(device.location[0])
             assert line["Longitude"] == "{}".format(device.location[1])
+        elif rec["type"] == "thermalRaw":
+            # Filled in from the CPTV file's header.
+            assert float(line["Latitude"]) == pytest.approx(SMALL_CPTV_LOCATION[0], abs=0.001)
+            assert float(line["Longitude"]) == pytest.approx(SMALL_CPTV_LOCATION[1], abs=0.001)
         else:
             assert line["Latitude"] == ""
             assert line["Longitude"] == ""
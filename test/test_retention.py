@@ -0,0 +1,60 @@
+import pytest
+
+from .testexception import AuthorizationError, UnprocessableError
+
+
+class TestRetention:
+    def test_retention_policy_report(self, helper):
+        admin = helper.admin_user()
+        user, device = helper.given_new_user_with_device(self, "retention_camera")
+        group = user.get_own_group()
+        device.upload_recording()
+
+        print("A group without a retention policy keeps everything")
+        response = admin.get_group_retention_report(group)
+        assert response["retentionPolicy"] is None
+        assert response["report"] == {}
+
+        print("When an admin sets a retention policy")
+        policy = {"dropRawAfterProcessingDays": 30, "deleteWithoutTracksAfterDays": None}
+        admin.set_group_retention_policy(group, policy)
+
+        print("Then the report only covers the rules that are turned on")
+        response = admin.get_group_retention_report(group)
+        assert response["retentionPolicy"] == policy
+        assert response["report"] == {
+            "dropRawAfterProcessingDays": {"afterDays": 30, "recordings": 0, "rawBytes": 0}
+        }
+
+        print("And a new recording isn't due to be removed")
+        admin.set_group_retention_policy(group, {"deleteWithoutTracksAfterDays": 1})
+        report = admin.get_group_retention_report(group)["report"]
+        assert report["deleteWithoutTracksAfterDays"]["recordings"] == 0
+
+        print("And the policy can be removed")
+        admin.set_group_retention_policy(group, None)
+        assert admin.get_group_retention_report(group)["retentionPolicy"] is None
+
+    def test_invalid_retention_policy(self, helper):
+        admin = helper.admin_user()
+        user = helper.given_new_user(self, "retention_invalid")
+        group = user.get_own_group()
+
+        for policy in [
+            {"deleteEverythingAfterDays": 1},
+            {"dropRawAfterProcessingDays": 0},
+            {"dropRawAfterProcessingDays": 1.5},
+            {"dropRawAfterProcessingDays": "soon"},
+            [30],
+        ]:
+            with pytest.raises(UnprocessableError):
+                admin.set_group_retention_policy(group, policy)
+
+    def test_only_admins_manage_retention(self, helper):
+        user = helper.given_new_user(self, "retention_user")
+        group = user.get_own_group()
+
+        with pytest.raises(AuthorizationError):
+            user.set_group_retention_policy(group, {"dropRawAfterProcessingDays": 1})
+        with pytest.raises(AuthorizationError):
+            user.get_group_retention_report(group)
@@ -0,0 +1,96 @@
+import pytest
+
+from .testexception import AuthorizationError, UnprocessableError
+
+
+class TestSavedSearches:
+    def test_save_and_run_search(self, helper):
+        user, device = helper.given_new_user_with_device(self, "searcher")
+        device.upload_recording()
+        possum = device.upload_recording()
+        possum.is_tagged_as(what="interesting").by(user)
+
+        query = {
+            "where": {"DeviceId": device.get_id()},
+            "tagMode": "tagged",
+            "tags": ["interesting"],
+        }
+        search_id = user.save_search("Interesting", query)
+
+        print("A saved search should return the same recordings as the query it was saved from")
+        expected = user.query_recordings(deviceIds=[device.get_id()], tagmode="tagged", tags=["interesting"])
+        result = user.run_search(search_id)
+        assert [row["id"] for row in result["rows"]] == [row["id"] for row in expected] == [possum.id_]
+        assert result["count"] == 1
+
+        print("And should be listed with its query and when it was last run")
+        [search] = user.get_searches()
+        assert search["id"] == search_id
+        assert search["name"] == "Interesting"
+        assert search["query"] == query
+        assert search["lastRunAt"] is not None
+
+        print("New matches should only count recordings uploaded since the search was last run")
+        assert user.get_search(search_id, count_new=True)["newMatches"] == 0
+        device.upload_recording().is_tagged_as(what="interesting").by(user)
+        device.upload_recording()
+        assert user.get_search(search_id, count_new=True)["newMatches"] == 1
+        user.run_search(search_id)
+        assert user.get_searches(count_new=True)[0]["newMatches"] == 0
+
+        print("The search can be renamed, changed and deleted")
+        user.update_search(search_id, name="Everything", query={"where": {"DeviceId": device.get_id()}})
+        assert user.run_search(search_id)["count"] == 4
+        assert user.get_search(search_id)["name"] == "Everything"
+        user.delete_search(search_id)
+        assert user.get_searches() == []
+
+    def test_shared_search(self, helper):
+        owner, device = helper.given_new_user_with_device(self, "sharer")
+        group = owner.get_own_group()
+        member = helper.given_new_user(self, "sharee")
+        owner.add_to_group(member, group)
+        outsider = helper.given_new_user(self, "outsider")
+        device.upload_recording()
+
+        search_id = owner.save_search("Shared", {"where": {"DeviceId": device.get_id()}}, shared_with=group)
+
+        print("Group members should be able to see and run a shared search")
+        assert [search["id"] for search in member.get_searches()] == [search_id]
+        assert member.run_search(search_id)["count"] == 1
+
+        print("And have their own new matches count")
+        assert member.get_search(search_id, count_new=True)["newMatches"] == 0
+        assert owner.get_search(search_id, count_new=True)["newMatches"] is None
+
+        print("But only the owner should be able to change it")
+        with pytest.raises(AuthorizationError):
+            member.update_search(search_id, name="Mine")
+        with pytest.raises(AuthorizationError):
+            member.delete_search(search_id)
+
+        print("Other users shouldn't see it")
+        assert outsider.get_searches() == []
+        with pytest.raises(AuthorizationError):
+            outsider.run_search(search_id)
+        with pytest.raises(AuthorizationError):
+            outsider.save_search("Theirs", {}, shared_with=group)
+
+        print("Once it is no longer shared group members can't see it")
+        owner.update_search(search_id, sharedWith=None)
+        assert member.get_searches() == []
+
+    def test_invalid_searches(self, helper):
+        user = helper.given_new_user(self, "bad_searcher")
+        for query in [
+            [],
+            {"limit": 10},
+            {"tagMode": "sometimes"},
+            {"tags": "possum"},
+            {"where": "DeviceId = 1"},
+            {"area": {"near": {"lat": 0, "lng": 0}}},
+        ]:
+            with pytest.raises(UnprocessableError):
+                user.save_search("Bad", query)
+        with pytest.raises(UnprocessableError):
+            user.save_search("", {})
@@ -0,0 +1,73 @@
+class TestSignedUrl:
+    def test_range_requests(self, helper):
+        user, device = helper.given_new_user_with_device(self, "scrubber")
+        recording = device.upload_recording()
+        content = recording.content
+
+        print("A byte range should return just those bytes")
+        response = user.request_raw_download(recording, headers={"Range": "bytes=10-19"})
+        assert response.status_code == 206
+        assert response.headers["Content-Range"] == "bytes 10-19/{}".format(len(content))
+        assert response.content == content[10:20]
+
+        print("A suffix range should return the end of the file")
+        response = user.request_raw_download(recording, headers={"Range": "bytes=-100"})
+        assert response.status_code == 206
+        assert response.content == content[-100:]
+
+        print("A range past the end of the file can't be satisfied")
+        response = user.request_raw_download(recording, headers={"Range": "bytes={}-".format(len(content))})
+        assert response.status_code == 416
+        assert response.headers["Content-Range"] == "bytes */{}".format(len(content))
+
+        print("Multiple ranges are rejected")
+        response = user.request_raw_download(recording, headers={"Range": "bytes=0-9,20-29"})
+        assert response.status_code == 416
+
+    def test_conditional_and_head_requests(self, helper):
+        user, device = helper.given_new_user_with_device(self, "cacher")
+        recording = device.upload_recording()
+
+        print("A HEAD request should return the headers without the file")
+        response = user.request_raw_download(recording, method="HEAD")
+        assert response.status_code == 200
+        assert int(response.headers["Content-Length"]) == len(recording.content)
+        assert response.content == b""
+        etag = response.headers["ETag"]
+        last_modified = response.headers["Last-Modified"]
+
+        print("A request with a matching ETag should not return the file again")
+        response = user.request_raw_download(recording, headers={"If-None-Match": etag})
+        assert response.status_code == 304
+        assert response.content == b""
+
+        print("Nor should a request for a copy modified since it was last fetched")
+        response = user.request_raw_download(recording, headers={"If-Modified-Since": last_modified})
+        assert response.status_code == 304
+
+        print("But a stale ETag should get the whole file")
+        response = user.request_raw_download(recording, headers={"If-None-Match": '"stale"'})
+        assert response.status_code == 200
+        assert response.content == recording.content
+
+    def test_if_range(self, helper):
+        user, device = helper.given_new_user_with_device(self, "resumer")
+        recording = device.upload_recording()
+        response = user.request_raw_download(recording, method="HEAD")
+        etag = response.headers["ETag"]
+        last_modified = response.headers["Last-Modified"]
+
+        print("A range with a matching ETag or date in If-Range should be sent")
+        for if_range in [etag, last_modified]:
+            response = user.request_raw_download(
+                recording, headers={"Range": "bytes=10-19", "If-Range": if_range}
+            )
+            assert response.status_code == 206
+            assert response.content == recording.content[10:20]
+
+        print("But a weak ETag should get the whole file")
+        response = user.request_raw_download(
+            recording, headers={"Range": "bytes=10-19", "If-Range": "W/" + etag}
+        )
+        assert response.status_code == 200
+        assert response.content == recording.content
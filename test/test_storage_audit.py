@@ -0,0 +1,32 @@
+import pytest
+
+from .testexception import AuthorizationError
+
+
+class TestStorageAudit:
+    def test_storage_audit(self, helper):
+        admin = helper.admin_user()
+        user, device = helper.given_new_user_with_device(self, "audited_camera")
+        recording = device.upload_recording()
+
+        print("When an admin audits the object store")
+        audit = admin.audit_storage(mark_missing=True)
+
+        print("Then the recording's file should be counted against its group and device")
+        [group] = [g for g in audit["groups"] if g["name"] == user.get_own_group()]
+        assert group["bytes"] == len(recording.content)
+        assert group["devices"] == [
+            {"id": device.get_id(), "name": device.devicename, "bytes": len(recording.content)}
+        ]
+        assert audit["objects"]["bytes"] >= group["bytes"]
+
+        print("And the recording shouldn't be reported or flagged as missing its file")
+        assert recording.id_ not in [r["id"] for r in audit["danglingRecordings"]]
+        assert not user.get_recording(recording)["fileMissing"]
+
+    def test_only_admins_can_audit_storage(self, helper):
+        user = helper.given_new_user(self, "storage_curious")
+        with pytest.raises(AuthorizationError):
+            user.audit_storage()
+        with pytest.raises(AuthorizationError):
+            user.get_storage_audit()
@@ -0,0 +1,54 @@
+CHRISTCHURCH = [-43.52345, 172.63456]
+
+
+class TestSunAndMoon:
+    def test_sun_and_moon_calculated(self, helper):
+        user, device = helper.given_new_user_with_device(self, "astronomer")
+        # About half an hour before sunset in Christchurch.
+        evening = device.upload_audio_recording(
+            {"location": CHRISTCHURCH, "recordingDateTime": "2021-02-01T07:30:00Z"}
+        )
+        # The full moon.
+        full_moon = device.upload_audio_recording(
+            {"location": CHRISTCHURCH, "recordingDateTime": "2021-01-28T19:16:00Z"}
+        )
+        unlocated = device.upload_audio_recording({"recordingDateTime": "2021-02-01T07:30:00Z"})
+
+        print("Times relative to the nearest sunrise and sunset should be calculated from the location")
+        recording = user.get_recording(evening)
+        assert -1800 < recording["relativeToDusk"] < -1500
+        assert -36400 < recording["relativeToDawn"] < -35800
+        assert 0.55 < recording["moonPhase"] < 0.7
+        assert 0.8 < recording["moonIllumination"] < 0.9
+
+        recording = user.get_recording(full_moon)
+        assert abs(recording["moonPhase"] - 0.5) < 0.01
+        assert recording["moonIllumination"] > 0.99
+
+        print("Without a location only the moon is known")
+        recording = user.get_recording(unlocated)
+        assert recording["relativeToDusk"] is None
+        assert recording["moonIllumination"] is not None
+
+        print("Recordings can be filtered by them")
+
+        def ids(where):
+            where = {"$and": [{"DeviceId": device.get_id()}, where]}
+            return {row["id"] for row in user.query_recordings(where=where)}
+
+        assert ids({"relativeToDusk": {"$between": [-1800, 1800]}}) == {evening.id_}
+        assert ids({"moonIllumination": {"$gte": 0.99}}) == {full_moon.id_}
+
+    def test_device_values_kept(self, helper):
+        user, device = helper.given_new_user_with_device(self, "early_riser")
+        recording = device.upload_audio_recording(
+            {
+                "location": CHRISTCHURCH,
+                "recordingDateTime": "2021-02-01T07:30:00Z",
+                "relativeToDawn": 9877,
+                "relativeToDusk": -6543,
+            }
+        )
+        recording = user.get_recording(recording)
+        assert recording["relativeToDawn"] == 9877
+        assert recording["relativeToDusk"] == -6543
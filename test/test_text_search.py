@@ -0,0 +1,48 @@
+import pytest
+
+from .testexception import UnprocessableError
+
+
+class TestTextSearch:
+    def test_text_search(self, helper):
+        user, device = helper.given_new_user_with_device(self, "text_searcher")
+        commented = device.upload_recording({"comment": "Possum trapped near the gate, check this one"})
+        tagged = device.upload_recording({"comment": "nothing to see"})
+        tagged.is_tagged_as(what="possum", detail="trap 42").by(user)
+        track_tagged = device.upload_recording()
+        track = user.can_add_track_to_recording(track_tagged)
+        user.can_tag_track(track, automatic=False, what="cat", data={"note": "walked past the gate"})
+        device.upload_recording()
+
+        def ids(text, **options):
+            rows = user.query_recordings(deviceIds=[device.get_id()], text=text, **options)
+            return [row["id"] for row in rows]
+
+        print("Recordings should be found by their comments, tag details and track tag notes")
+        assert ids("check this") == [commented.id_]
+        assert ids("42") == [tagged.id_]
+        assert ids("walked") == [track_tagged.id_]
+
+        print("Words should match their other forms and all need to match")
+        assert set(ids("traps")) == {commented.id_, tagged.id_}
+        assert ids("trap cat") == []
+
+        assert ids("gate possum") == [commented.id_]
+
+        print("Better matches should come first, rather than the newest")
+        best = device.upload_recording({"comment": "possum, possum and another possum"})
+        device.upload_recording({"comment": "a possum, and then some other words about the weather"})
+        assert ids("possum")[0] == best.id_
+
+        print("Text search should combine with other filters")
+        assert ids("trap", where={"id": tagged.id_}) == [tagged.id_]
+
+        print("Ranked results can't be paged with a cursor")
+        result = user.query_recordings(deviceIds=[device.get_id()], text="trap", limit=1, return_json=True)
+        assert result["nextCursor"] is None
+
+    def test_invalid_text_search(self, helper):
+        user = helper.given_new_user(self, "bad_text_searcher")
+        for text in ["", "   ", "x" * 201]:
+            with pytest.raises(UnprocessableError):
+                user.query_recordings(text=text)
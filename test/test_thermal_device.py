@@ -1,3 +1,9 @@
+import pytest
+
+from .recording import SMALL_CPTV_DURATION, SMALL_CPTV_LOCATION, SMALL_CPTV_TIMESTAMP, unique_copy
+from .testexception import UnprocessableError
+
+
 class TestThermalDevice:
     def test_can_upload_cptv(self, helper):
         description = "If a new device 'Destroyer' signs up"
@@ -11,3 +17,58 @@ class TestThermalDevice:
 
         print("And the CPTV file should be visible to super users")
         helper.admin_user().can_see_recording_from(destroyer)
+
+    def test_reupload_returns_existing_recording(self, helper):
+        user, device = helper.given_new_user_with_device(self, "retrier")
+        filename = unique_copy("files/small.cptv")
+        recording = device.upload_recording(filename=filename)
+
+        print("When the device uploads the same file again")
+        retried = device.upload_recording(filename=filename)
+
+        print("Then the original recording should be returned rather than a new one")
+        assert retried.id_ == recording.id_
+        assert len(user.query_recordings(deviceIds=[device.get_id()])) == 1
+
+    def test_missing_metadata_is_read_from_cptv(self, helper):
+        user, device = helper.given_new_user_with_device(self, "forgetful")
+
+        print("When a device uploads a CPTV file without its time, duration or location")
+        recording = device.upload_recording({"recordingDateTime": None, "duration": None})
+
+        print("Then they should be filled in from the file's header")
+        received = user.get_recording(recording)
+        assert received["recordingDateTime"].startswith(SMALL_CPTV_TIMESTAMP[:19])
+        assert received["duration"] == SMALL_CPTV_DURATION
+        lat, lng = received["location"]["coordinates"]
+        assert lat == pytest.approx(SMALL_CPTV_LOCATION[0], abs=0.001)
+        assert lng == pytest.approx(SMALL_CPTV_LOCATION[1], abs=0.001)
+        assert received["metadataDiscrepancies"] is None
+
+    def test_metadata_discrepancies_are_flagged(self, helper):
+        user, device = helper.given_new_user_with_device(self, "fibber")
+        honest = device.upload_recording(
+            {"recordingDateTime": SMALL_CPTV_TIMESTAMP, "duration": SMALL_CPTV_DURATION}
+        )
+
+        print("When a device uploads a CPTV file with a time and duration that don't match the file")
+        fibbed = device.upload_recording({"duration": 300})
+
+        print("Then the differences should be recorded on the recording")
+        discrepancies = user.get_recording(fibbed)["metadataDiscrepancies"]
+        assert discrepancies["duration"] == {"declared": 300, "file": SMALL_CPTV_DURATION}
+        assert discrepancies["recordingDateTime"]["file"].startswith(SMALL_CPTV_TIMESTAMP[:19])
+        assert user.get_recording(honest)["metadataDiscrepancies"] is None
+
+        print("And recordings with discrepancies can be queried for")
+        rows = user.query_recordings(
+            deviceIds=[device.get_id()], where={"metadataDiscrepancies": {"$ne": None}}
+        )
+        assert [row["id"] for row in rows] == [fibbed.id_]
+
+    def test_invalid_cptv_is_rejected(self, helper):
+        _, device = helper.given_new_user_with_device(self, "corrupter")
+
+        print("A thermal recording that isn't a CPTV file should be rejected")
+        with pytest.raises(UnprocessableError):
+            device.upload_recording(filename=unique_copy("files/small.mp3"))
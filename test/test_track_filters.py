@@ -0,0 +1,77 @@
+import pytest
+
+from .testexception import UnprocessableError
+
+
+def classified(model, *tracks):
+    return {"metadata": {"algorithm": {"model_name": model}, "tracks": list(tracks)}}
+
+
+def track(start_s, end_s, tag, confidences):
+    return {
+        "start_s": start_s,
+        "end_s": end_s,
+        "num_frames": int((end_s - start_s) * 9),
+        "confident_tag": tag,
+        "confidence": confidences[tag],
+        "all_class_confidences": confidences,
+    }
+
+
+class TestTrackFilters:
+    def test_track_filters(self, helper):
+        user, device = helper.given_new_user_with_device(self, "track_filterer")
+        sure = device.upload_recording(
+            classified("resnet-wallaby", track(1, 3, "possum", {"possum": 0.95, "cat": 0.05}))
+        )
+        unsure = device.upload_recording(
+            classified(
+                "resnet-wallaby",
+                track(2, 4, "possum", {"possum": 0.9, "cat": 0.1}),
+                track(5, 15, "cat", {"possum": 0.45, "cat": 0.55}),
+            )
+        )
+        other = device.upload_recording(classified("other-model", track(0, 8, "rat", {"rat": 0.7})))
+        device.upload_recording()
+
+        def ids(track_where):
+            rows = user.query_recordings(deviceIds=[device.get_id()], trackWhere=track_where)
+            return {row["id"] for row in rows}
+
+        print("Recordings should be found by the length of their tracks")
+        assert ids({"duration": {"$gt": 5}}) == {unsure.id_, other.id_}
+        assert ids({"start_s": {"$gte": 2}, "num_frames": {"$lt": 20}}) == {unsure.id_}
+
+        print("And by how confident the classifier was")
+        assert ids({"automatic": True, "confidence": {"$lt": 0.6}}) == {unsure.id_}
+        assert ids({"all_class_confidences.cat": {"$gt": 0.3}}) == {unsure.id_}
+        assert ids({"all_class_confidences.possum": {"$gte": 0.9}}) == {sure.id_, unsure.id_}
+
+        print("And by the model that produced the tracks")
+        assert ids({"model": "resnet-wallaby"}) == {sure.id_, unsure.id_}
+        assert ids({"model": "other-model", "what": "rat"}) == {other.id_}
+
+        print("Conditions should all match the same track and tag")
+        assert ids({"what": "possum", "duration": {"$gt": 5}}) == set()
+
+        print("Track filters should combine with other query parameters")
+        rows = user.query_recordings(
+            deviceIds=[device.get_id()],
+            trackWhere={"what": "possum"},
+            where={"DeviceId": device.get_id(), "id": {"$ne": sure.id_}},
+        )
+        assert [row["id"] for row in rows] == [unsure.id_]
+
+    def test_invalid_track_filters(self, helper):
+        user = helper.given_new_user(self, "bad_track_filterer")
+        for track_where in [
+            {"duration": "long"},
+            {"all_class_confidences.cat": {"$like": "0.%"}},
+            {"all_class_confidences.": 0.5},
+            {"all_class_confidences.ca't": 0.5},
+            {"all_class_confidences.*": 0.5},
+            {"comment": "hmmm"},
+            {"model": 1},
+        ]:
+            with pytest.raises(UnprocessableError):
+                user.query_recordings(trackWhere=track_where)
@@ -0,0 +1,95 @@
+from multiprocessing.pool import ThreadPool
+
+import pytest
+
+from .testexception import AuthorizationError, ConflictError, UnprocessableError
+
+CHUNK_SIZE = 256 * 1024
+
+
+def finalise_or_conflict(upload):
+    try:
+        return upload.finalise()
+    except ConflictError:
+        return None
+
+
+class TestUploadSessions:
+    def test_chunked_upload(self, helper):
+        user, device = helper.given_new_user_with_device(self, "chunky")
+
+        print("When '{}' uploads a recording in chunks, out of order".format(device.devicename))
+        upload = device.start_chunked_upload(CHUNK_SIZE)
+        assert len(upload.chunks) > 2
+        for chunk_number in reversed(range(len(upload.chunks))):
+            upload.send_chunk(chunk_number)
+
+        print("Then the server should report that it holds every chunk")
+        assert upload.received_chunks() == list(range(len(upload.chunks)))
+
+        print("And once finalised the recording can be downloaded intact")
+        recording = upload.finalise()
+        user.can_download_correct_recording(recording)
+
+        print("And no more chunks can be sent")
+        with pytest.raises(ConflictError):
+            upload.send_chunk(0)
+
+    def test_resume_after_missing_chunk(self, helper):
+        user, device = helper.given_new_user_with_device(self, "resumer")
+        upload = device.start_chunked_upload(CHUNK_SIZE)
+        for chunk_number in range(1, len(upload.chunks)):
+            upload.send_chunk(chunk_number)
+
+        print("Finalising an upload that is missing a chunk should fail")
+        with pytest.raises(UnprocessableError):
+            upload.finalise()
+        assert 0 not in upload.received_chunks()
+
+        print("But after resending the missing chunk it should succeed")
+        upload.send_chunk(0)
+        recording = upload.finalise()
+        user.can_download_correct_recording(recording)
+
+        print("And finalising again should return the same recording")
+        assert upload.finalise().id_ == recording.id_
+
+    def test_too_many_chunks(self, helper):
+        _, device = helper.given_new_user_with_device(self, "overcounter")
+        upload = device.start_chunked_upload(CHUNK_SIZE)
+        upload.send_chunk(0)
+
+        print("Sending a chunk numbered beyond the most an upload can have should fail")
+        with pytest.raises(UnprocessableError):
+            device._deviceapi.upload_chunk(upload.id_, 256, upload.chunks[0])
+
+        print("Finalising with more chunks than an upload can have should fail")
+        with pytest.raises(UnprocessableError):
+            device._deviceapi.finalise_upload_session(upload.id_, 9000000000000)
+
+    def test_concurrent_finalise(self, helper):
+        _, device = helper.given_new_user_with_device(self, "impatient")
+        upload = device.start_chunked_upload(CHUNK_SIZE)
+        for chunk_number in range(len(upload.chunks)):
+            upload.send_chunk(chunk_number)
+
+        print("When the upload is finalised by several requests at once")
+        with ThreadPool(4) as pool:
+            results = pool.map(finalise_or_conflict, [upload] * 4)
+
+        print("Then only one recording should be created")
+        recording_ids = {recording.id_ for recording in results if recording}
+        assert len(recording_ids) == 1
+
+        print("And finalising again should return that recording")
+        assert upload.finalise().id_ in recording_ids
+
+    def test_other_device_cannot_use_session(self, helper):
+        _, device = helper.given_new_user_with_device(self, "owner")
+        _, intruder = helper.given_new_user_with_device(self, "intruder")
+        upload = device.start_chunked_upload(CHUNK_SIZE)
+
+        print("A different device should not be able to add chunks to the upload")
+        upload._deviceapi = intruder._deviceapi
+        with pytest.raises(AuthorizationError):
+            upload.send_chunk(0)
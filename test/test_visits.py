@@ -1,9 +1,13 @@
 import csv
+import json
+import pytest
 
 from datetime import datetime, timedelta
 import dateutil.parser
 from dateutil.parser import parse as parsedate
 
+from .testexception import AuthorizationError, UnprocessableError
+
 
 class TestVisits:
     VISIT_INTERVAL_SECONDS = 600
@@ -27,7 +31,7 @@ class TestVisits:
         assert visit["deviceName"] == device.devicename
         assert len(visit["events"]) == 3
 
-    def test_load_offset(self, helper):
+    def test_pages(self, helper):
         admin = helper.admin_user()
         cosmo = helper.given_new_user(self, "cosmo")
         cosmo_group = helper.make_unique_group_name(self, "cosmos_group")
@@ -41,28 +45,173 @@ class TestVisits:
             helper.upload_recording_with_tag(
                 device, admin, animals[int(i / 3)], time=now - timedelta(minutes=i * 20)
             )
-        offset = 0
-
-        # visits query always gets 2 * limit in recordings as an attempt to get limit visits
-        # after they are groupedd, so by choosing limit 2 it will look for 4 Recordings
-        # first 3 will make a complete visit, and last one will not be complete
-        limit = 2
-        for i in range(3):
-            if i == 2:
-                # last query needs to be more than 2 so it knows to complete the final visit
-                # as no other recordings are available
-                limit = 3
-            response = cosmo.query_visits(return_json=True, limit=limit, offset=offset)
-            offset = response["queryOffset"]
+
+        print("Visits are returned a page at a time, most recent first")
+        cursor = None
+        paged_ids = []
+        for animal in animals:
+            response = cosmo.query_visits(return_json=True, limit=3, cursor=cursor)
             assert response["numVisits"] == 3
             summary = response["summary"][str(device.get_id())]
-            assert list(summary.keys()) == [animals[i]]
-            assert summary[animals[i]]["visitCount"] == 3
-
+            assert list(summary.keys()) == [animal]
+            assert summary[animal]["visitCount"] == 3
+            paged_ids.extend(visit["id"] for visit in response["visits"])
+            cursor = response["nextCursor"]
+        assert not response["hasMoreVisits"]
+        assert cursor is None
+
+        print("Offsets skip whole visits")
+        response = cosmo.query_visits(return_json=True, limit=3, offset=3)
+        assert [visit["id"] for visit in response["visits"]] == paged_ids[3:6]
+
+        print("Visits keep their ids between queries")
         response = cosmo.query_visits(return_json=True)
         summary = response["summary"][str(device.get_id())]
         assert list(summary.keys()) == animals
-        assert len(response["visits"]) == 9
+        assert [visit["id"] for visit in response["visits"]] == paged_ids
+
+    def test_visits_follow_changes(self, helper):
+        admin = helper.admin_user()
+        cosmo = helper.given_new_user(self, "cosmo")
+        cosmo_group = helper.make_unique_group_name(self, "cosmos_group")
+        cosmo.create_group(cosmo_group)
+        device = helper.given_new_device(self, "cosmo_device", cosmo_group)
+        now = datetime.now(dateutil.tz.gettz(helper.TIMEZONE)).replace(microsecond=0)
+
+        def visits():
+            return cosmo.query_visits(return_json=True, deviceIds=device.get_id())["visits"]
+
+        recent = []
+        for minutes in [0, 3, 6]:
+            recent.append(
+                helper.upload_recording_with_tag(
+                    device, admin, "possum", time=now - timedelta(minutes=minutes), automatic=False
+                )
+            )
+        [visit] = visits()
+        assert visit["what"] == "possum"
+        assert len(visit["events"]) == 3
+
+        print("Retagging tracks changes what the visit is, but not its id")
+        cat_tags = []
+        for _, track, _ in recent[1:]:
+            cat_tags.append(admin.can_tag_track(track, automatic=False, what="cat", replace=True))
+        [retagged] = visits()
+        assert retagged["id"] == visit["id"]
+        assert retagged["what"] == "cat"
+
+        print("Deleting a tag or a recording removes it from the visit")
+        admin.can_delete_track_tag(cat_tags[1])
+        admin.delete_recording(recent[1][0])
+        [visit] = visits()
+        assert visit["id"] == retagged["id"]
+        assert visit["what"] == "possum"
+        assert [event["recID"] for event in visit["events"]] == [recent[0][0].id_, recent[2][0].id_]
+
+        print("A recording between two visits joins them")
+        helper.upload_recording_with_tag(device, admin, "cat", time=now - timedelta(minutes=20))
+        assert len(visits()) == 2
+        helper.upload_recording_with_tag(device, admin, "cat", time=now - timedelta(minutes=13))
+        [joined] = visits()
+        assert len(joined["events"]) == 4
+
+    def test_visit_rules(self, helper):
+        admin = helper.admin_user()
+        cosmo = helper.given_new_user(self, "cosmo")
+        cosmo_group = helper.make_unique_group_name(self, "cosmos_group")
+        cosmo.create_group(cosmo_group)
+        device = helper.given_new_device(self, "cosmo_device", cosmo_group)
+        now = datetime.now(dateutil.tz.gettz(helper.TIMEZONE)).replace(microsecond=0)
+
+        rules = {
+            "eventGapSeconds": 300,
+            "ignoreTags": ["false-positive"],
+            "species": {"cat": {"eventGapSeconds": 1800}},
+        }
+        cosmo.set_group_visit_rules(cosmo_group, rules)
+        assert cosmo.get_group_visit_rules(cosmo_group) == rules
+
+        helper.upload_recording_with_tag(device, admin, "possum", time=now)
+        helper.upload_recording_with_tag(device, admin, "possum", time=now - timedelta(minutes=8))
+        helper.upload_recording_with_tag(device, admin, "cat", time=now - timedelta(minutes=60))
+        helper.upload_recording_with_tag(device, admin, "cat", time=now - timedelta(minutes=80))
+        helper.upload_recording_with_tag(device, admin, "false-positive", time=now - timedelta(minutes=120))
+
+        visits = cosmo.query_visits(return_json=True, deviceIds=device.get_id())["visits"]
+        print("Possums 8 minutes apart are separate visits, cats 20 minutes apart are one")
+        assert [visit["what"] for visit in visits] == ["possum", "possum", "cat"]
+        assert [len(visit["events"]) for visit in visits] == [1, 1, 2]
+
+        print("Each visit reports the rules it was grouped with")
+        assert [visit["rules"]["name"] for visit in visits] == ["group", "group", "species:cat"]
+        assert visits[2]["rules"]["eventGapSeconds"] == 1800
+        assert visits[2]["rules"]["audioBaitSeconds"] == 600
+
+        print("Changing the rules regroups the group's recent visits")
+        job = cosmo.set_group_visit_rules(cosmo_group, {"eventGapSeconds": 600})
+        assert job["from"]
+        visits = cosmo.query_visits(return_json=True, deviceIds=device.get_id())["visits"]
+        assert [visit["what"] for visit in visits] == ["possum", "cat", "cat", "false-positive"]
+        assert [len(visit["events"]) for visit in visits] == [2, 1, 1, 1]
+
+        print("Invalid rules are rejected")
+        for invalid in [{"eventGapSeconds": 0}, {"ignoreTags": "cat"}, {"species": {"cat": {"gap": 1}}}]:
+            with pytest.raises(UnprocessableError):
+                cosmo.set_group_visit_rules(cosmo_group, invalid)
+
+    def test_station_visits(self, helper):
+        admin = helper.admin_user()
+        cosmo = helper.given_new_user(self, "cosmo")
+        cosmo_group = helper.make_unique_group_name(self, "cosmos_group")
+        cosmo.create_group(cosmo_group)
+        stations = [
+            {"name": "creek", "lat": -43.62, "lng": 172.62},
+            {"name": "ridge", "lat": -43.6, "lng": 172.62},
+        ]
+        cosmo.add_stations_to_group(cosmo_group, json.dumps(stations))
+        device = helper.given_new_device(self, "cosmo_device", cosmo_group)
+        now = datetime.now(dateutil.tz.gettz(helper.TIMEZONE)).replace(microsecond=0)
+
+        creek, ridge = [-43.62, 172.62], [-43.6, 172.62]
+
+        print("A device moved between stations during a visit makes one device visit at neither")
+        for minutes, location in [(10, creek), (5, ridge)]:
+            time = now - timedelta(minutes=minutes)
+            rec = device.upload_recording({"recordingDateTime": time.isoformat(), "location": location})
+            admin.can_tag_track(admin.can_add_track_to_recording(rec), what="possum")
+
+        response = cosmo.query_visits(return_json=True, deviceIds=device.get_id())
+        assert [visit["stationName"] for visit in response["visits"]] == [None]
+        assert response["stationSummary"] == {}
+
+        print("But a station visit at each")
+        response = cosmo.query_visits(return_json=True, deviceIds=device.get_id(), groupBy="station")
+        assert [visit["stationName"] for visit in response["visits"]] == ["ridge", "creek"]
+        assert response["visits"][1]["stationLocation"] == creek
+        assert response["visits"][1]["deviceId"] is None
+
+        print("And the station visits are summarised by station")
+        summary = response["stationSummary"]
+        assert len(summary) == 2
+        for visit in response["visits"]:
+            assert summary[str(visit["stationId"])]["possum"]["visitCount"] == 1
+
+        print("Tracks seen by another device at a station are part of the same station visit")
+        other_device = helper.given_new_device(self, "cosmo_other_device", cosmo_group)
+        time = now - timedelta(minutes=4)
+        rec = other_device.upload_recording({"recordingDateTime": time.isoformat(), "location": ridge})
+        admin.can_tag_track(admin.can_add_track_to_recording(rec), what="possum")
+
+        response = cosmo.query_visits(return_json=True, deviceIds=device.get_id(), groupBy="station")
+        ridge_visit = response["visits"][0]
+        assert ridge_visit["stationName"] == "ridge"
+        assert sorted(event["deviceId"] for event in ridge_visit["events"]) == sorted(
+            [device.get_id(), other_device.get_id()]
+        )
+
+        print("While each device still has its own visits")
+        response = cosmo.query_visits(return_json=True, deviceIds=other_device.get_id())
+        assert [len(visit["events"]) for visit in response["visits"]] == [1]
 
     def test_visit_vote(self, helper):
         admin = helper.admin_user()
@@ -73,15 +222,117 @@ class TestVisits:
         now = datetime.now(dateutil.tz.gettz(helper.TIMEZONE)).replace(microsecond=0)
 
         # 2 cats and 1 possum and 1 unidentified means a cat visit
-        helper.upload_recording_with_tag(device, admin, "possum")
-        helper.upload_recording_with_tag(device, admin, "unidentified", time=now - timedelta(minutes=9))
-        helper.upload_recording_with_tag(device, admin, "cat", time=now - timedelta(seconds=18))
-        helper.upload_recording_with_tag(device, admin, "cat", time=now - timedelta(seconds=20))
+        helper.upload_recording_with_tag(device, admin, "possum", automatic=False)
+        helper.upload_recording_with_tag(
+            device, admin, "unidentified", time=now - timedelta(minutes=9), automatic=False
+        )
+        helper.upload_recording_with_tag(
+            device, admin, "cat", time=now - timedelta(seconds=18), automatic=False
+        )
+        helper.upload_recording_with_tag(
+            device, admin, "cat", time=now - timedelta(seconds=20), automatic=False
+        )
 
         response = cosmo.query_visits(return_json=True)
         assert response["numVisits"] == 1
         assert response["visits"][0]["what"] == "cat"
 
+    def test_visit_classification(self, helper):
+        admin = helper.admin_user()
+        cosmo = helper.given_new_user(self, "cosmo")
+        cosmo_group = helper.make_unique_group_name(self, "cosmos_group")
+        cosmo.create_group(cosmo_group)
+        device = helper.given_new_device(self, "cosmo_device", cosmo_group)
+        now = datetime.now(dateutil.tz.gettz(helper.TIMEZONE)).replace(microsecond=0)
+
+        disputed = helper.upload_recording_with_track(device, admin, time=now)[1]
+        admin.can_tag_track(disputed, automatic=False, what="possum")
+        cosmo.can_tag_track(disputed, automatic=False, what="cat")
+        possum = helper.upload_recording_with_track(device, admin, time=now - timedelta(minutes=2))[1]
+        admin.can_tag_track(possum, automatic=False, what="possum")
+        classified = helper.upload_recording_with_track(device, admin, time=now - timedelta(minutes=4))[1]
+        ai_tag = admin.can_tag_track(classified, automatic=True, what="cat", data={"name": "Master"})
+        ai_vote = 0.5 * ai_tag.confidence
+
+        def visit(user, **options):
+            [visit] = user.query_visits(return_json=True, deviceIds=device.get_id(), **options)["visits"]
+            return visit
+
+        print("People's tags outweigh the classifier's, and everyone's count alike by default")
+        consensus = visit(cosmo)
+        assert consensus["what"] == "possum"
+        assert consensus["votes"] == {"possum": 1.5, "cat": pytest.approx(0.5 + ai_vote, abs=0.01)}
+        assert consensus["confidence"] == 50
+        assert consensus["conflictingHumanTags"]
+
+        print("Callers can count their own tags first")
+        mine = visit(cosmo, tagPrecedence="mine")
+        assert mine["what"] == "cat"
+        assert mine["votes"] == {"possum": 1, "cat": pytest.approx(1 + ai_vote, abs=0.01)}
+        assert mine["confidence"] == round(100 * (1 + ai_vote) / 3)
+        assert mine["events"][0]["what"] == "cat"
+        assert visit(admin, tagPrecedence="mine")["what"] == "possum"
+
+        with pytest.raises(UnprocessableError):
+            cosmo.query_visits(tagPrecedence="loudest")
+
+    def test_tag_visit(self, helper):
+        admin = helper.admin_user()
+        cosmo = helper.given_new_user(self, "cosmo")
+        cosmo_group = helper.make_unique_group_name(self, "cosmos_group")
+        cosmo.create_group(cosmo_group)
+        device = helper.given_new_device(self, "cosmo_device", cosmo_group)
+        now = datetime.now(dateutil.tz.gettz(helper.TIMEZONE)).replace(microsecond=0)
+
+        classified = helper.upload_recording_with_track(device, admin, time=now)[1]
+        admin.can_tag_track(classified, automatic=True, what="possum")
+        mistaken = helper.upload_recording_with_track(device, admin, time=now - timedelta(minutes=3))[1]
+        cosmo.can_tag_track(mistaken, automatic=False, what="cat")
+        tagged = helper.upload_recording_with_track(device, admin, time=now - timedelta(minutes=6))[1]
+        cosmo.can_tag_track(tagged, automatic=False, what="possum")
+
+        def visits():
+            return cosmo.query_visits(return_json=True, deviceIds=device.get_id())["visits"]
+
+        [visit] = visits()
+        assert visit["conflictingHumanTags"]
+
+        print("Tagging a visit tags each of its tracks, reporting what changed")
+        result = cosmo.tag_visit(device, visit["start"], visit["end"], "possum")
+        assert result["visitId"] == visit["id"]
+        changes = {change["trackId"]: change for change in result["changes"]}
+        assert changes.keys() == {classified.id_, mistaken.id_, tagged.id_}
+        assert changes[classified.id_]["trackTagId"] is not None
+        assert changes[classified.id_]["replaced"] == []
+        assert changes[mistaken.id_]["trackTagId"] is not None
+        assert changes[mistaken.id_]["replaced"] == ["cat"]
+        assert changes[tagged.id_]["trackTagId"] is None
+        assert changes[mistaken.id_]["recordingId"] == mistaken.recording.id_
+
+        [visit] = visits()
+        assert visit["id"] == result["visitId"]
+        assert visit["what"] == "possum"
+        assert not visit["conflictingHumanTags"]
+        assert visit["votes"] == {"possum": 3}
+
+        print("Additional tags are added alongside animal tags")
+        result = cosmo.tag_visit(device, visit["start"], visit["end"], "part")
+        assert all(change["trackTagId"] and change["replaced"] == [] for change in result["changes"])
+        assert visits()[0]["what"] == "possum"
+
+        print("The time span must cover exactly one visit")
+        helper.upload_recording_with_tag(device, admin, "cat", time=now - timedelta(minutes=60))
+        gap = [(now - timedelta(minutes=minutes)).isoformat() for minutes in [50, 40]]
+        with pytest.raises(UnprocessableError):
+            cosmo.tag_visit(device, gap[0], gap[1], "cat")
+        with pytest.raises(UnprocessableError):
+            cosmo.tag_visit(device, (now - timedelta(minutes=70)).isoformat(), visit["end"], "cat")
+
+        print("Only users who can tag the device's recordings can tag its visits")
+        stranger = helper.given_new_user(self, "stranger")
+        with pytest.raises(AuthorizationError):
+            stranger.tag_visit(device, visit["start"], visit["end"], "cat")
+
     def test_audio_bait(self, helper):
         # init device and sounds
         admin = helper.admin_user()
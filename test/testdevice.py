@@ -1,6 +1,6 @@
 from datetime import datetime, timedelta, timezone
 from .deviceapi import DeviceAPI
-from .recording import Recording
+from .recording import Recording, unique_copy
 
 
 class TestDevice:
@@ -23,11 +23,12 @@ class TestDevice:
         self._print_description("    and '{}' has an audio recording ".format(self.devicename))
         return self.upload_audio_recording_deprecated()
 
-    def upload_recording(self, properties=None):
+    def upload_recording(self, properties=None, filename=None):
         props = self.get_new_recording_props()
         if properties:
             props.update(properties)
-        filename = "files/small.cptv"
+        if not filename:
+            filename = unique_copy("files/small.cptv")
         recording_id = self._deviceapi.upload_recording(filename, props)
 
         # Expect to see this in data returned by the API server.
@@ -35,6 +36,17 @@ class TestDevice:
 
         return Recording(recording_id, props, filename)
 
+    def start_chunked_upload(self, chunk_size, properties=None):
+        props = self.get_new_recording_props()
+        if properties:
+            props.update(properties)
+        filename = unique_copy("files/small.cptv")
+        upload = ChunkedUpload(self._deviceapi, filename, props, chunk_size)
+
+        # Expect to see this in data returned by the API server.
+        props["rawMimeType"] = "application/x-cptv"
+        return upload
+
     def get_new_recording_props(self):
         props = {
             "type": "thermalRaw",
@@ -78,7 +90,7 @@ class TestDevice:
             props["location"] = self.location
         if extraProps:
             props.update(extraProps)
-        filename = "files/small.mp3"
+        filename = unique_copy("files/small.mp3")
         recording_id = self._deviceapi.upload_recording(filename, props)
         props["rawMimeType"] = "audio/mpeg"
         return Recording(recording_id, props, filename)
@@ -111,7 +123,7 @@ class TestDevice:
             props["location"] = self.location
 
         props.update(extraProps)
-        filename = "files/small.mp3"
+        filename = unique_copy("files/small.mp3")
         recording_id = self._deviceapi.upload_audio_recording(filename, props)
 
         props["rawMimeType"] = "audio/mpeg"
@@ -151,5 +163,26 @@ class TestDevice:
         self._deviceapi.reregister(new_name, new_group, new_password)
 
 
+class ChunkedUpload:
+    def __init__(self, deviceapi, filename, props, chunk_size):
+        self._deviceapi = deviceapi
+        self.filename = filename
+        self.props = props
+        with open(filename, "rb") as f:
+            content = f.read()
+        self.chunks = [content[i : i + chunk_size] for i in range(0, len(content), chunk_size)]
+        self.id_ = deviceapi.start_upload_session(props, filename.split("/")[-1])
+
+    def send_chunk(self, chunk_number):
+        self._deviceapi.upload_chunk(self.id_, chunk_number, self.chunks[chunk_number])
+
+    def received_chunks(self):
+        return self._deviceapi.get_upload_session(self.id_)["chunks"]
+
+    def finalise(self):
+        recording_id = self._deviceapi.finalise_upload_session(self.id_, len(self.chunks))
+        return Recording(recording_id, self.props, self.filename)
+
+
 def _new_timestamp():
     return datetime.now(timezone.utc)
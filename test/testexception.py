@@ -23,6 +23,16 @@ class BadRequestError(Exception):
         Exception.__init__(self, *args, **kwargs)
 
 
+class ConflictError(Exception):
+    def __init__(self, *args, **kwargs):
+        Exception.__init__(self, *args, **kwargs)
+
+
+class QuotaExceededError(Exception):
+    def __init__(self, *args, **kwargs):
+        Exception.__init__(self, *args, **kwargs)
+
+
 def raise_specific_exception(response):
     if response.status_code == 400:
         raise BadRequestError(response.text)
@@ -30,6 +40,10 @@ def raise_specific_exception(response):
         raise AuthenticationError(response.text)
     if response.status_code == 403:
         raise AuthorizationError(response.text)
+    if response.status_code == 409:
+        raise ConflictError(response.text)
     if response.status_code == 422:
         raise UnprocessableError(response.text)
+    if response.status_code == 429:
+        raise QuotaExceededError(response.text)
     response.raise_for_status()
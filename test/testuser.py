@@ -1,9 +1,12 @@
 import csv
 import io
+import json
 import pytest
+import tarfile
+import time
 
 from .testexception import TestException, AuthorizationError
-from .recording import Recording
+from .recording import Recording, unique_copy
 from .track import Track, TrackTag
 from .testdevice import TestDevice
 from typing import List
@@ -62,6 +65,12 @@ class TestUser:
     def query_recordings(self, **options):
         return self._userapi.query(**options)
 
+    def count_recordings(self, **options):
+        return self._userapi.count_recordings(**options)
+
+    def query_facets(self, facets, **options):
+        return self._userapi.query_facets(facets, **options)
+
     def query_visits(self, **options):
         return self._userapi.query_visits(**options)
 
@@ -152,6 +161,41 @@ class TestUser:
             return text.splitlines()
         return csv.DictReader(text.splitlines())
 
+    def get_archive(self, **args):
+        """Returns the contents of each file in a recordings archive, keyed by name."""
+        content = self._userapi.archive(**args)
+        files = {}
+        with tarfile.open(fileobj=io.BytesIO(content)) as archive:
+            for member in archive.getmembers():
+                data = archive.extractfile(member).read()
+                if member.name.endswith(".json"):
+                    data = json.loads(data)
+                files[member.name] = data
+        return files
+
+    def export_recordings(self, **args):
+        return self._userapi.export(**args)
+
+    def get_camtrap_dp(self, **args):
+        """Returns the data package and each table of a Camtrap DP export, as lists of rows."""
+        content = self.export_recordings(format="camtrap-dp", **args)
+        package = {}
+        with tarfile.open(fileobj=io.BytesIO(content)) as archive:
+            for member in archive.getmembers():
+                data = archive.extractfile(member).read().decode("utf-8")
+                if member.name.endswith(".json"):
+                    package[member.name] = json.loads(data)
+                else:
+                    package[member.name] = list(csv.DictReader(io.StringIO(data)))
+        return package
+
+    def get_darwin_core(self, **args):
+        content = self.export_recordings(format="dwc", **args)
+        return list(csv.DictReader(io.StringIO(content.decode("utf-8"))))
+
+    def download_artifact(self, artifact):
+        return b"".join(self._userapi._download_signed(artifact["downloadJWT"]))
+
     def can_download_correct_recording(self, recording):
         r = self._userapi.get_recording_response(recording.id_)
         content = io.BytesIO()
@@ -163,10 +207,14 @@ class TestUser:
 
         props = recording.props.copy()
 
-        if "relativeToDawn" not in props:
-            props["relativeToDawn"] = None
-        if "relativeToDusk" not in props:
-            props["relativeToDusk"] = None
+        for key in ["relativeToDawn", "relativeToDusk"]:
+            if key in props:
+                continue
+            if props.get("location") and props.get("recordingDateTime"):
+                # Calculated from the location and time.
+                assert isinstance(recv_props.pop(key), int)
+            else:
+                props[key] = None
 
         # # These are expected to be there but the values aren't tested.
         del recv_props["Device"]
@@ -192,6 +240,10 @@ class TestUser:
         # Compare the remaining properties.
         assert_props_exist(props, recv_props)
 
+    def request_raw_download(self, recording, method="GET", headers=None):
+        r = self._userapi.get_recording_response(recording.id_)
+        return self._userapi.request_signed(r["downloadRawJWT"], method, headers)
+
     def cannot_download_recording(self, recording):
         with pytest.raises(AuthorizationError):
             self._userapi.get_recording(recording.id_)
@@ -281,6 +333,9 @@ class TestUser:
     def get_devices_as_ids(self):
         return [device["id"] for device in self._userapi.get_devices_as_json()]
 
+    def get_devices_in_area(self, area):
+        return [device["id"] for device in self._userapi.get_devices_in_area(area)]
+
     def get_active_devices(self):
         devices = self._userapi.get_devices_as_json()
         active_devices = []
@@ -334,7 +389,7 @@ class TestUser:
     def uploads_recording_for(self, testdevice, device_id=None):
         props = testdevice.get_new_recording_props()
 
-        filename = "files/small.cptv"
+        filename = unique_copy("files/small.cptv")
         if device_id:
             devicename = device_id
         else:
@@ -349,7 +404,7 @@ class TestUser:
 
     def legacy_uploads_recording_for(self, testdevice):
         props = testdevice.get_new_recording_props()
-        filename = "files/small.cptv"
+        filename = unique_copy("files/small.cptv")
         recording_id = self._userapi.legacy_upload_recording_for(testdevice.devicename, filename, props)
 
         # Expect to see this in data returned by the API server.
@@ -363,6 +418,55 @@ class TestUser:
     def set_global_permission(self, user, permission):
         self._userapi.set_global_permission(user, permission)
 
+    def set_group_quotas(self, group, **quotas):
+        self._userapi.set_group_quotas(group, **quotas)
+
+    def set_device_quotas(self, device, **quotas):
+        self._userapi.set_device_quotas(device.get_id(), **quotas)
+
+    def get_group_quota_usage(self, group):
+        return self._userapi.get_group_quota_usage(group)
+
+    def set_group_retention_policy(self, group, policy):
+        self._userapi.set_group_retention_policy(group, policy)
+
+    def get_group_retention_report(self, group):
+        return self._userapi.get_group_retention_report(group)
+
+    def audit_storage(self, mark_missing=None, timeout=60):
+        """Runs an audit of the object store and returns its results."""
+        job = self._userapi.start_storage_audit(mark_missing)
+        deadline = time.time() + timeout
+        while not job["finishedAt"]:
+            if time.time() > deadline:
+                raise TestException("Storage audit didn't finish in {} seconds".format(timeout))
+            time.sleep(0.5)
+            job = self._userapi.get_storage_audit()
+        if job["error"]:
+            raise TestException("Storage audit failed: {}".format(job["error"]))
+        return job["audit"]
+
+    def get_storage_audit(self):
+        return self._userapi.get_storage_audit()
+
+    def save_search(self, name, query, shared_with=None):
+        return self._userapi.save_search(name, query, shared_with)
+
+    def get_searches(self, count_new=None):
+        return self._userapi.get_searches(count_new)
+
+    def get_search(self, search_id, count_new=None):
+        return self._userapi.get_search(search_id, count_new)
+
+    def run_search(self, search_id, **options):
+        return self._userapi.run_search(search_id, **options)
+
+    def update_search(self, search_id, **fields):
+        self._userapi.update_search(search_id, **fields)
+
+    def delete_search(self, search_id):
+        self._userapi.delete_search(search_id)
+
     def add_to_group(self, newuser, groupname):
         self._userapi.add_user_to_group(newuser, groupname)
 
@@ -375,8 +479,24 @@ class TestUser:
     def add_stations_to_group(self, group_id_or_name, stations=None, fromDate=None):
         return self._userapi.add_stations_to_group(group_id_or_name, stations, fromDate)
 
-    def get_stations_for_group(self, group_id_or_name):
-        return self._userapi.get_stations_for_group(group_id_or_name)
+    def get_stations_for_group(self, group_id_or_name, area=None):
+        return self._userapi.get_stations_for_group(group_id_or_name, area)
+
+    def set_group_visit_rules(self, group_id_or_name, rules, timeout=60):
+        """Sets the group's visit rules and waits for its visits to be regrouped."""
+        job = self._userapi.set_group_visit_rules(group_id_or_name, rules)["regrouping"]
+        deadline = time.time() + timeout
+        while not job["finishedAt"]:
+            if time.time() > deadline:
+                raise TestException("Visits weren't regrouped in {} seconds".format(timeout))
+            time.sleep(0.5)
+            job = self._userapi.get_group_visit_regrouping(group_id_or_name)
+        if job["error"]:
+            raise TestException("Regrouping visits failed: {}".format(job["error"]))
+        return job
+
+    def get_group_visit_rules(self, group_id_or_name):
+        return self._userapi.get_group_visit_rules(group_id_or_name)
 
     def add_to_device(self, newuser, device):
         self._userapi.add_user_to_device(newuser, device.get_id())
@@ -485,8 +605,11 @@ class TestUser:
             data={},
         )
 
-    def can_tag_track(self, track, automatic=None, what=None, replace=False):
-        tag = TrackTag.create(track, automatic=automatic, what=what)
+    def tag_visit(self, device, start, end, what, confidence=0.9):
+        return self._userapi.tag_visit(device.get_id(), start, end, what, confidence)
+
+    def can_tag_track(self, track, automatic=None, what=None, replace=False, data=None):
+        tag = TrackTag.create(track, automatic=automatic, what=what, data=data)
         tag.id_ = self._userapi.add_track_tag(
             recording_id=track.recording.id_,
             track_id=track.id_,
@@ -66,6 +66,10 @@ class UserAPI(APIBase):
         deviceIds=None,
         return_json=False,
         where=None,
+        cursor=None,
+        area=None,
+        trackWhere=None,
+        text=None,
     ):
         if where is None:
             where = defaultdict(dict)
@@ -86,8 +90,24 @@ class UserAPI(APIBase):
             tags=tags,
             filterOptions=filterOptions,
             return_json=return_json,
+            cursor=cursor,
+            area=area,
+            trackWhere=trackWhere,
+            text=text,
         )
 
+    def count_recordings(self, where=None, tagmode=None, tags=None, approximate=None):
+        url = urljoin(self._baseurl, "/api/v1/recordings/count")
+        params = {"where": where, "tagMode": tagmode, "tags": tags, "approximate": approximate}
+        response = requests.get(url, headers=self._auth_header, params=serialise_params(params))
+        return self._check_response(response)
+
+    def query_facets(self, facets, where=None, tagmode=None, tags=None):
+        url = urljoin(self._baseurl, "/api/v1/recordings/facets")
+        params = {"facets": facets, "where": where, "tagMode": tagmode, "tags": tags}
+        response = requests.get(url, headers=self._auth_header, params=serialise_params(params))
+        return self._check_response(response)["facets"]
+
     def query_visits(
         self,
         startDate=None,
@@ -101,6 +121,9 @@ class UserAPI(APIBase):
         deviceIds=None,
         return_json=True,
         where=None,
+        cursor=None,
+        tagPrecedence=None,
+        groupBy=None,
     ):
         if where is None:
             where = defaultdict(dict)
@@ -116,6 +139,9 @@ class UserAPI(APIBase):
             where=where,
             limit=limit,
             offset=offset,
+            cursor=cursor,
+            tagPrecedence=tagPrecedence,
+            groupBy=groupBy,
             tagMode=tagmode,
             tags=tags,
             filterOptions=filterOptions,
@@ -169,6 +195,43 @@ class UserAPI(APIBase):
             return response.text
         raise_specific_exception(response)
 
+    def archive(self, limit=100, tagmode=None, tags=None, filterOptions=None, deviceIds=None, jwt=None):
+        where = {}
+        if deviceIds is not None:
+            where["DeviceId"] = deviceIds
+
+        url = urljoin(self._baseurl, "/api/v1/recordings/archive")
+        params = {
+            "where": where,
+            "limit": limit,
+            "tagMode": tagmode,
+            "tags": tags,
+            "filterOptions": filterOptions,
+        }
+
+        if jwt:
+            params["jwt"] = jwt
+            headers = None
+        else:
+            headers = self._auth_header
+
+        response = requests.get(url, params=serialise_params(params), headers=headers)
+        if response.status_code == 200:
+            return response.content
+        raise_specific_exception(response)
+
+    def export(self, format=None, limit=100, deviceIds=None, filterOptions=None):
+        where = {}
+        if deviceIds is not None:
+            where["DeviceId"] = deviceIds
+
+        url = urljoin(self._baseurl, "/api/v1/recordings/export")
+        params = {"format": format, "where": where, "limit": limit, "filterOptions": filterOptions}
+        response = requests.get(url, params=serialise_params(params), headers=self._auth_header)
+        if response.status_code == 200:
+            return response.content
+        raise_specific_exception(response)
+
     def update_user(self, body):
         url = urljoin(self._baseurl, "/api/v1/users")
         response = requests.patch(url, data=body, headers=self._auth_header)
@@ -293,6 +356,11 @@ class UserAPI(APIBase):
     def get_devices_as_json(self):
         return self._get_all("/api/v1/devices")["devices"]["rows"]
 
+    def get_devices_in_area(self, area):
+        url = urljoin(self._baseurl, "/api/v1/devices")
+        r = requests.get(url, headers=self._auth_header, params=serialise_params({"area": area}))
+        return self._check_response(r)["devices"]["rows"]
+
     def get_devices_as_string(self):
         return json.dumps(self.get_devices_as_json())
 
@@ -418,6 +486,76 @@ class UserAPI(APIBase):
         response = requests.patch(url, headers=self._auth_header, data={"permission": permission})
         self._check_response(response)
 
+    def set_group_quotas(self, group, **quotas):
+        url = urljoin(self._baseurl, "/api/v1/admin/quotas/groups/{}".format(group))
+        response = requests.patch(url, headers=self._auth_header, json=quotas)
+        self._check_response(response)
+
+    def set_device_quotas(self, device_id, **quotas):
+        url = urljoin(self._baseurl, "/api/v1/admin/quotas/devices/{}".format(device_id))
+        response = requests.patch(url, headers=self._auth_header, json=quotas)
+        self._check_response(response)
+
+    def get_group_quota_usage(self, group):
+        url = urljoin(self._baseurl, "/api/v1/admin/quotas/groups/{}".format(group))
+        response = requests.get(url, headers=self._auth_header)
+        return self._check_response(response)
+
+    def set_group_retention_policy(self, group, policy):
+        url = urljoin(self._baseurl, "/api/v1/admin/retention/groups/{}".format(group))
+        response = requests.patch(url, headers=self._auth_header, json={"retentionPolicy": policy})
+        self._check_response(response)
+
+    def get_group_retention_report(self, group):
+        url = urljoin(self._baseurl, "/api/v1/admin/retention/groups/{}/report".format(group))
+        response = requests.get(url, headers=self._auth_header)
+        return self._check_response(response)
+
+    def start_storage_audit(self, mark_missing=None):
+        url = urljoin(self._baseurl, "/api/v1/admin/storage/audit")
+        data = {} if mark_missing is None else {"markMissing": mark_missing}
+        response = requests.post(url, headers=self._auth_header, json=data)
+        return self._check_response(response)
+
+    def get_storage_audit(self):
+        url = urljoin(self._baseurl, "/api/v1/admin/storage/audit")
+        response = requests.get(url, headers=self._auth_header)
+        return self._check_response(response)
+
+    def save_search(self, name, query, shared_with=None):
+        data = {"name": name, "query": query}
+        if shared_with is not None:
+            data["sharedWith"] = shared_with
+        url = urljoin(self._baseurl, "/api/v1/searches")
+        response = requests.post(url, headers=self._auth_header, json=data)
+        return self._check_response(response)["id"]
+
+    def get_searches(self, count_new=None):
+        url = urljoin(self._baseurl, "/api/v1/searches")
+        params = serialise_params({"countNew": count_new})
+        response = requests.get(url, headers=self._auth_header, params=params)
+        return self._check_response(response)["searches"]
+
+    def get_search(self, search_id, count_new=None):
+        url = urljoin(self._baseurl, "/api/v1/searches/{}".format(search_id))
+        params = serialise_params({"countNew": count_new})
+        response = requests.get(url, headers=self._auth_header, params=params)
+        return self._check_response(response)["search"]
+
+    def run_search(self, search_id, limit=None, offset=None, cursor=None):
+        url = urljoin(self._baseurl, "/api/v1/searches/{}/recordings".format(search_id))
+        params = serialise_params({"limit": limit, "offset": offset, "cursor": cursor})
+        response = requests.get(url, headers=self._auth_header, params=params)
+        return self._check_response(response)
+
+    def update_search(self, search_id, **fields):
+        url = urljoin(self._baseurl, "/api/v1/searches/{}".format(search_id))
+        response = requests.patch(url, headers=self._auth_header, json=fields)
+        self._check_response(response)
+
+    def delete_search(self, search_id):
+        self._do_delete("searches", search_id)
+
     def add_user_to_group(self, newuser, groupname):
         url = urljoin(self._baseurl, "/api/v1/groups/users")
         props = {"group": groupname, "username": newuser.username, "admin": "false"}
@@ -447,12 +585,28 @@ class UserAPI(APIBase):
         self._check_response(response)
         return response.json()
 
-    def get_stations_for_group(self, group_id_or_name):
+    def get_stations_for_group(self, group_id_or_name, area=None):
         url = urljoin(self._baseurl, "/api/v1/groups/{}/stations".format(group_id_or_name))
-        response = requests.get(url, headers=self._auth_header)
+        response = requests.get(url, headers=self._auth_header, params=serialise_params({"area": area}))
         self._check_response(response)
         return response.json()
 
+    def set_group_visit_rules(self, group_id_or_name, rules):
+        url = urljoin(self._baseurl, "/api/v1/groups/{}/visit-rules".format(group_id_or_name))
+        response = requests.patch(url, headers=self._auth_header, json={"visitRules": rules})
+        return self._check_response(response)
+
+    def get_group_visit_rules(self, group_id_or_name):
+        return self._get_group_visit_rules_response(group_id_or_name)["visitRules"]
+
+    def get_group_visit_regrouping(self, group_id_or_name):
+        return self._get_group_visit_rules_response(group_id_or_name)["regrouping"]
+
+    def _get_group_visit_rules_response(self, group_id_or_name):
+        url = urljoin(self._baseurl, "/api/v1/groups/{}/visit-rules".format(group_id_or_name))
+        response = requests.get(url, headers=self._auth_header)
+        return self._check_response(response)
+
     def add_user_to_device(self, newuser, deviceid):
         url = urljoin(self._baseurl, "/api/v1/devices/users")
         props = {"deviceId": deviceid, "username": newuser.username, "admin": "false"}
@@ -516,6 +670,20 @@ class UserAPI(APIBase):
         )
         return self._check_response(response)["trackTagId"]
 
+    def tag_visit(self, device_id, start, end, what, confidence, data=None):
+        props = {
+            "deviceId": device_id,
+            "start": start,
+            "end": end,
+            "what": what,
+            "confidence": confidence,
+            "data": json.dumps(data),
+        }
+        response = requests.post(
+            urljoin(self._baseurl, "/api/v1/recordings/visits/tags"), headers=self._auth_header, data=props
+        )
+        return self._check_response(response)
+
     def delete_track_tag(self, recording_id, track_id, track_tag_id, tag_jwt=None):
         if tag_jwt is not None:
             url = "/api/v1/recordings/{}/tracks/{}/tags/{}?tagJWT={}".format(